@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { StrictMode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import BatchPanel from "./BatchPanel";
+import { localProvider } from "../services/local";
+import { DEFAULT_OUTPUT_FORMAT } from "../services/output";
+
+const files = [new File([new Uint8Array(8)], 'shot.png', { type: 'image/png' })];
+
+const panel = () => (
+  <BatchPanel
+    files={files}
+    provider={localProvider}
+    instruction=""
+    onInstructionChange={() => {}}
+    presetUse={null}
+    onPresetChange={() => {}}
+    userPresets={[]}
+    onUserPresetsChange={() => {}}
+    unfilledVariables={[]}
+    operator=""
+    onOperatorChange={() => {}}
+    outputFormat={DEFAULT_OUTPUT_FORMAT}
+    onOutputFormatChange={() => {}}
+    onResult={() => {}}
+    onClose={() => {}}
+  />
+);
+
+beforeEach(() => {
+  // jsdom has no object URLs; the panel only needs them for the thumbnails.
+  let next = 0;
+  URL.createObjectURL = vi.fn(() => `blob:test/${next++}`);
+  URL.revokeObjectURL = vi.fn();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('BatchPanel', () => {
+  it('lists the files it was opened with', () => {
+    render(panel());
+    expect(screen.getByText('shot.png')).toBeTruthy();
+  });
+
+  it('keeps the files through the extra mount of StrictMode', () => {
+    render(<StrictMode>{panel()}</StrictMode>);
+    expect(screen.getByText('shot.png')).toBeTruthy();
+    const thumbnail = screen.getByAltText('shot.png') as HTMLImageElement;
+    expect(URL.revokeObjectURL).not.toHaveBeenCalledWith(thumbnail.getAttribute('src'));
+  });
+
+  it('lets go of the thumbnails when it closes', () => {
+    const { unmount } = render(panel());
+    const source = (screen.getByAltText('shot.png') as HTMLImageElement).getAttribute('src');
+    unmount();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(source);
+  });
+});
@@ -0,0 +1,499 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { zipSync } from 'fflate';
+import { createBatchQueue, BatchItem, BatchQueue, BatchStatus } from '../services/batch';
+import { baseName, collectDroppedFiles, extensionForMimeType, triggerDownload, urlToBlob } from '../services/files';
+import { addNode, createGraph, mapGraphMedia, NodeMeta } from '../services/editGraph';
+import { exportImage, OutputFormat } from '../services/output';
+import { acceptFor, InputError, inputTypeOf, prepareImage, PreparedImage, validateInput } from '../services/preprocess';
+import { inpaintAtFullResolution } from '../services/tiling';
+import { isTransientError } from '../services/errors';
+import { isOffline, watchConnectivity } from '../services/offlineQueue';
+import { notifyFinished, requestNotificationPermission } from '../services/pwa';
+import OwnershipAttestation from './OwnershipAttestation';
+import OutputFormatPicker from './OutputFormatPicker';
+import PresetPicker from './PresetPicker';
+import { useI18n } from './LocaleContext';
+import type { InpaintingProvider } from '../services/inpainting';
+import type { MessageKey } from '../services/i18n';
+import type { EditGraph, InstructionPreset, PresetUse } from '../types';
+import {
+  PlayIcon,
+  PauseIcon,
+  StopIcon,
+  ArrowPathIcon,
+  ArchiveBoxArrowDownIcon,
+  ArrowDownTrayIcon,
+  PlusIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface BatchPanelProps {
+  files: File[];
+  provider: InpaintingProvider;
+  instruction: string;
+  onInstructionChange: (instruction: string) => void;
+  presetUse: PresetUse | null;
+  onPresetChange: (use: PresetUse | null, instruction: string | null) => void;
+  userPresets: InstructionPreset[];
+  onUserPresetsChange: (presets: InstructionPreset[]) => void;
+  /** Preset variables without a value; the batch cannot start until they are filled. */
+  unfilledVariables: string[];
+  operator: string;
+  onOperatorChange: (operator: string) => void;
+  outputFormat: OutputFormat;
+  onOutputFormatChange: (format: OutputFormat) => void;
+  /**
+   * `graph` is the upload plus the cleaned result, stamped with the settings the item ran with;
+   * `mimeType` is the type of the upload as it was sent to the model.
+   */
+  onResult: (item: BatchItem, graph: EditGraph, mimeType: string) => void;
+  onClose: () => void;
+}
+
+const MAX_RETRIES = 2;
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  running: 'bg-blue-600 text-white animate-pulse',
+  done: 'bg-emerald-600 text-white',
+  failed: 'bg-red-600 text-white',
+  retry: 'bg-amber-500 text-black',
+};
+
+const STATUS_LABELS: Record<BatchStatus, MessageKey> = {
+  pending: 'batch.status.pending',
+  running: 'batch.status.running',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+  retry: 'batch.status.retry',
+};
+
+const cleanedFileName = (item: BatchItem, mimeType: string, suffix: string = '') =>
+  `${baseName(item.name)}-clean${suffix}.${extensionForMimeType(mimeType)}`;
+
+interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  files, provider, instruction, onInstructionChange, presetUse, onPresetChange, userPresets, onUserPresetsChange, unfilledVariables,
+  operator, onOperatorChange, outputFormat, onOutputFormatChange, onResult, onClose
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [paused, setPaused] = useState(true);
+  const [ownershipConfirmed, setOwnershipConfirmed] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<SkippedFile[]>([]);
+  // Set while the batch is held back for the connection; it carries on by itself once online.
+  const [waitingForConnection, setWaitingForConnection] = useState(false);
+  const waitingRef = useRef(false);
+  // When the running batch was started, for the notification once it finishes; null while none runs.
+  const startedAtRef = useRef<number | null>(null);
+
+  const addInputRef = useRef<HTMLInputElement>(null);
+  // The queue outlives renders, so it reads the latest settings through refs.
+  const providerRef = useRef(provider);
+  const instructionRef = useRef(instruction);
+  const presetRef = useRef(presetUse);
+  const onResultRef = useRef(onResult);
+  const operatorRef = useRef(operator);
+  const i18nRef = useRef(i18n);
+  providerRef.current = provider;
+  instructionRef.current = instruction;
+  presetRef.current = presetUse;
+  onResultRef.current = onResult;
+  operatorRef.current = operator;
+  i18nRef.current = i18n;
+  // Settings each item actually ran with, and the resulting graphs used for export.
+  const stepsRef = useRef(new Map<string, NodeMeta>());
+  const graphsRef = useRef(new Map<string, EditGraph>());
+  // Each finished item's upload as the model saw it, until its graph is built.
+  const preparedRef = useRef(new Map<string, PreparedImage>());
+  // Object URLs of the uploads, shown as thumbnails until an item has its result.
+  const sourcesRef = useRef(new Set<string>());
+
+  // Uploads are only decoded once their item starts, so a large batch never holds all of them in memory.
+  const cleanItem = async (item: BatchItem, signal: AbortSignal): Promise<string> => {
+    const image = await prepareImage(item.file!, i18nRef.current).catch(err => {
+      throw err instanceof InputError ? err : new InputError(i18nRef.current.t('batch.error.read', { name: item.name }));
+    });
+    signal.throwIfAborted();
+    const provider = providerRef.current;
+    const step: NodeMeta = {
+      instruction: instructionRef.current,
+      provider: provider.id,
+      model: provider.imageModel,
+      attestedBy: operatorRef.current.trim(),
+      preset: presetRef.current,
+    };
+    const result = await inpaintAtFullResolution(provider, { image: image.dataUrl, mimeType: image.mimeType, instruction: step.instruction, signal });
+    if (!result) throw new Error('The model did not return an image.');
+    stepsRef.current.set(item.id, step);
+    preparedRef.current.set(item.id, image);
+    return result;
+  };
+
+  /** Revokes the thumbnails of items that are gone or show their result by now. */
+  const releaseSources = (current: BatchItem[]) => {
+    const shown = new Set(current.filter(item => item.status !== 'done').map(item => item.source));
+    sourcesRef.current.forEach(url => {
+      if (shown.has(url)) return;
+      URL.revokeObjectURL(url);
+      sourcesRef.current.delete(url);
+    });
+  };
+
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue({
+      concurrency,
+      maxRetries: MAX_RETRIES,
+      // Safety blocks, text replies and auth problems come back the same every time.
+      shouldRetry: isTransientError,
+      process: (item, signal) => new Promise<string>((resolve, reject) => {
+        // The local engine cannot be interrupted, so a cancelled item is given up on right away.
+        signal.addEventListener('abort', () => reject(new Error('Cancelled.')));
+        cleanItem(item, signal).then(resolve, reject);
+      }),
+      onChange: next => {
+        setItems(next);
+        releaseSources(next);
+      },
+      onItemDone: item => {
+        const image = preparedRef.current.get(item.id)!;
+        preparedRef.current.delete(item.id);
+        const root = createGraph(image.dataUrl);
+        const graph = addNode(root, root.rootId, item.result!, stepsRef.current.get(item.id)!);
+        graphsRef.current.set(item.id, graph);
+        onResultRef.current(item, graph, image.mimeType);
+      },
+    });
+  }
+  const queue = queueRef.current;
+
+  /** Only the cheap checks run here; files that cannot be decoded fail when their item starts. */
+  const addFiles = (incoming: File[]) => {
+    const rejected: SkippedFile[] = [];
+    const accepted = incoming.filter(file => {
+      try {
+        validateInput(file, 'image', i18n);
+        return true;
+      } catch (err: any) {
+        rejected.push({ name: file.webkitRelativePath || file.name, reason: err.message });
+        return false;
+      }
+    });
+    queue.add(accepted.map(file => {
+      const source = URL.createObjectURL(file);
+      sourcesRef.current.add(source);
+      return { name: file.webkitRelativePath || file.name, mimeType: inputTypeOf(file), source, file };
+    }));
+    if (rejected.length) setSkipped((current: SkippedFile[]) => [...current, ...rejected]);
+  };
+
+  const addedFilesRef = useRef<File[] | null>(null);
+  useEffect(() => {
+    if (addedFilesRef.current === files) return;
+    addedFilesRef.current = files;
+    addFiles(files);
+  }, [files]);
+
+  // StrictMode unmounts and mounts the panel once more right away. The pending
+  // items are dropped here either way, so the files are added again on remount.
+  useEffect(() => () => {
+    queue.cancel();
+    sourcesRef.current.forEach(url => URL.revokeObjectURL(url));
+    sourcesRef.current.clear();
+    addedFilesRef.current = null;
+    setSkipped([]);
+  }, []);
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [concurrency]);
+
+  // Keeps the ref the connectivity handler reads in step with the notice that is shown.
+  const waitForConnection = (waiting: boolean) => {
+    waitingRef.current = waiting;
+    setWaitingForConnection(waiting);
+  };
+
+  // Offline, every item would only use up its retries; the queue waits for the connection instead.
+  useEffect(() => watchConnectivity(online => {
+    if (!online && !queue.isPaused() && providerRef.current.requiresNetwork) {
+      queue.pause();
+      setPaused(true);
+      waitForConnection(true);
+    } else if (online && waitingRef.current) {
+      waitForConnection(false);
+      queue.resume();
+      setPaused(false);
+    }
+  }), []);
+
+  const handleStart = () => {
+    if (!ownershipConfirmed || !operator.trim() || unfilledVariables.length) return;
+    // Asked from the click, as browsers require; the batch may well finish in another tab.
+    requestNotificationPermission();
+    startedAtRef.current ??= Date.now();
+    if (provider.requiresNetwork && isOffline()) {
+      waitForConnection(true);
+      return;
+    }
+    queue.resume();
+    setPaused(false);
+  };
+
+  const handlePause = () => {
+    queue.pause();
+    setPaused(true);
+    waitForConnection(false);
+  };
+
+  const handleCancel = () => {
+    queue.cancel();
+    setPaused(true);
+    waitForConnection(false);
+    setOwnershipConfirmed(false);
+    startedAtRef.current = null;
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    addFiles(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  /** The cleaned file with provenance metadata embedded. */
+  const exportItem = async (item: BatchItem) => {
+    const graph = graphsRef.current.get(item.id);
+    if (!graph) throw new Error(`${item.name} has no result yet.`);
+    return exportImage(await mapGraphMedia(graph, urlToBlob), outputFormat);
+  };
+
+  const downloadItem = async (item: BatchItem) => {
+    try {
+      const blob = await exportItem(item);
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, cleanedFileName(item, blob.type));
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setDownloadError(err.message || t('error.download'));
+    }
+  };
+
+  const downloadZip = async () => {
+    setDownloadError(null);
+    try {
+      const entries: Record<string, Uint8Array> = {};
+      for (const item of items) {
+        if (item.status !== 'done' || !item.result) continue;
+        const blob = await exportItem(item);
+        let name = cleanedFileName(item, blob.type);
+        for (let n = 2; entries[name]; n++) {
+          name = cleanedFileName(item, blob.type, `-${n}`);
+        }
+        entries[name] = new Uint8Array(await blob.arrayBuffer());
+      }
+      // Images are already compressed, so store them as-is instead of deflating again.
+      const zip = zipSync(entries, { level: 0 });
+      const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+      triggerDownload(url, `clearcast-batch-${Date.now()}.zip`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setDownloadError(err.message || t('batch.error.zip'));
+    }
+  };
+
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), {
+    pending: 0, running: 0, done: 0, failed: 0, retry: 0,
+  } as Record<BatchStatus, number>);
+  const finished = counts.done + counts.failed;
+  const active = counts.pending + counts.running + counts.retry > 0;
+
+  useEffect(() => {
+    if (active || startedAtRef.current === null) return;
+    notifyFinished(startedAtRef.current, t('batch.notify'), t('batch.notifyBody', { count: counts.done, failed: counts.failed }));
+    startedAtRef.current = null;
+  }, [active]);
+
+  return (
+    <div
+      className="w-full max-w-6xl flex flex-col gap-6 mb-12"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
+      <div className="glass rounded-3xl p-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            {t('batch.title')}
+            <span className="text-xs bg-gray-700 px-2 py-0.5 rounded-full font-normal">{t('batch.progress', { done: finished, total: items.length })}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={active && !paused}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+            title={t('batch.close')}
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div
+          role="progressbar"
+          aria-label={t('batch.title')}
+          aria-valuemin={0}
+          aria-valuemax={items.length}
+          aria-valuenow={finished}
+          className="w-full h-1.5 bg-white/10 rounded-full overflow-hidden"
+        >
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }} />
+        </div>
+
+        <PresetPicker
+          type="image"
+          userPresets={userPresets}
+          onUserPresetsChange={onUserPresetsChange}
+          value={presetUse}
+          onChange={onPresetChange}
+          instruction={instruction}
+          disabled={!paused}
+        />
+        <textarea
+          value={instruction}
+          onChange={(e) => onInstructionChange(e.target.value)}
+          placeholder={t('batch.instruction')}
+          aria-label={t('editor.instruction')}
+          className="w-full bg-black/50 border border-gray-700 rounded-xl px-4 py-3 text-sm focus:border-blue-500 outline-none transition-all resize-none h-20"
+        />
+        <OwnershipAttestation
+          operator={operator}
+          onOperatorChange={onOperatorChange}
+          confirmed={ownershipConfirmed}
+          onConfirmedChange={setOwnershipConfirmed}
+          subject="batch"
+          disabled={!paused}
+        />
+        {unfilledVariables.length > 0 && (
+          <p className="text-xs text-amber-300">{t('preset.unfilled', { names: unfilledVariables.join(', '), preset: presetUse?.name || '' })}</p>
+        )}
+        {provider.requiresMask && (
+          <p className="text-xs text-amber-300">{t('batch.needsMask', { engine: provider.label })}</p>
+        )}
+        {waitingForConnection && (
+          <p role="status" className="text-xs text-amber-300">{t('batch.offline')}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          {paused ? (
+            <button
+              onClick={handleStart}
+              disabled={!active || provider.requiresMask || !ownershipConfirmed || !operator.trim() || unfilledVariables.length > 0}
+              className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-xl font-bold flex items-center gap-2"
+            >
+              <PlayIcon className="w-4 h-4" /> {finished > 0 || counts.running > 0 ? t('batch.resume') : t('batch.start')}
+            </button>
+          ) : (
+            <button
+              onClick={handlePause}
+              className="bg-white/10 hover:bg-white/20 text-white px-5 py-2 rounded-xl font-bold flex items-center gap-2"
+            >
+              <PauseIcon className="w-4 h-4" /> {t('batch.pause')}
+            </button>
+          )}
+          <button
+            onClick={handleCancel}
+            disabled={!active}
+            className="px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30 flex items-center gap-2"
+          >
+            <StopIcon className="w-4 h-4" /> {t('batch.cancel')}
+          </button>
+          <button
+            onClick={() => queue.retryFailed()}
+            disabled={counts.failed === 0}
+            className="px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30 flex items-center gap-2"
+          >
+            <ArrowPathIcon className="w-4 h-4" /> {t('batch.retryFailed')}
+          </button>
+          <button
+            onClick={() => addInputRef.current?.click()}
+            className="px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 flex items-center gap-2"
+          >
+            <PlusIcon className="w-4 h-4" /> {t('batch.add')}
+          </button>
+          <input
+            type="file"
+            ref={addInputRef}
+            multiple
+            accept={acceptFor('image')}
+            className="hidden"
+            onChange={(e) => { addFiles(Array.from(e.target.files || [])); e.target.value = ''; }}
+          />
+
+          <div className="ms-auto">
+            <OutputFormatPicker format={outputFormat} onChange={onOutputFormatChange} />
+          </div>
+          <label className="text-xs text-gray-400 flex items-center gap-2">
+            {t('batch.concurrency')}
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none"
+            >
+              {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={downloadZip}
+            disabled={counts.done === 0}
+            className="bg-white text-black px-4 py-2 rounded-xl font-bold flex items-center gap-2 disabled:opacity-30"
+          >
+            <ArchiveBoxArrowDownIcon className="w-4 h-4" /> {t('batch.downloadZip')}
+          </button>
+        </div>
+        {downloadError && <p role="alert" className="text-xs text-red-300">{downloadError}</p>}
+        {skipped.length > 0 && (
+          <div className="text-xs text-amber-300 flex flex-col gap-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{t('batch.skipped', { count: skipped.length })}</span>
+              <button onClick={() => setSkipped([])} className="text-gray-400 hover:text-white">{t('common.dismiss')}</button>
+            </div>
+            {skipped.map((file: SkippedFile, i: number) => <p key={i} className="truncate" title={file.reason}>{file.reason}</p>)}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {items.map(item => (
+          <div key={item.id} className="glass border-white/5 rounded-2xl p-3 flex gap-3">
+            <div className="w-20 h-20 bg-black/40 rounded-lg overflow-hidden flex-shrink-0">
+              <img src={item.result || item.source} alt={item.name} className={`object-cover w-full h-full ${item.result ? '' : 'opacity-60'}`} />
+            </div>
+            <div className="flex flex-col justify-between py-1 overflow-hidden flex-1">
+              <p className="text-sm font-medium truncate" title={item.name}>{item.name}</p>
+              <div className="flex items-center gap-2">
+                <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${STATUS_STYLES[item.status]}`}>{t(STATUS_LABELS[item.status as BatchStatus])}</span>
+                {item.attempts > 1 && <span className="text-[10px] text-gray-500">{t('batch.attempt', { n: item.attempts })}</span>}
+              </div>
+              {item.error && item.status !== 'done' && <p className="text-xs text-red-300 truncate" title={item.error}>{item.error}</p>}
+              {item.result && (
+                <button
+                  onClick={() => downloadItem(item)}
+                  className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                >
+                  <ArrowDownTrayIcon className="w-3 h-3" /> {t('common.saveResult')}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
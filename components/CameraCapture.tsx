@@ -0,0 +1,216 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  CAMERA_RESOLUTIONS,
+  CameraError,
+  captureStill,
+  ClipRecorder,
+  DEFAULT_CAMERA_RESOLUTION,
+  listCameras,
+  MAX_CLIP_SECONDS,
+  openCamera,
+  recordClip,
+  stopCamera
+} from '../services/camera';
+import type { MediaType } from '../types';
+import { useI18n } from './LocaleContext';
+import {
+  CameraIcon,
+  VideoCameraIcon,
+  StopIcon,
+  ArrowPathIcon,
+  CheckIcon
+} from '@heroicons/react/24/outline';
+
+interface CameraCaptureProps {
+  /** A frozen still goes to the image flow, a recorded clip to the video flow. */
+  onCapture: (file: File, type: MediaType) => void;
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture }) => {
+  const { t, formatNumber } = useI18n();
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [resolutionId, setResolutionId] = useState(DEFAULT_CAMERA_RESOLUTION);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [still, setStill] = useState<{ file: File; url: string } | null>(null);
+  const [recording, setRecording] = useState<ClipRecorder | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Reopens the stream whenever the camera or resolution changes; the old tracks are released first.
+  useEffect(() => {
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    const resolution = CAMERA_RESOLUTIONS.find(r => r.id === resolutionId) || CAMERA_RESOLUTIONS[0];
+    setError(null);
+    openCamera({ deviceId, resolution })
+      .then(async (next) => {
+        if (cancelled) return stopCamera(next);
+        opened = next;
+        setStream(next);
+        // Device labels are only exposed once access has been granted.
+        setCameras(await listCameras());
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (!(err instanceof CameraError)) console.error("Camera Error:", err);
+        setError(err instanceof CameraError ? err.message : t('camera.error.start'));
+        setStream(null);
+      });
+    return () => {
+      cancelled = true;
+      if (opened) stopCamera(opened);
+    };
+  }, [deviceId, resolutionId]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const started = Date.now();
+    const timer = setInterval(() => setElapsed((Date.now() - started) / 1000), 250);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  useEffect(() => () => {
+    if (still) URL.revokeObjectURL(still.url);
+  }, [still]);
+
+  const activeSettings = stream?.getVideoTracks()[0]?.getSettings();
+
+  const handleFreeze = async () => {
+    if (!videoRef.current) return;
+    try {
+      const file = await captureStill(videoRef.current);
+      setStill({ file, url: URL.createObjectURL(file) });
+    } catch (err: any) {
+      setError(err.message || t('camera.error.capture'));
+    }
+  };
+
+  const handleRecord = async () => {
+    if (!stream) return;
+    try {
+      const recorder = recordClip(stream);
+      setElapsed(0);
+      setRecording(recorder);
+      const file = await recorder.result;
+      setRecording(null);
+      onCapture(file, 'video');
+    } catch (err: any) {
+      setRecording(null);
+      setError(err.message || t('camera.error.record'));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl glass rounded-3xl p-6 flex flex-col gap-4 mb-12">
+      <div className="relative rounded-2xl overflow-hidden bg-black/60 aspect-video flex items-center justify-center">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-contain ${still ? 'hidden' : ''}`}
+        />
+        {still && <img src={still.url} alt={t('camera.still')} className="w-full h-full object-contain" />}
+        {!stream && !error && <p className="absolute text-sm text-gray-400">{t('camera.starting')}</p>}
+        {error && <p className="absolute text-sm text-red-300 px-6 text-center">{error}</p>}
+        {recording && (
+          <div role="timer" className="absolute top-3 start-3 flex items-center gap-2 bg-black/60 px-3 py-1 rounded-full text-xs font-medium">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+            {t('camera.elapsed', { elapsed: formatNumber(elapsed, 1), max: MAX_CLIP_SECONDS })}
+          </div>
+        )}
+        {activeSettings?.width && !still && (
+          <span className="absolute bottom-3 end-3 bg-black/60 px-2 py-0.5 rounded-full text-[10px] text-gray-300">
+            {activeSettings.width}×{activeSettings.height}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-xs text-gray-400 flex items-center gap-2">
+          {t('camera.device')}
+          <select
+            value={deviceId || ''}
+            onChange={(e) => setDeviceId(e.target.value || null)}
+            disabled={!!recording}
+            className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none max-w-[12rem]"
+          >
+            <option value="">{t('camera.device.default')}</option>
+            {cameras.map((camera, i) => (
+              <option key={camera.deviceId} value={camera.deviceId}>{camera.label || t('camera.device.numbered', { n: i + 1 })}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 flex items-center gap-2">
+          {t('camera.resolution')}
+          <select
+            value={resolutionId}
+            onChange={(e) => setResolutionId(e.target.value)}
+            disabled={!!recording}
+            className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none"
+          >
+            {CAMERA_RESOLUTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="ms-auto flex items-center gap-2">
+          {still ? (
+            <>
+              <button
+                onClick={() => setStill(null)}
+                className="px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 flex items-center gap-2"
+              >
+                <ArrowPathIcon className="w-4 h-4" /> {t('camera.retake')}
+              </button>
+              <button
+                onClick={() => onCapture(still.file, 'image')}
+                className="bg-blue-600 hover:bg-blue-500 text-white px-5 py-2 rounded-xl font-bold flex items-center gap-2"
+              >
+                <CheckIcon className="w-4 h-4" /> {t('camera.useStill')}
+              </button>
+            </>
+          ) : recording ? (
+            <button
+              onClick={() => recording.stop()}
+              className="bg-red-600 hover:bg-red-500 text-white px-5 py-2 rounded-xl font-bold flex items-center gap-2"
+            >
+              <StopIcon className="w-4 h-4" /> {t('camera.stop')}
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleRecord}
+                disabled={!stream}
+                className="px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30 flex items-center gap-2"
+              >
+                <VideoCameraIcon className="w-4 h-4" /> {t('camera.record')}
+              </button>
+              <button
+                onClick={handleFreeze}
+                disabled={!stream}
+                className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-xl font-bold flex items-center gap-2"
+              >
+                <CameraIcon className="w-4 h-4" /> {t('camera.freeze')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        {t('camera.help', { max: MAX_CLIP_SECONDS })}
+      </p>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { EditNode } from '../types';
+import type { QualityScore } from '../services/quality';
+import type { I18n } from '../services/i18n';
+import { useI18n } from './LocaleContext';
+import { StarIcon } from '@heroicons/react/24/outline';
+
+interface CandidatePickerProps {
+  /** Results of one run, best first. */
+  candidates: EditNode[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
+
+/** Scores are shown out of 100. */
+const points = (value: number) => Math.round(value * 100);
+
+const breakdown = ({ t }: I18n, score: QualityScore) =>
+  [
+    t('candidates.preservation', { score: points(score.preservation) }),
+    t('candidates.removal', { score: points(score.removal) }),
+    t('candidates.consistency', { score: points(score.consistency) }),
+    score.judge !== null ? t('candidates.judge', { score: points(score.judge) }) : null,
+  ].filter(Boolean).join('\n');
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, selectedId, onSelect, disabled }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  return (
+    <div className="glass rounded-2xl p-4 flex flex-col gap-3">
+      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+        {t('candidates.title', { count: candidates.length })}
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {candidates.map((node, rank) => (
+          <button
+            key={node.id}
+            onClick={() => onSelect(node.id)}
+            disabled={disabled}
+            aria-pressed={node.id === selectedId}
+            title={node.quality ? breakdown(i18n, node.quality) : undefined}
+            className={`relative rounded-xl overflow-hidden border-2 transition-all disabled:cursor-not-allowed ${
+              node.id === selectedId ? 'border-blue-500' : 'border-transparent opacity-70 hover:opacity-100'
+            }`}
+          >
+            <img src={node.media} alt={t(rank === 0 ? 'candidates.altBest' : 'candidates.alt', { rank: rank + 1, score: node.quality ? points(node.quality.overall) : '–' })} className="w-full h-24 object-cover bg-black/40" />
+            <div aria-hidden="true" className="absolute inset-x-0 bottom-0 bg-black/70 px-2 py-1 flex items-center justify-between text-[11px]">
+              <span className="flex items-center gap-1 font-medium">
+                {rank === 0 && <StarIcon className="w-3 h-3 text-amber-400" />}
+                {t('candidates.rank', { rank: rank + 1 })}
+              </span>
+              {node.quality && <span className="text-gray-300">{i18n.formatNumber(points(node.quality.overall))}</span>}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePicker;
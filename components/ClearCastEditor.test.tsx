@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import ClearCastEditor from "./ClearCastEditor";
+import { accessibilityViolations, TINY_PNG } from "./testing";
+import { createI18n } from "../services/i18n";
+
+// jsdom cannot decode images or draw on a canvas, so the two steps that need
+// to are replaced; everything between the upload and the result is the real code.
+const inpaint = vi.hoisted(() => ({ resolve: (_result: string | null) => {} }));
+
+vi.mock("../services/preprocess", async importOriginal => ({
+  ...await importOriginal<typeof import("../services/preprocess")>(),
+  prepareImage: async (file: File) => ({ dataUrl: TINY_PNG, mimeType: file.type, width: 2, height: 2, convertedFrom: null }),
+}));
+
+vi.mock("../services/tiling", () => ({
+  inpaintAtFullResolution: () => new Promise<string | null>(resolve => { inpaint.resolve = resolve; }),
+}));
+
+const { t } = createI18n('en');
+
+const upload = async () => {
+  const input = document.querySelector('input[type="file"]')!;
+  await act(async () => {
+    fireEvent.change(input, { target: { files: [new File([new Uint8Array(8)], 'shot.png', { type: 'image/png' })] } });
+  });
+  await screen.findByAltText(t('editor.alt.upload'));
+};
+
+/** Whether the editor took the keys over, i.e. called preventDefault. */
+const pressed = (target: Element | Window, init: KeyboardEventInit) => !fireEvent.keyDown(target, init);
+
+beforeEach(() => {
+  localStorage.clear();
+  // The history database is unavailable under jsdom; the editor logs that and carries on.
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('ClearCastEditor accessibility', () => {
+  it('has no violations on the upload screen of either tab', async () => {
+    const { container } = render(<ClearCastEditor locale="en" />);
+    expect(await accessibilityViolations(container)).toEqual([]);
+    fireEvent.click(screen.getByRole('button', { name: t('editor.tab.video') }));
+    expect(await accessibilityViolations(container)).toEqual([]);
+  });
+
+  it('opens the file picker from the keyboard', () => {
+    render(<ClearCastEditor locale="en" />);
+    const picker = vi.spyOn(HTMLInputElement.prototype, 'click').mockImplementation(() => {});
+    const dropZone = screen.getByRole('button', { name: new RegExp(t('editor.upload.image')) });
+    fireEvent.keyDown(dropZone, { key: 'Enter' });
+    fireEvent.keyDown(dropZone, { key: ' ' });
+    expect(picker).toHaveBeenCalledTimes(2);
+  });
+
+  it('has no violations while painting a mask, cleaning up and comparing', async () => {
+    const { container } = render(<ClearCastEditor locale="en" />);
+    await upload();
+    expect(await accessibilityViolations(container)).toEqual([]);
+
+    fireEvent.change(screen.getByLabelText(t('attestation.operator')), { target: { value: 'Jane Doe' } });
+    fireEvent.click(screen.getByLabelText(t('attestation.confirm.image')));
+    fireEvent.click(screen.getByRole('button', { name: t('editor.process.image') }));
+    await screen.findByText(t('editor.processing.image'));
+    expect(await accessibilityViolations(container)).toEqual([]);
+
+    await act(async () => inpaint.resolve(TINY_PNG));
+    await screen.findByRole('button', { name: t('editor.process.refine') });
+    expect(await accessibilityViolations(container)).toEqual([]);
+  });
+});
+
+describe('ClearCastEditor shortcuts', () => {
+  it('leaves keys to the browser while their action cannot run', async () => {
+    render(<ClearCastEditor locale="en" />);
+    expect(pressed(window, { key: 's', ctrlKey: true })).toBe(false);
+    expect(pressed(window, { key: 'z', ctrlKey: true })).toBe(false);
+
+    await upload();
+    expect(pressed(window, { key: 's', ctrlKey: true })).toBe(true);
+    expect(screen.getByText(t('editor.announce.noResult')).getAttribute('role')).toBe('status');
+    expect(pressed(window, { key: 'z', ctrlKey: true })).toBe(false);
+  });
+
+  it('only answers keys pressed inside an embedded editor', async () => {
+    const asset = new File([new Uint8Array(8)], 'shot.png', { type: 'image/png' });
+    render(<ClearCastEditor locale="en" embedded asset={asset} />);
+    await screen.findByAltText(t('editor.alt.upload'));
+    expect(pressed(document.body, { key: 's', ctrlKey: true })).toBe(false);
+    expect(pressed(screen.getByLabelText(t('editor.engine')), { key: 's', ctrlKey: true })).toBe(true);
+  });
+});
@@ -0,0 +1,1562 @@
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { createProviders, DEFAULT_PROVIDER_ID, getProvider, ProviderConfig } from '../services/providers';
+import type { InpaintingProvider, ProviderId } from '../services/inpainting';
+import { collectDroppedFiles, extensionForMimeType, fileToBase64, mimeTypeOfDataUrl, triggerDownload, urlToBlob } from '../services/files';
+import { acceptFor, InputError, inputTypeOf, prepareImage, uploadHint, validateInput } from '../services/preprocess';
+import { inpaintAtFullResolution } from '../services/tiling';
+import { Candidate, generateCandidates, MAX_CANDIDATES } from '../services/candidates';
+import { CleanupFailure, isTransientError, RetryOptions, toCleanupFailure } from '../services/errors';
+import { DEFAULT_OUTPUT_FORMAT, exportImage, OutputFormat } from '../services/output';
+import { instructionFor, loadUserPresets, missingVariables, saveUserPresets } from '../services/presets';
+import { appendAuditRecord, deleteQueuedCleanup, getEntry, listQueuedCleanups, PrunedEntry, protectEntries, saveEntry, ensureProject, watchPruning } from '../services/historyStore';
+import { createAuditRecord, exportWithProvenance } from '../services/provenance';
+import { addNode, createGraph, currentNode, mapGraphMedia, NodeMeta, rootNode, selectNode } from '../services/editGraph';
+import { generateId } from '../services/ids';
+import { createThumbnail } from '../services/thumbnails';
+import { cleanVideoFrames, captureVideoFrame, getVideoInfo, VideoTimeRange } from '../services/video';
+import { detectRegions, DetectedRegion } from '../services/detection';
+import { createVideoJobManager, JobAbortedError, VideoJob, VideoJobManager } from '../services/videoJobs';
+import { matchShortcut, shortcutFor, SHORTCUTS, withKeys } from '../services/shortcuts';
+import type { ShortcutAction } from '../services/shortcuts';
+import { createI18n, I18n, Locale, LOCALES, localizedPresets, localizeFailure, matchLocale, MessageKey } from '../services/i18n';
+import { enqueueCleanup, flushQueue, isOffline, watchConnectivity } from '../services/offlineQueue';
+import { notifyFinished, requestNotificationPermission } from '../services/pwa';
+import { LocaleContext } from './LocaleContext';
+import MaskEditor from './MaskEditor';
+import DetectionOverlay from './DetectionOverlay';
+import OwnershipAttestation from './OwnershipAttestation';
+import JobStatus from './JobStatus';
+import VideoCleanupSettings, { VideoMode } from './VideoCleanupSettings';
+import BatchPanel from './BatchPanel';
+import HistoryPanel from './HistoryPanel';
+import CompareViewer from './CompareViewer';
+import EditTimeline from './EditTimeline';
+import OutputFormatPicker from './OutputFormatPicker';
+import CameraCapture from './CameraCapture';
+import PresetPicker from './PresetPicker';
+import ErrorNotice from './ErrorNotice';
+import CandidatePicker from './CandidatePicker';
+import type { EditGraph, EditHistory, EditorResult, EditorTheme, InstructionPreset, MediaType, PresetUse, QueuedCleanup, QueuedCleanupStatus } from '../types';
+import { 
+  CloudArrowUpIcon, 
+  TrashIcon, 
+  SparklesIcon, 
+  ArrowDownTrayIcon,
+  XMarkIcon,
+  AdjustmentsHorizontalIcon,
+  PhotoIcon,
+  VideoCameraIcon,
+  CameraIcon,
+  InformationCircleIcon,
+  CpuChipIcon,
+  PaintBrushIcon,
+  ArrowsRightLeftIcon,
+  LanguageIcon,
+  SignalSlashIcon,
+  ClockIcon,
+  StopIcon
+} from '@heroicons/react/24/outline';
+
+const PROVIDER_STORAGE_KEY = 'clearcast.provider';
+const PROJECT_STORAGE_KEY = 'clearcast.project';
+const OPERATOR_STORAGE_KEY = 'clearcast.operator';
+const OUTPUT_FORMAT_STORAGE_KEY = 'clearcast.outputFormat';
+const CANDIDATES_STORAGE_KEY = 'clearcast.candidates';
+const LOCALE_STORAGE_KEY = 'clearcast.locale';
+// Stills sampled from a video so the heuristic only keeps marks that stay put.
+const DETECTION_SAMPLES = [0, 0.25, 0.5, 0.75];
+
+// Keyed by provider object: editors configured with different servers must not share a client.
+const jobManagers = new WeakMap<InpaintingProvider, VideoJobManager>();
+
+const jobsFor = (provider: InpaintingProvider): VideoJobManager => {
+  if (!jobManagers.has(provider)) jobManagers.set(provider, createVideoJobManager({ client: provider.videoOperations! }));
+  return jobManagers.get(provider)!;
+};
+
+const loadOutputFormat = (): OutputFormat => {
+  try {
+    return { ...DEFAULT_OUTPUT_FORMAT, ...JSON.parse(localStorage.getItem(OUTPUT_FORMAT_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_OUTPUT_FORMAT;
+  }
+};
+
+interface CandidateSettings {
+  count: number;
+  judge: boolean;
+}
+
+const loadCandidateSettings = (): CandidateSettings => {
+  try {
+    return { count: 1, judge: false, ...JSON.parse(localStorage.getItem(CANDIDATES_STORAGE_KEY) || '{}') };
+  } catch {
+    return { count: 1, judge: false };
+  }
+};
+
+const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return LOCALES.some(l => l.id === stored) ? stored as Locale : matchLocale(navigator.languages);
+};
+
+const QUEUE_STATUS_LABELS: Record<QueuedCleanupStatus, MessageKey> = {
+  queued: 'queue.status.queued',
+  running: 'queue.status.running',
+  failed: 'queue.status.failed',
+};
+
+const defaultPresetUse = (i18n: I18n): PresetUse => {
+  const [preset] = localizedPresets(i18n);
+  return { id: preset.id, name: preset.name, values: {} };
+};
+
+export interface ClearCastEditorProps {
+  /** Opened on mount and whenever it changes. Images go to the Images tab, videos to Videos. */
+  asset?: Blob | null;
+  /** Replaces the instruction whenever it changes, detaching any preset. */
+  instruction?: string;
+  /** Engine to select. Without it the user's last choice is kept. */
+  provider?: ProviderId;
+  /** Where the cloud engine's requests go. The same-origin ClearCast server by default. */
+  providers?: ProviderConfig;
+  /** Called with the current result whenever it changes: after a step, an undo or a candidate pick. */
+  onResult?: (result: EditorResult) => void;
+  onError?: (error: string | CleanupFailure) => void;
+  onProgress?: (done: number, total: number) => void;
+  theme?: EditorTheme;
+  /** Leaves out the branding, the landing copy and the footer, for use inside another app. */
+  embedded?: boolean;
+  /** UI language. Without it the user's last choice, then the browser's languages, decide. */
+  locale?: Locale;
+}
+
+const themeStyle = (theme: EditorTheme = {}): React.CSSProperties => ({
+  ...(theme.accent && { '--clearcast-accent': theme.accent }),
+  ...(theme.surface && { '--clearcast-surface': theme.surface }),
+  ...(theme.background && { background: theme.background }),
+  ...(theme.text && { color: theme.text }),
+  ...(theme.fontFamily && { fontFamily: theme.fontFamily }),
+}) as React.CSSProperties;
+
+const ClearCastEditor: React.FC<ClearCastEditorProps> = ({
+  asset, instruction: hostInstruction, provider: hostProvider, providers: providerConfig = {},
+  onResult, onError, onProgress, theme, embedded = false, locale: hostLocale
+}) => {
+  const [locale, setLocale] = useState<Locale>(() => hostLocale || loadLocale());
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const { t } = i18n;
+  const [activeTab, setActiveTab] = useState<MediaType>('image');
+  // The camera tab is a source rather than a media type: captures continue in the image or video flow.
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [graph, setGraph] = useState<EditGraph | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [editingMask, setEditingMask] = useState(false);
+  const [mimeType, setMimeType] = useState<string>('');
+  const [mask, setMask] = useState<string | null>(null);
+  const [detections, setDetections] = useState<DetectedRegion[]>([]);
+  const [detectionSource, setDetectionSource] = useState<string | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [acceptedRegions, setAcceptedRegions] = useState<DetectedRegion[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [error, setError] = useState<string | CleanupFailure | null>(null);
+  // Shown under the progress while a transient failure is being retried.
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  // Read out by screen readers through the status region; errors use ErrorNotice's alert instead.
+  const [announcement, setAnnouncement] = useState('');
+  const [instruction, setInstruction] = useState(() => localizedPresets(i18n)[0].template);
+  const [userPresets, setUserPresets] = useState<InstructionPreset[]>(loadUserPresets);
+  // Each tab keeps its own preset; the batch panel shares the image tab's.
+  const [presetUses, setPresetUses] = useState<Record<MediaType, PresetUse | null>>(() => ({ image: defaultPresetUse(i18n), video: defaultPresetUse(i18n) }));
+  const [videoAspectRatio, setVideoAspectRatio] = useState<"16:9" | "9:16">("16:9");
+  const [videoMode, setVideoMode] = useState<VideoMode>('cleanup');
+  const [videoPoster, setVideoPoster] = useState<string | null>(null);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [videoRange, setVideoRange] = useState<VideoTimeRange>({ start: 0, end: 0 });
+  const [videoFps, setVideoFps] = useState(24);
+  const [temporalSmoothing, setTemporalSmoothing] = useState(0.3);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [operator, setOperator] = useState(() => localStorage.getItem(OPERATOR_STORAGE_KEY) || '');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(loadOutputFormat);
+  const [candidateSettings, setCandidateSettings] = useState<CandidateSettings>(loadCandidateSettings);
+  // Node ids of the last multi-candidate run, best first.
+  const [candidateIds, setCandidateIds] = useState<string[]>([]);
+  // Confirmed per run: it is cleared again once the job finishes.
+  const [ownershipConfirmed, setOwnershipConfirmed] = useState(false);
+  const [activeJob, setActiveJob] = useState<VideoJob | null>(null);
+  // Jobs picked up again after a reload; their clips are attached to history when they finish.
+  const [backgroundJobs, setBackgroundJobs] = useState<VideoJob[]>([]);
+  const jobControllersRef = useRef(new Map<string, AbortController>());
+  // Stops the frame-by-frame cleanup that is running, if any.
+  const cleanupControllerRef = useRef<AbortController | null>(null);
+  const [online, setOnline] = useState(() => !isOffline());
+  // Image cleanups asked for while offline, stored until they have run.
+  const [queuedJobs, setQueuedJobs] = useState<QueuedCleanup[]>([]);
+  // History entries removed to make room, shown until dismissed.
+  const [prunedEntries, setPrunedEntries] = useState<PrunedEntry[]>([]);
+  const { serverUrl, clientId, keyAdapter, enabled }: ProviderConfig = providerConfig;
+  // clientId is left out on purpose: hosts tend to pass a new function on every render.
+  const providers: InpaintingProvider[] = useMemo(
+    () => createProviders({ serverUrl, clientId, keyAdapter, enabled }),
+    [serverUrl, keyAdapter, enabled?.join()]
+  );
+  const [providerId, setProviderId] = useState<ProviderId>(() => {
+    const stored = hostProvider || localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return providers.some(p => p.id === stored) ? stored as ProviderId : DEFAULT_PROVIDER_ID;
+  });
+
+  const provider = getProvider(providers, providerId);
+  const allPresets: InstructionPreset[] = [...localizedPresets(i18n), ...userPresets];
+  const presetUse: PresetUse | null = presetUses[activeTab];
+  // Local engines are deterministic, so extra runs would only repeat the same result.
+  const candidateRuns: number = provider.requiresNetwork ? candidateSettings.count : 1;
+
+  // The root node is the upload; every refinement starts from the current node.
+  const selectedFile: string | null = graph ? rootNode<string>(graph).media : null;
+  const workingFile: string | null = graph ? currentNode<string>(graph).media : null;
+  const processedResult = graph && graph.currentId !== graph.rootId ? workingFile : null;
+  const blobCacheRef = useRef(new Map<string, Blob>());
+
+  // Proposals belong to the frame they were found on.
+  useEffect(() => {
+    setDetections([]);
+    setAcceptedRegions([]);
+    setDetectionSource(null);
+  }, [workingFile, videoPoster]);
+
+  useEffect(() => {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_STORAGE_KEY, operator);
+  }, [operator]);
+
+  useEffect(() => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    // Standalone, the page is the editor; embedded, the host page keeps its own language.
+    if (!embedded) {
+      document.documentElement.lang = locale;
+      document.documentElement.dir = i18n.dir;
+    }
+  }, [locale]);
+
+  // Built-in presets are translated, so an instruction still attached to one follows the language.
+  const localeRef = useRef(locale);
+  useEffect(() => {
+    if (localeRef.current === locale) return;
+    localeRef.current = locale;
+    const rename = (use: PresetUse | null) => use && { ...use, name: allPresets.find(p => p.id === use.id)?.name ?? use.name };
+    setPresetUses((current: Record<MediaType, PresetUse | null>) => ({ image: rename(current.image), video: rename(current.video) }));
+    const text = presetUse && instructionFor(presetUse, allPresets);
+    if (text) setInstruction(text);
+  }, [locale]);
+
+  useEffect(() => {
+    localStorage.setItem(OUTPUT_FORMAT_STORAGE_KEY, JSON.stringify(outputFormat));
+  }, [outputFormat]);
+
+  useEffect(() => {
+    localStorage.setItem(CANDIDATES_STORAGE_KEY, JSON.stringify(candidateSettings));
+  }, [candidateSettings]);
+
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  // Guarded by a ref rather than cleaned up: aborting would mark the job cancelled, and StrictMode mounts twice.
+  const resumedJobsRef = useRef(false);
+  useEffect(() => {
+    if (resumedJobsRef.current) return;
+    resumedJobsRef.current = true;
+    providers
+      .filter(p => p.videoOperations)
+      .forEach(p => jobsFor(p).pending().filter(job => job.provider === p.id).forEach(resumeJob));
+  }, []);
+
+  // A video job that is still running or waiting to be collected adds its clip to an entry, so that entry is never pruned.
+  useEffect(() => {
+    const stopProtecting = protectEntries(() => providers
+      .filter(p => p.videoOperations)
+      .flatMap(p => jobsFor(p).pending().map(job => job.entryId)));
+    const stopWatching = watchPruning(entries => {
+      setPrunedEntries(current => [...current, ...entries]);
+      setHistoryVersion(v => v + 1);
+    });
+    return () => {
+      stopProtecting();
+      stopWatching();
+    };
+  }, [providers]);
+
+  // The queue is run when the connection comes back, and on load in case it came back while the app was closed.
+  // The handler outlives renders, so it goes through a ref to the latest runQueue.
+  const runQueueRef = useRef<() => Promise<void>>();
+  useEffect(() => {
+    listQueuedCleanups()
+      .then(jobs => {
+        setQueuedJobs(jobs);
+        if (jobs.length && !isOffline()) runQueueRef.current!();
+      })
+      .catch(err => console.error("Offline Queue Error:", err));
+    return watchConnectivity(isOnline => {
+      setOnline(isOnline);
+      if (isOnline) runQueueRef.current!();
+    });
+  }, []);
+
+  useEffect(() => {
+    ensureProject(localStorage.getItem(PROJECT_STORAGE_KEY))
+      .then(project => setProjectId(project.id))
+      .catch(err => console.error("History Store Error:", err));
+  }, []);
+
+  useEffect(() => {
+    if (projectId) localStorage.setItem(PROJECT_STORAGE_KEY, projectId);
+  }, [projectId]);
+  
+  // Host props are applied when they change, so the user can keep editing in between.
+  useEffect(() => {
+    if (!asset) return;
+    const file = asset instanceof File ? asset : new File([asset], 'asset', { type: asset.type });
+    const type: MediaType = inputTypeOf(file).startsWith('video/') ? 'video' : 'image';
+    if (type !== activeTab) switchTab(type);
+    setCameraOpen(false);
+    setBatchFiles(null);
+    loadFile(file, type);
+  }, [asset]);
+
+  useEffect(() => {
+    if (hostInstruction !== undefined) editInstruction(hostInstruction, activeTab);
+  }, [hostInstruction]);
+
+  useEffect(() => {
+    if (hostProvider && providers.some(p => p.id === hostProvider)) setProviderId(hostProvider);
+  }, [hostProvider]);
+
+  useEffect(() => {
+    if (hostLocale) setLocale(hostLocale);
+  }, [hostLocale]);
+
+  useEffect(() => {
+    if (error) onError?.(error);
+  }, [error]);
+
+  useEffect(() => {
+    if (progress) onProgress?.(progress.done, progress.total);
+  }, [progress]);
+
+  useEffect(() => {
+    if (!onResult || !graph || graph.currentId === graph.rootId) return;
+    let cancelled = false;
+    exportResult(graph)
+      .then(result => { if (!cancelled) onResult(result); })
+      .catch(err => console.error("Export Error:", err));
+    return () => { cancelled = true; };
+  }, [graph?.currentId]);
+  
+  const rootRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFile = async (file: File, type: MediaType = activeTab) => {
+    try {
+      if (type === 'image') {
+        const image = await prepareImage(file, i18n);
+        setMimeType(image.mimeType);
+        startSession(createGraph(image.dataUrl), null);
+      } else {
+        validateInput(file, 'video', i18n);
+        const base64 = await fileToBase64(file);
+        await prepareVideo(base64);
+        setMimeType(file.type);
+        startSession(createGraph(base64), null);
+      }
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof InputError)) console.error("Upload Error:", err);
+      setError(err instanceof InputError ? err.message : t('editor.error.read'));
+    }
+  };
+
+  // The mask is painted on a still of the first frame and reused for every frame in the range.
+  const prepareVideo = async (src: string) => {
+    const [info, poster] = await Promise.all([getVideoInfo(src), captureVideoFrame(src, 0)]);
+    setVideoDuration(info.duration);
+    setVideoRange({ start: 0, end: info.duration });
+    setVideoPoster(poster);
+  };
+
+  const startSession = (next: EditGraph, id: string | null) => {
+    blobCacheRef.current.clear();
+    setCameraOpen(false);
+    setGraph(next);
+    setSessionId(id);
+    setRedoStack([]);
+    setCandidateIds([]);
+    setEditingMask(false);
+    setMask(null);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (activeTab === 'image' && files.length > 1) {
+      const images = files.filter(file => inputTypeOf(file).startsWith('image/'));
+      if (images.length === 0) {
+        setError(t('editor.error.notImages'));
+        return;
+      }
+      setError(null);
+      setBatchFiles(images);
+      return;
+    }
+    if (files[0]) await loadFile(files[0]);
+  };
+
+  /** Switches tab and restores the instruction of that tab's preset. */
+  const switchTab = (type: MediaType) => {
+    setActiveTab(type);
+    const text = presetUses[type] && instructionFor(presetUses[type]!, allPresets);
+    if (text) setInstruction(text);
+  };
+
+  const changePreset = (type: MediaType, use: PresetUse | null, text: string | null) => {
+    setPresetUses((current: Record<MediaType, PresetUse | null>) => ({ ...current, [type]: use }));
+    if (text !== null) setInstruction(text);
+  };
+
+  // Editing the text by hand detaches it from the preset it was filled from.
+  const editInstruction = (text: string, type: MediaType) => {
+    setInstruction(text);
+    if (presetUses[type]) changePreset(type, null, null);
+  };
+
+  /** Names of preset variables still empty, so a run never sends a literal "{region}". */
+  const unfilledVariables = (use: PresetUse | null): string[] => {
+    const preset = use && allPresets.find(p => p.id === use.id);
+    return preset ? missingVariables(preset.template, use.values) : [];
+  };
+
+  const handleCapture = (file: File, type: MediaType) => {
+    switchTab(type);
+    setCameraOpen(false);
+    loadFile(file, type);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    handleFiles(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const handleDetect = async () => {
+    if (!workingFile) return;
+    setIsDetecting(true);
+    setError(null);
+    try {
+      const frames = activeTab === 'image'
+        ? [workingFile]
+        : await Promise.all(DETECTION_SAMPLES.map(at => captureVideoFrame(workingFile, at * videoDuration)));
+      const result = await detectRegions(frames, mimeTypeOfDataUrl(frames[0]), provider);
+      setDetections(result.regions);
+      setDetectionSource(result.source === 'heuristic' ? t('detect.heuristic') : getProvider(providers, result.source).label);
+      if (!result.regions.length) setError(t('editor.error.noDetections'));
+    } catch (err) {
+      console.error("Detection Error:", err);
+      setError(t('editor.error.detection'));
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const acceptRegions = (regions: DetectedRegion[]) => {
+    const ids = new Set(regions.map(r => r.id));
+    setDetections(current => current.filter(r => !ids.has(r.id)));
+    setAcceptedRegions(current => [...current, ...regions]);
+  };
+
+  const rejectRegions = (ids: string[]) => {
+    setDetections(current => current.filter(r => !ids.includes(r.id)));
+  };
+
+  const handleProcess = async () => {
+    if (!graph || !workingFile) return;
+    if (!ownershipConfirmed || !operator.trim()) {
+      setError(t('editor.error.attestation'));
+      return;
+    }
+    const unfilled = unfilledVariables(presetUse);
+    if (unfilled.length) {
+      setError(t('editor.error.unfilled', { variables: unfilled.join(', '), preset: presetUse!.name }));
+      return;
+    }
+    const parentId = graph.currentId;
+    const startedAt = Date.now();
+    // Asked before anything is awaited: browsers only show the prompt in response to a click.
+    if (activeTab === 'video') requestNotificationPermission();
+    const onRetry: RetryOptions['onRetry'] = (failure, attempt, delay) =>
+      setRetryNotice(`${localizeFailure(i18n, failure).title} ${t('editor.retrying', { wait: i18n.formatDuration(delay / 1000), attempt: attempt + 1 })}`);
+    const trackProgress = (done: number, total: number) => {
+      setProgress({ done, total });
+      setRetryNotice(null);
+    };
+    
+    setIsProcessing(true);
+    setError(null);
+    try {
+      if (activeTab === 'image') {
+        if (provider.requiresMask && !mask) {
+          setError(t('editor.error.maskRequired', { engine: provider.label }));
+          return;
+        }
+        if (provider.requiresNetwork && isOffline() && projectId) {
+          await queueCleanup(parentId);
+          return;
+        }
+        const request = { image: workingFile, mimeType, instruction, mask, onRetry };
+        if (candidateRuns > 1) {
+          const ranked = await generateCandidates(provider, request, {
+            count: candidateRuns,
+            judge: candidateSettings.judge,
+            onProgress: trackProgress,
+          });
+          if (ranked.length) {
+            commitCandidates(parentId, ranked, provider.imageModel);
+          } else {
+            setError(t('editor.error.image'));
+          }
+        } else {
+          const result = await inpaintAtFullResolution(provider, request, { onProgress: trackProgress });
+          if (result) {
+            commitStep(parentId, result, provider.imageModel);
+          } else {
+            setError(t('editor.error.image'));
+          }
+        }
+      } else {
+        // Video mode
+        if (provider.requiresNetwork && isOffline()) {
+          setError(t('editor.error.offlineVideo', { engine: provider.label }));
+          return;
+        }
+        let result: string | null;
+        if (videoMode === 'cleanup') {
+          if (!mask) {
+            setError(t('editor.error.videoMask'));
+            return;
+          }
+          setProgress({ done: 0, total: 0 });
+          const jobId = generateId();
+          const controller = new AbortController();
+          cleanupControllerRef.current = controller;
+          let audioError: Error | null = null;
+          try {
+            const blob = await cleanVideoFrames(workingFile, {
+              mask,
+              range: videoRange,
+              fps: videoFps,
+              temporalSmoothing,
+              // Frames go through the same path as images, so large videos are tiled for the provider.
+              inpaintFrame: (frame, frameMask) => inpaintAtFullResolution(provider, {
+                image: frame, mimeType: 'image/png', instruction, mask: frameMask, onRetry, jobId, signal: controller.signal,
+              }),
+              onProgress: trackProgress,
+              onAudioError: err => { audioError = err; },
+              signal: controller.signal,
+            });
+            result = URL.createObjectURL(blob);
+          } finally {
+            cleanupControllerRef.current = null;
+          }
+          if (audioError) setError(t('editor.error.audio'));
+        } else {
+          if (!provider.videoOperations) {
+            setError(t('editor.error.noRegenerate', { engine: provider.label }));
+            return;
+          }
+          const id = sessionId || generateId();
+          setSessionId(id);
+          // The session is saved before the job starts so a reload mid-generation has somewhere to put the clip.
+          await saveSession(id, projectId, await toBlobGraph(graph, blobCacheRef.current), activeTab, mimeType);
+          await keyAdapter?.ensureKey();
+          const jobs = jobsFor(provider);
+          // For regeneration, we use the instruction as the prompt for a brand new clip
+          const job = await jobs.start({ prompt: instruction, aspectRatio: videoAspectRatio }, {
+            entryId: id,
+            parentNodeId: parentId,
+            type: activeTab,
+            mimeType,
+            attestedBy: operator.trim(),
+            preset: presetUse,
+            provider: provider.id,
+            model: provider.videoModel || provider.imageModel,
+          });
+          setActiveJob(job);
+          const controller = new AbortController();
+          jobControllersRef.current.set(job.id, controller);
+          try {
+            const finished = await jobs.run(job, { signal: controller.signal, onUpdate: setActiveJob });
+            if (finished.status !== 'succeeded') {
+              setError(finished.error || t('editor.error.generation'));
+              return;
+            }
+            result = await provider.videoOperations.downloadUrl(finished.videoUri!);
+          } finally {
+            jobs.remove(job.id);
+            jobControllersRef.current.delete(job.id);
+          }
+        }
+        if (result) {
+          commitStep(parentId, result, (videoMode === 'cleanup' ? provider.imageModel : provider.videoModel) || provider.imageModel);
+          notifyFinished(startedAt, t('editor.notify.video'), t('editor.notify.videoReady'));
+        } else {
+          setError(t('editor.error.video'));
+        }
+      }
+    } catch (err: any) {
+      if (err instanceof JobAbortedError) {
+        setError(t('editor.error.stopped'));
+      } else if (err?.name === 'AbortError') {
+        setError(t('editor.error.cleanupStopped'));
+      } else {
+        const failure = toCleanupFailure(err);
+        setError(failure);
+        if (failure.kind === 'auth') keyAdapter?.keyRejected();
+      }
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+      setRetryNotice(null);
+      setOwnershipConfirmed(false);
+      setActiveJob(null);
+    }
+  };
+
+  const stepMeta = (model: string, stepProvider: ProviderId = providerId): NodeMeta =>
+    ({ instruction, provider: stepProvider, model, attestedBy: operator.trim(), preset: presetUse });
+
+  /**
+   * Stores an image cleanup to run once the connection is back, and meanwhile
+   * runs it on a local engine when there is one that can take it. The session
+   * is saved first so the queued result has an entry to join, even after a restart.
+   */
+  const queueCleanup = async (parentId: string) => {
+    if (!graph || !workingFile) return;
+    requestNotificationPermission();
+    const id = sessionId || generateId();
+    setSessionId(id);
+    await saveSession(id, projectId, await toBlobGraph(graph, blobCacheRef.current), activeTab, mimeType);
+    const job = await enqueueCleanup({
+      entryId: id,
+      projectId: projectId!,
+      parentNodeId: parentId,
+      image: await urlToBlob(workingFile),
+      mask: mask && await urlToBlob(mask),
+      mimeType,
+      instruction,
+      provider: provider.id,
+      model: provider.imageModel,
+      attestedBy: operator.trim(),
+      preset: presetUse,
+    });
+    setQueuedJobs(jobs => [...jobs, job]);
+    const local = providers.find(p => !p.requiresNetwork && (mask || !p.requiresMask));
+    if (!local) {
+      setAnnouncement(t('queue.announce.queued'));
+      return;
+    }
+    const result = await inpaintAtFullResolution(local, { image: workingFile, mimeType, instruction, mask });
+    if (result) {
+      setCandidateIds([]);
+      saveStep(addNode(graph, parentId, result, stepMeta(local.imageModel, local.id)), id);
+    }
+    setAnnouncement(t('queue.announce.queuedLocal', { engine: local.label }));
+  };
+
+  /** Runs a queued cleanup and files its result as a new branch of the node it was queued from. */
+  const runQueuedCleanup = async (job: QueuedCleanup) => {
+    const jobProvider = getProvider(providers, job.provider);
+    const [image, jobMask] = await Promise.all([fileToBase64(job.image), job.mask && fileToBase64(job.mask)]);
+    let result: string | null;
+    try {
+      result = await inpaintAtFullResolution(jobProvider, { image, mimeType: job.mimeType, instruction: job.instruction, mask: jobMask });
+    } catch (err) {
+      // Transient failures go back to the queue as they are; the rest are kept with a message for the user.
+      if (isTransientError(err)) throw err;
+      throw new Error(localizeFailure(i18n, toCleanupFailure(err)).title);
+    }
+    if (!result) throw new Error(t('editor.error.image'));
+    const entry = await getEntry(job.entryId);
+    if (!entry) throw new Error(t('editor.job.entryGone'));
+    const blobGraph = addNode(entry.graph, job.parentNodeId, await urlToBlob(result), {
+      instruction: job.instruction,
+      provider: job.provider,
+      model: job.model,
+      attestedBy: job.attestedBy,
+      preset: job.preset,
+    });
+    await appendAuditRecord(await createAuditRecord(blobGraph, { entryId: entry.id, projectId: entry.projectId, type: entry.type }));
+    await saveSession(entry.id, entry.projectId, blobGraph, entry.type, entry.mimeType);
+    // When the session is still open the node joins it too, without moving off the current step;
+    // otherwise the next save of the open session would drop it.
+    const node = currentNode(blobGraph);
+    blobCacheRef.current.set(node.id, node.media);
+    setGraph((current: EditGraph | null) => current && current.rootId === blobGraph.rootId && current.nodes[job.parentNodeId]
+      ? { ...current, nodes: { ...current.nodes, [node.id]: { ...node, media: result! } } }
+      : current);
+  };
+
+  const runQueue = async () => {
+    const startedAt = Date.now();
+    try {
+      const completed = await flushQueue({ run: runQueuedCleanup, onUpdate: setQueuedJobs });
+      if (!completed) return;
+      setAnnouncement(t('queue.announce.done', { count: completed }));
+      notifyFinished(startedAt, t('queue.notify'), t('queue.notifyBody', { count: completed }));
+    } catch (err) {
+      console.error("Offline Queue Error:", err);
+    }
+  };
+  runQueueRef.current = runQueue;
+
+  const removeQueuedCleanup = (id: string) =>
+    deleteQueuedCleanup(id)
+      .then(() => setQueuedJobs(jobs => jobs.filter(j => j.id !== id)))
+      .catch(err => console.error("Offline Queue Error:", err));
+
+  /** Adds the result as a child of the node it was produced from and saves the session. */
+  const commitStep = (parentId: string, result: string, model: string) => {
+    if (!graph) return;
+    setCandidateIds([]);
+    saveStep(addNode(graph, parentId, result, stepMeta(model)));
+  };
+
+  /** Adds every candidate as its own branch of the parent, best last so it ends up as the current node. */
+  const commitCandidates = (parentId: string, ranked: Candidate[], model: string) => {
+    if (!graph) return;
+    let next: EditGraph = graph;
+    const ids: string[] = [];
+    for (const candidate of [...ranked].reverse()) {
+      next = addNode(next, parentId, candidate.image, { ...stepMeta(model), quality: candidate.score });
+      ids.unshift(next.currentId);
+    }
+    setCandidateIds(ids);
+    saveStep(next);
+  };
+
+  const saveStep = (next: EditGraph, id: string = sessionId || generateId()) => {
+    setGraph(next);
+    setRedoStack([]);
+    setEditingMask(false);
+    setMask(null);
+    setSessionId(id);
+    persistStep(id, next, activeTab, mimeType, blobCacheRef.current);
+  };
+
+  // `cache` keeps each node's Blob between conversions so a session is only converted once per step.
+  const toBlobGraph = (session: EditGraph, cache = new Map<string, Blob>()) =>
+    mapGraphMedia(session, async (media, node) => {
+      const blob = cache.get(node.id) || await urlToBlob(media);
+      cache.set(node.id, blob);
+      return blob;
+    });
+
+  /** Logs the step that produced the session's current node and saves the session to history. */
+  const persistStep = async (id: string, session: EditGraph, type: MediaType, sourceMimeType: string, cache?: Map<string, Blob>) => {
+    try {
+      const blobGraph = await toBlobGraph(session, cache);
+      await appendAuditRecord(await createAuditRecord(blobGraph, { entryId: id, projectId, type }));
+      await saveSession(id, projectId, blobGraph, type, sourceMimeType);
+    } catch (err) {
+      // A failed save must never hide a successful cleanup from the user.
+      console.error("History Store Error:", err);
+    }
+  };
+
+  const saveSession = async (id: string, targetProjectId: string | null, blobGraph: EditGraph<Blob>, type: MediaType, sourceMimeType: string) => {
+    if (!targetProjectId) return;
+    const latest = currentNode(blobGraph);
+    await saveEntry({
+      id,
+      projectId: targetProjectId,
+      type,
+      graph: blobGraph,
+      thumbnail: await createThumbnail(latest.media, type),
+      instruction: latest.instruction,
+      preset: latest.preset?.name || null,
+      mimeType: sourceMimeType,
+      provider: latest.provider || providerId,
+      model: latest.model || '',
+      timestamp: Date.now(),
+    });
+    setHistoryVersion(v => v + 1);
+  };
+
+  const updateBackgroundJob = (job: VideoJob) =>
+    setBackgroundJobs(jobs => jobs.some(j => j.id === job.id) ? jobs.map(j => j.id === job.id ? job : j) : [...jobs, job]);
+
+  /** Keeps polling a job found after a reload and files its clip under the session it was started from. */
+  const resumeJob = async (job: VideoJob) => {
+    const jobProvider = getProvider(providers, job.provider);
+    const jobs = jobsFor(jobProvider);
+    const controller = new AbortController();
+    jobControllersRef.current.set(job.id, controller);
+    updateBackgroundJob(job);
+    try {
+      const finished = await jobs.run(job, { signal: controller.signal, onUpdate: updateBackgroundJob });
+      if (finished.status === 'succeeded') {
+        const entry = await getEntry(finished.entryId);
+        if (!entry) throw new Error(t('editor.job.entryGone'));
+        const clip = await urlToBlob(await jobProvider.videoOperations!.downloadUrl(finished.videoUri!));
+        const blobGraph = addNode(entry.graph, finished.parentNodeId, clip, {
+          instruction: finished.request.prompt,
+          provider: finished.provider,
+          model: finished.model,
+          attestedBy: finished.attestedBy,
+          preset: finished.preset,
+        });
+        await appendAuditRecord(await createAuditRecord(blobGraph, { entryId: entry.id, projectId: entry.projectId, type: entry.type }));
+        await saveSession(entry.id, entry.projectId, blobGraph, entry.type, entry.mimeType);
+        updateBackgroundJob({ ...finished, detail: 'saved' });
+        notifyFinished(finished.createdAt, t('editor.notify.video'), t('editor.job.saved'));
+      }
+      jobs.remove(job.id);
+    } catch (err: any) {
+      if (err instanceof JobAbortedError) {
+        jobs.remove(job.id);
+      } else {
+        // The job stays stored so the finished clip can be collected again on the next load.
+        console.error("Video Job Error:", err);
+        updateBackgroundJob({ ...job, status: 'failed', detail: 'save-failed', error: err.message });
+      }
+    } finally {
+      jobControllersRef.current.delete(job.id);
+    }
+  };
+
+  const openHistoryEntry = async (entry: EditHistory) => {
+    try {
+      const session = await mapGraphMedia(entry.graph, media => fileToBase64(media));
+      if (entry.type === 'video') await prepareVideo(rootNode(session).media);
+      else setVideoPoster(null);
+      setActiveTab(entry.type);
+      setMimeType(entry.mimeType);
+      setInstruction(entry.instruction);
+      changePreset(entry.type, currentNode(entry.graph).preset || null, null);
+      startSession(session, entry.id);
+      Object.values(entry.graph.nodes).forEach(node => blobCacheRef.current.set(node.id, node.media));
+      setError(null);
+    } catch (err) {
+      setError(t('editor.error.openEntry'));
+    }
+  };
+
+  const downloadHistoryEntry = (entry: EditHistory) => downloadGraph(entry.graph, entry.type);
+
+  const goToNode = (id: string) => {
+    if (!graph || isProcessing) return;
+    setGraph(selectNode(graph, id));
+    setRedoStack([]);
+    setEditingMask(false);
+    setMask(null);
+  };
+
+  const canUndo = !!graph && graph.currentId !== graph.rootId && !isProcessing;
+  const canRedo = !!graph && !isProcessing && redoStack.length > 0 && graph.nodes[redoStack[0]]?.parentId === graph.currentId;
+
+  const undo = () => {
+    if (!graph || !canUndo) return;
+    const parentId = currentNode(graph).parentId!;
+    setRedoStack(stack => [graph.currentId, ...stack]);
+    setGraph(selectNode(graph, parentId));
+    setEditingMask(false);
+    setMask(null);
+  };
+
+  const redo = () => {
+    if (!graph || !canRedo) return;
+    setGraph(selectNode(graph, redoStack[0]));
+    setRedoStack(stack => stack.slice(1));
+    setEditingMask(false);
+    setMask(null);
+  };
+
+  /** Runs a shortcut's action if it applies right now; returns whether it did. */
+  const runShortcut = (action: ShortcutAction): boolean => {
+    switch (action) {
+      case 'process':
+        if (!selectedFile || isProcessing) return false;
+        handleProcess();
+        return true;
+      case 'download':
+        if (!selectedFile) return false;
+        if (processedResult) downloadResult();
+        else setAnnouncement(t('editor.announce.noResult'));
+        return true;
+      case 'discard':
+        if (!selectedFile || isProcessing) return false;
+        discard();
+        return true;
+      case 'undo':
+        if (!canUndo) return false;
+        undo();
+        return true;
+      case 'redo':
+        if (!canRedo) return false;
+        redo();
+        return true;
+    }
+  };
+
+  useEffect(() => {
+    // Standalone, the editor is the page. Embedded, it only answers keys pressed
+    // inside it, so the host page keeps its own shortcuts.
+    const target = embedded ? rootRef.current : window;
+    if (!target) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const shortcut = matchShortcut(e);
+      // Keys the editor has no use for at the moment stay with the browser (e.g. Ctrl+S saves the page).
+      if (shortcut && runShortcut(shortcut.action)) e.preventDefault();
+    };
+    target.addEventListener('keydown', handleKeyDown as EventListener);
+    return () => target.removeEventListener('keydown', handleKeyDown as EventListener);
+  });
+
+  const processingTitle = t(activeTab === 'image' ? 'editor.processing.image' : videoMode === 'cleanup' ? 'editor.processing.cleanup' : 'editor.processing.regenerate');
+
+  useEffect(() => {
+    if (!graph) return;
+    const node = currentNode(graph);
+    setAnnouncement(node.parentId
+      ? [
+        t('editor.announce.step', { instruction: node.instruction || t('timeline.untitled') }),
+        node.quality ? t('editor.announce.score', { score: Math.round(node.quality.overall * 100) }) : '',
+      ].join(' ').trim()
+      : t(`editor.announce.ready.${activeTab}`, { keys: shortcutFor('process').keys }));
+  }, [graph?.currentId]);
+
+  useEffect(() => {
+    if (isProcessing) setAnnouncement(`${processingTitle} ${t('editor.announce.wait')}`);
+  }, [isProcessing]);
+
+  useEffect(() => {
+    if (retryNotice) setAnnouncement(retryNotice);
+  }, [retryNotice]);
+
+  const detectionOverlay = (
+    <DetectionOverlay
+      regions={detections}
+      detecting={isDetecting}
+      source={detectionSource}
+      disabled={isProcessing}
+      onDetect={handleDetect}
+      onChange={setDetections}
+      onAccept={acceptRegions}
+      onReject={rejectRegions}
+    />
+  );
+
+  const clearCurrent = () => {
+    setGraph(null);
+    setSessionId(null);
+    setRedoStack([]);
+    setCandidateIds([]);
+    setMask(null);
+    setVideoPoster(null);
+    setBatchFiles(null);
+    setError(null);
+  };
+
+  const discard = () => {
+    clearCurrent();
+    setAnnouncement(t('editor.announce.discarded'));
+  };
+
+  /** The graph's current result with its provenance embedded, in the output format for images. */
+  const exportBlob = (session: EditGraph<Blob>, type: MediaType): Promise<Blob> =>
+    type === 'image' ? exportImage(session, outputFormat) : exportWithProvenance(session);
+
+  const exportResult = async (session: EditGraph): Promise<EditorResult> => {
+    const blob = await exportBlob(await toBlobGraph(session, blobCacheRef.current), activeTab);
+    const node = currentNode(session);
+    return { blob, mimeType: blob.type, type: activeTab, instruction: node.instruction, provider: node.provider, model: node.model, nodeId: node.id };
+  };
+
+  /** Downloads the graph's current result with its provenance embedded. */
+  const downloadGraph = async (session: EditGraph<Blob>, type: MediaType) => {
+    try {
+      const blob = await exportBlob(session, type);
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, `clearcast-${type}-${Date.now()}.${extensionForMimeType(blob.type || (type === 'image' ? 'image/png' : 'video/mp4'))}`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error("Export Error:", err);
+      setError(t('error.download'));
+    }
+  };
+
+  const downloadResult = async () => {
+    if (graph) downloadGraph(await toBlobGraph(graph, blobCacheRef.current), activeTab);
+  };
+
+  const [heroBefore, heroAfter] = t(`editor.hero.title.${activeTab}`).split('{highlight}');
+
+  return (
+    <LocaleContext.Provider value={i18n}>
+      <div ref={rootRef} dir={i18n.dir} lang={locale} className={`${embedded ? '' : 'min-h-screen '}flex flex-col items-center p-4 md:p-8`} style={themeStyle(theme)}>
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+        {/* Header */}
+        <header className="w-full max-w-6xl flex justify-between items-center mb-8">
+          {!embedded && (
+            <div className="flex items-center gap-2">
+              <div className="bg-[var(--clearcast-accent,#2563eb)] p-2 rounded-lg">
+                <SparklesIcon className="w-6 h-6 text-white" />
+              </div>
+              <h1 className="text-2xl font-bold tracking-tight">ClearCast <span className="text-blue-500">AI</span></h1>
+            </div>
+          )}
+        
+          <div className="flex bg-white/5 p-1 rounded-xl border border-white/10">
+            <button 
+              onClick={() => { switchTab('image'); setCameraOpen(false); clearCurrent(); }}
+              aria-pressed={activeTab === 'image' && !cameraOpen}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'image' && !cameraOpen ? 'bg-[var(--clearcast-accent,#2563eb)] text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
+            >
+              <PhotoIcon className="w-4 h-4" /> {t('editor.tab.image')}
+            </button>
+            <button 
+              onClick={() => { switchTab('video'); setCameraOpen(false); clearCurrent(); }}
+              aria-pressed={activeTab === 'video' && !cameraOpen}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'video' && !cameraOpen ? 'bg-[var(--clearcast-accent,#2563eb)] text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
+            >
+              <VideoCameraIcon className="w-4 h-4" /> {t('editor.tab.video')}
+            </button>
+            <button
+              onClick={() => { clearCurrent(); setCameraOpen(true); }}
+              aria-pressed={cameraOpen}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${cameraOpen ? 'bg-[var(--clearcast-accent,#2563eb)] text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}
+            >
+              <CameraIcon className="w-4 h-4" /> {t('editor.tab.camera')}
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {!online && (
+              <span className="bg-amber-500/10 border border-amber-500/20 text-amber-300 px-3 py-2 rounded-full text-xs font-medium flex items-center gap-2" title={t('queue.offlineHint')}>
+                <SignalSlashIcon className="w-4 h-4" /> {t('queue.offline')}
+              </span>
+            )}
+            <label className="bg-white/5 border border-white/10 text-white ps-3 pe-1 py-1 rounded-full text-sm font-medium flex items-center gap-2">
+              <LanguageIcon className="w-4 h-4 text-gray-400" />
+              <select
+                aria-label={t('editor.language')}
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="bg-transparent outline-none py-1 pe-1 cursor-pointer"
+              >
+                {LOCALES.map(l => (
+                  <option key={l.id} value={l.id} lang={l.id} className="bg-gray-900">{l.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="bg-white/5 border border-white/10 text-white ps-3 pe-1 py-1 rounded-full text-sm font-medium flex items-center gap-2" title={provider.description}>
+              <CpuChipIcon className="w-4 h-4 text-gray-400" />
+              <select
+                aria-label={t('editor.engine')}
+                value={providerId}
+                onChange={(e) => setProviderId(e.target.value as ProviderId)}
+                disabled={isProcessing}
+                className="bg-transparent outline-none py-1 pe-1 cursor-pointer"
+              >
+                {providers.map(p => (
+                  <option key={p.id} value={p.id} className="bg-gray-900">{p.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </header>
+
+        {backgroundJobs.length > 0 && (
+          <div className="w-full max-w-6xl glass rounded-2xl p-4 mb-8 flex flex-col gap-2">
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('editor.resumedJobs')}</p>
+            {backgroundJobs.map(job => (
+              <div key={job.id} className="flex items-center gap-4">
+                <VideoCameraIcon className="w-4 h-4 text-purple-400 flex-shrink-0" />
+                <span className="text-sm truncate flex-1" title={job.request.prompt}>{job.request.prompt}</span>
+                <JobStatus job={job} onCancel={() => jobControllersRef.current.get(job.id)?.abort()} />
+                {job.status !== 'running' && (
+                  <button
+                    onClick={() => setBackgroundJobs(jobs => jobs.filter(j => j.id !== job.id))}
+                    title={t('common.dismiss')}
+                    className="p-1 rounded-lg text-gray-500 hover:text-white hover:bg-white/5"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {queuedJobs.length > 0 && (
+          <div className="w-full max-w-6xl glass rounded-2xl p-4 mb-8 flex flex-col gap-2">
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t(online ? 'queue.title' : 'queue.titleOffline')}</p>
+            {queuedJobs.map(job => (
+              <div key={job.id} className="flex items-center gap-4">
+                <ClockIcon className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                <span className="text-sm truncate flex-1" title={job.instruction}>{job.instruction}</span>
+                <span className={`text-xs truncate max-w-xs ${job.status === 'failed' ? 'text-red-300' : 'text-gray-400'}`} title={job.error}>
+                  {job.status === 'failed' && job.error ? job.error : t(QUEUE_STATUS_LABELS[job.status as QueuedCleanupStatus])}
+                </span>
+                {job.status !== 'running' && (
+                  <button
+                    onClick={() => removeQueuedCleanup(job.id)}
+                    title={t('queue.remove')}
+                    aria-label={t('queue.remove')}
+                    className="p-1 rounded-lg text-gray-500 hover:text-white hover:bg-white/5"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {prunedEntries.length > 0 && (
+          <div role="status" className="w-full max-w-6xl glass rounded-2xl p-4 mb-8 flex flex-col gap-2">
+            <div className="flex items-center gap-4">
+              <p className="text-sm flex-1">{t('history.pruned', { count: prunedEntries.length })}</p>
+              <button
+                onClick={() => setPrunedEntries([])}
+                title={t('common.dismiss')}
+                aria-label={t('common.dismiss')}
+                className="p-1 rounded-lg text-gray-500 hover:text-white hover:bg-white/5"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {prunedEntries.map(entry => (
+              <p key={entry.id} className="text-xs text-gray-400 truncate" title={entry.instruction}>
+                {i18n.formatDateTime(entry.timestamp)} · {entry.instruction || t('timeline.untitled')}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Hero / Upload */}
+        {batchFiles && (
+          <BatchPanel
+            files={batchFiles}
+            provider={provider}
+            instruction={instruction}
+            onInstructionChange={(text) => editInstruction(text, 'image')}
+            presetUse={presetUses.image}
+            onPresetChange={(use, text) => changePreset('image', use, text)}
+            userPresets={userPresets}
+            onUserPresetsChange={setUserPresets}
+            unfilledVariables={unfilledVariables(presetUses.image)}
+            operator={operator}
+            onOperatorChange={setOperator}
+            outputFormat={outputFormat}
+            onOutputFormatChange={setOutputFormat}
+            onResult={(item, session, mimeType) => persistStep(generateId(), session, 'image', mimeType)}
+            onClose={() => setBatchFiles(null)}
+          />
+        )}
+
+        {cameraOpen && !selectedFile && <CameraCapture onCapture={handleCapture} />}
+
+        {!selectedFile && !batchFiles && !cameraOpen && (
+          <main className="flex flex-col items-center text-center max-w-3xl mb-12 py-12">
+            {!embedded && (
+              <>
+                <h2 className="text-4xl md:text-6xl font-bold mb-6 leading-tight">
+                  {heroBefore}<span className="gradient-text">{t('editor.hero.highlight')}</span>{heroAfter}
+                </h2>
+                <p className="text-gray-400 text-lg mb-10 max-w-xl">
+                  {t(`editor.hero.text.${activeTab}`)}
+                </p>
+              </>
+            )}
+          
+            <div 
+              role="button"
+              tabIndex={0}
+              aria-label={`${t(`editor.upload.${activeTab}`)}. ${uploadHint(activeTab, i18n)}`}
+              onClick={() => fileInputRef.current?.click()}
+              onKeyDown={(e) => {
+                if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+                e.preventDefault();
+                fileInputRef.current?.click();
+              }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDrop}
+              className="w-full md:w-[600px] h-64 glass rounded-3xl border-2 border-dashed border-gray-700 hover:border-blue-500 focus-visible:border-blue-500 focus-visible:outline-none transition-all flex flex-col items-center justify-center cursor-pointer group pulse-border"
+            >
+              <div className={`p-4 rounded-full mb-4 group-hover:scale-110 transition-transform ${activeTab === 'image' ? 'bg-blue-500/10' : 'bg-purple-500/10'}`}>
+                {activeTab === 'image' ? (
+                  <CloudArrowUpIcon className="w-10 h-10 text-blue-500" />
+                ) : (
+                  <VideoCameraIcon className="w-10 h-10 text-purple-500" />
+                )}
+              </div>
+              <p className="text-xl font-semibold mb-2">{t(`editor.upload.${activeTab}`)}</p>
+              <p className="text-gray-500 text-sm">
+                {uploadHint(activeTab, i18n)}
+              </p>
+              {activeTab === 'image' && (
+                <p className="text-gray-600 text-xs mt-1">{t('editor.upload.batch')}</p>
+              )}
+              <input 
+                type="file" 
+                ref={fileInputRef} 
+                onChange={handleFileSelect} 
+                tabIndex={-1}
+                className="hidden" 
+                accept={acceptFor(activeTab)}
+                multiple={activeTab === 'image'}
+              />
+            </div>
+
+            {error && <ErrorNotice error={error} className="mt-6" />}
+          
+            {activeTab === 'video' && (
+              <div className="mt-8 flex items-center gap-2 text-xs text-gray-500 bg-white/5 px-4 py-2 rounded-full border border-white/5">
+                <InformationCircleIcon className="w-4 h-4" />
+                <span>{t('editor.billing')} <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="underline text-blue-400">{t('editor.billing.link')}</a></span>
+              </div>
+            )}
+          </main>
+        )}
+
+        {/* Editor Layout */}
+        {selectedFile && (
+          <div className="w-full max-w-6xl grid grid-cols-1 lg:grid-cols-3 gap-8 mb-12">
+            <div className="lg:col-span-2 flex flex-col gap-6">
+              <div aria-busy={isProcessing} className="glass rounded-3xl p-6 relative overflow-hidden min-h-[450px] flex items-center justify-center bg-black/20">
+                {isProcessing && (
+                  <div className="absolute inset-0 bg-black/80 backdrop-blur-md z-10 flex flex-col items-center justify-center gap-6">
+                    <div className="relative">
+                      <div className={`w-20 h-20 border-4 rounded-full animate-spin ${activeTab === 'image' ? 'border-blue-500/20 border-t-blue-500' : 'border-purple-500/20 border-t-purple-500'}`}></div>
+                      <SparklesIcon className={`w-8 h-8 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 animate-pulse ${activeTab === 'image' ? 'text-blue-500' : 'text-purple-500'}`} />
+                    </div>
+                    <div className="text-center">
+                      <p className="font-bold text-xl mb-1">{processingTitle}</p>
+                      <p className="text-sm text-gray-400 max-w-xs mx-auto">
+                        {activeTab === 'image'
+                          ? (progress && candidateRuns > 1
+                            ? (progress.done < progress.total ? t('editor.progress.candidate', { n: progress.done + 1, total: progress.total }) : t('editor.progress.scoring'))
+                            : progress && progress.total > 1 ? t('editor.progress.tile', { n: progress.done, total: progress.total }) : t('editor.progress.image'))
+                          : videoMode === 'cleanup'
+                            ? (progress && progress.total > 0 ? t('editor.progress.frame', { n: progress.done, total: progress.total }) : t('editor.progress.decoding'))
+                            : t('editor.progress.regenerate')}
+                      </p>
+                      {progress && progress.total > 0 && (
+                        <div
+                          role="progressbar"
+                          aria-label={processingTitle}
+                          aria-valuemin={0}
+                          aria-valuemax={progress.total}
+                          aria-valuenow={progress.done}
+                          className="w-64 h-1.5 bg-white/10 rounded-full mt-4 mx-auto overflow-hidden"
+                        >
+                          <div className="h-full bg-purple-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                        </div>
+                      )}
+                      {retryNotice && <p className="text-xs text-amber-300 mt-3 max-w-xs mx-auto">{retryNotice}</p>}
+                      {activeJob && (
+                        <div className="mt-4">
+                          <JobStatus job={activeJob} onCancel={() => jobControllersRef.current.get(activeJob.id)?.abort()} />
+                        </div>
+                      )}
+                      {activeTab === 'video' && videoMode === 'cleanup' && (
+                        <button
+                          onClick={() => cleanupControllerRef.current?.abort()}
+                          className="mt-4 mx-auto px-3 py-1 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 flex items-center gap-1 text-xs"
+                        >
+                          <StopIcon className="w-3 h-3" /> {t('common.cancel')}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              
+                <div className="w-full h-full flex items-center justify-center">
+                  {processedResult && !editingMask ? (
+                    <div className="relative group w-full">
+                      {activeTab === 'image' ? (
+                        <CompareViewer original={selectedFile} edited={processedResult} />
+                      ) : (
+                        <video src={processedResult} controls className="max-w-full h-auto rounded-xl shadow-2xl mx-auto" />
+                      )}
+                      <div className={`absolute ${activeTab === 'image' ? 'bottom-4' : 'top-4'} end-4 flex gap-2`}>
+                        {(activeTab === 'image' || videoMode === 'cleanup') && (
+                          <button 
+                            onClick={() => setEditingMask(true)}
+                            className="bg-white/10 backdrop-blur-md text-white p-2 rounded-lg shadow-lg hover:scale-105 transition-transform"
+                            title={t('editor.paintNext')}
+                          >
+                            <PaintBrushIcon className="w-6 h-6" />
+                          </button>
+                        )}
+                        <button 
+                          onClick={downloadResult}
+                          className="bg-white text-black p-2 rounded-lg shadow-lg hover:scale-105 transition-transform"
+                          title={withKeys(t('editor.download'), 'download')}
+                          aria-keyshortcuts={shortcutFor('download').aria}
+                        >
+                          <ArrowDownTrayIcon className="w-6 h-6" />
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="relative w-full">
+                      {activeTab === 'image' ? (
+                        <div className="relative w-fit mx-auto">
+                          <img src={workingFile!} alt={t(processedResult ? 'editor.alt.result' : 'editor.alt.upload')} className="max-w-full h-auto rounded-xl shadow-2xl opacity-70" />
+                          <MaskEditor src={workingFile!} onChange={setMask} disabled={isProcessing} stamps={acceptedRegions} />
+                          {detectionOverlay}
+                        </div>
+                      ) : videoMode === 'cleanup' && videoPoster ? (
+                        <div className="relative w-fit mx-auto">
+                          <img src={videoPoster} alt={t('editor.alt.poster')} className="max-w-full h-auto rounded-xl shadow-2xl opacity-70" />
+                          <MaskEditor src={videoPoster} onChange={setMask} disabled={isProcessing} stamps={acceptedRegions} />
+                          {detectionOverlay}
+                        </div>
+                      ) : (
+                        <video src={selectedFile} className="max-w-full h-auto rounded-xl shadow-2xl mx-auto opacity-70" />
+                      )}
+                      <div className="absolute bottom-4 start-4 flex items-center gap-2">
+                        <span className="bg-gray-800/80 text-white text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wider backdrop-blur-md">
+                          {t(processedResult ? 'editor.nextStep' : 'editor.uploadReady')}
+                        </span>
+                        {processedResult && (
+                          <button
+                            onClick={() => setEditingMask(false)}
+                            className="bg-gray-800/80 text-white text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wider backdrop-blur-md flex items-center gap-1 hover:bg-gray-700"
+                          >
+                            <ArrowsRightLeftIcon className="w-3 h-3" /> {t('editor.compare')}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {graph && candidateIds.length > 1 && candidateIds.includes(graph.currentId) && (
+                <CandidatePicker
+                  candidates={candidateIds.map(id => graph.nodes[id])}
+                  selectedId={graph.currentId}
+                  onSelect={goToNode}
+                  disabled={isProcessing}
+                />
+              )}
+
+              {error && <ErrorNotice error={error} />}
+
+              <div className="flex flex-col gap-4 glass p-6 rounded-2xl">
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="clearcast-instruction" className="text-sm font-semibold text-gray-300">{t('editor.instruction')}</label>
+                  {activeTab === 'video' && videoMode === 'regenerate' && (
+                    <div className="flex gap-2">
+                      <button 
+                        onClick={() => setVideoAspectRatio('16:9')}
+                        className={`text-[10px] px-2 py-1 rounded ${videoAspectRatio === '16:9' ? 'bg-blue-600' : 'bg-gray-700'}`}
+                      >16:9</button>
+                      <button 
+                        onClick={() => setVideoAspectRatio('9:16')}
+                        className={`text-[10px] px-2 py-1 rounded ${videoAspectRatio === '9:16' ? 'bg-blue-600' : 'bg-gray-700'}`}
+                      >9:16</button>
+                    </div>
+                  )}
+                </div>
+                {activeTab === 'video' && (
+                  <VideoCleanupSettings
+                    mode={videoMode}
+                    onModeChange={setVideoMode}
+                    duration={videoDuration}
+                    range={videoRange}
+                    onRangeChange={setVideoRange}
+                    fps={videoFps}
+                    onFpsChange={setVideoFps}
+                    smoothing={temporalSmoothing}
+                    onSmoothingChange={setTemporalSmoothing}
+                    disabled={isProcessing}
+                  />
+                )}
+                <PresetPicker
+                  type={activeTab}
+                  userPresets={userPresets}
+                  onUserPresetsChange={setUserPresets}
+                  value={presetUse}
+                  onChange={(use, text) => changePreset(activeTab, use, text)}
+                  instruction={instruction}
+                  disabled={isProcessing}
+                />
+                <textarea 
+                  id="clearcast-instruction"
+                  value={instruction}
+                  onChange={(e) => editInstruction(e.target.value, activeTab)}
+                  placeholder={t(`editor.instruction.placeholder.${activeTab}`)}
+                  className="w-full bg-black/50 border border-gray-700 rounded-xl px-4 py-3 text-sm focus:border-blue-500 outline-none transition-all resize-none h-24"
+                />
+                {(activeTab === 'image' || videoMode === 'cleanup') && (
+                  <p className="text-xs text-gray-500 -mt-2">
+                    {mask
+                      ? t('editor.hint.masked')
+                      : provider.requiresMask
+                        ? t('editor.hint.maskRequired', { engine: provider.label })
+                        : t('editor.hint.tip')}
+                  </p>
+                )}
+
+                <OwnershipAttestation
+                  operator={operator}
+                  onOperatorChange={setOperator}
+                  confirmed={ownershipConfirmed}
+                  onConfirmedChange={setOwnershipConfirmed}
+                  subject={activeTab}
+                  disabled={isProcessing}
+                />
+                {activeTab === 'image' && provider.requiresNetwork && (
+                  <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+                    <label className="flex items-center gap-2">
+                      {t('editor.candidates')}
+                      <select
+                        value={candidateSettings.count}
+                        onChange={(e) => setCandidateSettings({ ...candidateSettings, count: Number(e.target.value) })}
+                        disabled={isProcessing}
+                        className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none"
+                      >
+                        {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {candidateSettings.count > 1 && provider.judgeCandidates && (
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={candidateSettings.judge}
+                          onChange={(e) => setCandidateSettings({ ...candidateSettings, judge: e.target.checked })}
+                          disabled={isProcessing}
+                          className="accent-blue-500"
+                        />
+                        {t('editor.candidates.judge')}
+                      </label>
+                    )}
+                    {candidateSettings.count > 1 && (
+                      <span className="text-gray-500">{t('editor.candidates.hint')}</span>
+                    )}
+                  </div>
+                )}
+                {activeTab === 'image' && (
+                  <OutputFormatPicker format={outputFormat} onChange={setOutputFormat} disabled={isProcessing} />
+                )}
+
+                <div className="flex items-center justify-between gap-4">
+                  <button 
+                    onClick={discard}
+                    title={withKeys(t('editor.discard'), 'discard')}
+                    aria-keyshortcuts={shortcutFor('discard').aria}
+                    className="px-4 py-2 hover:bg-white/5 rounded-xl transition-colors text-gray-400 hover:text-white flex items-center gap-2"
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                    {t('editor.discard')}
+                  </button>
+                  <button 
+                    onClick={handleProcess}
+                    disabled={isProcessing || !ownershipConfirmed || !operator.trim()}
+                    title={shortcutFor('process').keys}
+                    aria-keyshortcuts={shortcutFor('process').aria}
+                    className={`flex-1 ${activeTab === 'image' ? 'bg-[var(--clearcast-accent,#2563eb)] hover:brightness-110' : 'bg-purple-600 hover:bg-purple-500'} disabled:opacity-50 disabled:cursor-not-allowed text-white px-8 py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all shadow-lg`}
+                  >
+                    <SparklesIcon className="w-5 h-5" />
+                    {t(isProcessing ? 'editor.process.running' : processedResult ? 'editor.process.refine' : activeTab === 'image' ? 'editor.process.image' : videoMode === 'cleanup' ? 'editor.process.cleanup' : 'editor.process.regenerate')}
+                  </button>
+                </div>
+                <details className="text-xs text-gray-500">
+                  <summary className="cursor-pointer hover:text-gray-300 w-fit">{t('shortcut.title')}</summary>
+                  <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                    {SHORTCUTS.map(s => (
+                      <React.Fragment key={s.action}>
+                        <dt><kbd className="font-mono text-gray-300">{s.keys}</kbd></dt>
+                        <dd>{t(s.description)}</dd>
+                      </React.Fragment>
+                    ))}
+                    <dt><kbd className="font-mono text-gray-300">↑ ↓</kbd></dt>
+                    <dd>{t('shortcut.history')}</dd>
+                    <dt><kbd className="font-mono text-gray-300">← → ↑ ↓</kbd></dt>
+                    <dd>{t('shortcut.mask')}</dd>
+                  </dl>
+                </details>
+              </div>
+            </div>
+
+            {/* Sidebar */}
+            <div className="flex flex-col gap-6">
+              {graph && Object.keys(graph.nodes).length > 1 && (
+                <EditTimeline
+                  graph={graph}
+                  type={activeTab}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  disabled={isProcessing}
+                  onSelect={goToNode}
+                  onUndo={undo}
+                  onRedo={redo}
+                />
+              )}
+
+              <HistoryPanel
+                projectId={projectId}
+                onProjectChange={setProjectId}
+                version={historyVersion}
+                onSelect={openHistoryEntry}
+                onDownload={downloadHistoryEntry}
+              />
+
+              <div className="glass rounded-3xl p-6 bg-gradient-to-br from-blue-600/10 to-purple-600/10">
+                <h2 className="font-semibold mb-2 flex items-center gap-2">
+                  <InformationCircleIcon className="w-4 h-4 text-blue-400" />
+                  {t('editor.about.title')}
+                </h2>
+                <p className="text-xs text-gray-400 leading-relaxed">
+                  <strong>{t('editor.about.cleanupLabel')}</strong> {t('editor.about.cleanup')} <strong>{t('editor.about.regenerateLabel')}</strong> {t('editor.about.regenerate')}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        {!embedded && (
+          <footer className="w-full max-w-6xl py-12 border-t border-gray-800 flex flex-col md:flex-row justify-between items-center gap-6 mt-auto">
+            <div className="flex items-center gap-4">
+              <p className="text-gray-500 text-sm">© 2024 ClearCast AI.</p>
+              <div className="h-4 w-[1px] bg-gray-800"></div>
+              <p className="text-gray-500 text-sm">Gemini 2.5 Flash + Veo 3.1</p>
+            </div>
+            <div className="flex gap-8 text-sm text-gray-400">
+              <a href="#" className="hover:text-white transition-colors">{t('editor.footer.docs')}</a>
+              <a href="#" className="hover:text-white transition-colors">{t('editor.footer.privacy')}</a>
+              <a href="#" className="hover:text-white transition-colors">{t('editor.footer.keys')}</a>
+            </div>
+          </footer>
+        )}
+      </div>
+    </LocaleContext.Provider>
+  );
+};
+
+export default ClearCastEditor;
@@ -0,0 +1,278 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { computeDiffHeatmap, DiffResult } from '../services/diff';
+import type { MessageKey } from '../services/i18n';
+import { useI18n } from './LocaleContext';
+import {
+  MagnifyingGlassPlusIcon,
+  MagnifyingGlassMinusIcon,
+  ArrowsPointingInIcon
+} from '@heroicons/react/24/outline';
+
+type CompareMode = 'split' | 'side' | 'onion' | 'diff';
+
+interface CompareViewerProps {
+  original: string;
+  edited: string;
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 16;
+
+const MODES: { value: CompareMode; label: MessageKey }[] = [
+  { value: 'split', label: 'compare.mode.split' },
+  { value: 'side', label: 'compare.mode.side' },
+  { value: 'onion', label: 'compare.mode.onion' },
+  { value: 'diff', label: 'compare.mode.diff' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const CompareViewer: React.FC<CompareViewerProps> = ({ original, edited }) => {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [scale, setScale] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [split, setSplit] = useState(0.5);
+  const [onionOpacity, setOnionOpacity] = useState(0.5);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; panX: number; panY: number } | null>(null);
+  // The native wheel listener is registered once, so it reads the live view through a ref.
+  const viewRef = useRef({ scale, pan });
+  viewRef.current = { scale, pan };
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setNatural({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = original;
+    setDiff(null);
+    setDiffError(null);
+  }, [original, edited]);
+
+  useEffect(() => {
+    if (mode !== 'diff' || diff) return;
+    computeDiffHeatmap(original, edited)
+      .then(setDiff)
+      .catch(err => setDiffError(err.message || t('compare.diffError')));
+  }, [mode, diff, original, edited]);
+
+  const firstPane = () => containerRef.current?.querySelector<HTMLElement>('[data-pane]') || null;
+
+  const fit = () => {
+    const pane = firstPane();
+    if (!pane || !natural) return;
+    const fitScale = Math.min(pane.clientWidth / natural.width, pane.clientHeight / natural.height, 1);
+    setScale(fitScale);
+    setPan({
+      x: (pane.clientWidth - natural.width * fitScale) / 2,
+      y: (pane.clientHeight - natural.height * fitScale) / 2,
+    });
+  };
+
+  useEffect(fit, [natural, mode === 'side']);
+
+  const zoomAt = (nextScale: number, anchorX: number, anchorY: number) => {
+    const { scale: current, pan: currentPan } = viewRef.current;
+    const target = clamp(nextScale, MIN_SCALE, MAX_SCALE);
+    const ratio = target / current;
+    setScale(target);
+    setPan({ x: anchorX - (anchorX - currentPan.x) * ratio, y: anchorY - (anchorY - currentPan.y) * ratio });
+  };
+
+  const zoomAtCenter = (nextScale: number) => {
+    const pane = firstPane();
+    if (!pane) return;
+    zoomAt(nextScale, pane.clientWidth / 2, pane.clientHeight / 2);
+  };
+
+  // Keeps whatever is in the centre of the view in the centre at 1:1.
+  const actualSize = () => zoomAtCenter(1);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      const pane = (e.target as HTMLElement).closest<HTMLElement>('[data-pane]');
+      if (!pane) return;
+      e.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      zoomAt(viewRef.current.scale * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const splitFromPointer = (e: React.PointerEvent, pane: HTMLElement) => {
+    if (!natural) return;
+    const rect = pane.getBoundingClientRect();
+    const contentX = (e.clientX - rect.left - pan.x) / scale;
+    setSplit(clamp(contentX / natural.width, 0, 1));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    const pane = (e.target as HTMLElement).closest<HTMLElement>('[data-pane]');
+    pane?.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, panX: pan.x, panY: pan.y };
+    if (kind === 'split' && pane) splitFromPointer(e, pane);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      splitFromPointer(e, e.currentTarget);
+    } else {
+      setPan({ x: drag.panX + e.clientX - drag.startX, y: drag.panY + e.clientY - drag.startY });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSplitKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 0.1 : 0.02;
+    const moves: Record<string, number> = { ArrowLeft: split - step, ArrowRight: split + step, Home: 0, End: 1 };
+    if (!(e.key in moves)) return;
+    e.preventDefault();
+    setSplit(clamp(moves[e.key], 0, 1));
+  };
+
+  const renderPane = (layers: React.ReactNode, label?: string) => (
+    <div
+      data-pane
+      className="relative flex-1 h-[420px] overflow-hidden rounded-xl bg-black/40 cursor-grab active:cursor-grabbing touch-none select-none"
+      onPointerDown={(e) => handlePointerDown(e, 'pan')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {natural && (
+        <div
+          className="absolute left-0 top-0"
+          style={{
+            width: natural.width,
+            height: natural.height,
+            transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`,
+            transformOrigin: '0 0',
+            // Show real pixels instead of a smoothed blur once zoomed past 1:1.
+            imageRendering: scale >= 2 ? 'pixelated' : 'auto',
+          }}
+        >
+          {layers}
+        </div>
+      )}
+      {label && (
+        <span className="absolute bottom-3 left-3 bg-gray-800/80 text-white text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider backdrop-blur-md pointer-events-none">
+          {label}
+        </span>
+      )}
+    </div>
+  );
+
+  const layer = (src: string, alt: string, style?: React.CSSProperties) => (
+    <img src={src} alt={alt} draggable={false} className="absolute inset-0 w-full h-full max-w-none" style={style} />
+  );
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <div className="flex bg-black/40 p-1 rounded-xl border border-white/10">
+          {MODES.map(m => (
+            <button
+              key={m.value}
+              onClick={() => setMode(m.value)}
+              aria-pressed={mode === m.value}
+              className={`px-3 py-1.5 rounded-lg font-medium transition-all ${mode === m.value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {t(m.label)}
+            </button>
+          ))}
+        </div>
+        {mode === 'onion' && (
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={onionOpacity}
+            onChange={(e) => setOnionOpacity(Number(e.target.value))}
+            title={t('compare.opacity')}
+            aria-label={t('compare.opacity')}
+            className="w-28 accent-blue-500"
+          />
+        )}
+        {mode === 'diff' && diff && (
+          <span className="text-gray-400">
+            {t('compare.diffSummary', { changed: formatNumber(diff.changedRatio * 100, 2), delta: diff.maxDelta })}
+          </span>
+        )}
+        {mode === 'diff' && diffError && <span className="text-red-300">{diffError}</span>}
+        <div className="ms-auto flex items-center gap-1 bg-black/40 p-1 rounded-xl border border-white/10">
+          <button onClick={() => zoomAtCenter(scale / 1.5)} title={t('compare.zoomOut')} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10">
+            <MagnifyingGlassMinusIcon className="w-4 h-4" />
+          </button>
+          <span className="w-12 text-center text-gray-400 tabular-nums">{formatPercent(scale)}</span>
+          <button onClick={() => zoomAtCenter(scale * 1.5)} title={t('compare.zoomIn')} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10">
+            <MagnifyingGlassPlusIcon className="w-4 h-4" />
+          </button>
+          <button onClick={actualSize} title={t('compare.actualSize')} className="px-2 py-1 rounded-lg text-gray-300 hover:bg-white/10 font-bold">1:1</button>
+          <button onClick={fit} title={t('compare.fit')} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10">
+            <ArrowsPointingInIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Image space: the original stays on the left in right-to-left layouts too. */}
+      <div ref={containerRef} dir="ltr" className="flex gap-3">
+        {mode === 'split' && renderPane(
+          <>
+            {layer(original, t('compare.original'))}
+            {layer(edited, t('compare.result'), { clipPath: `inset(0 0 0 ${split * 100}%)` })}
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-label={t('compare.split')}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split * 100)}
+              aria-orientation="horizontal"
+              onKeyDown={handleSplitKeyDown}
+              className="group absolute top-0 bottom-0 w-0 cursor-ew-resize focus:outline-none"
+              style={{ left: `${split * 100}%` }}
+              onPointerDown={(e) => handlePointerDown(e, 'split')}
+            >
+              <div className="absolute inset-y-0 -left-px bg-white shadow-[0_0_8px_rgba(0,0,0,0.6)]" style={{ width: 2 / scale }} />
+              <div
+                className="absolute top-1/2 bg-white rounded-full shadow-lg group-focus-visible:ring-4 group-focus-visible:ring-blue-500"
+                style={{ width: 24 / scale, height: 24 / scale, transform: 'translate(-50%, -50%)' }}
+              />
+            </div>
+          </>
+        )}
+        {mode === 'side' && (
+          <>
+            {renderPane(layer(original, t('compare.original')), t('compare.original'))}
+            {renderPane(layer(edited, t('compare.result')), t('compare.result'))}
+          </>
+        )}
+        {mode === 'onion' && renderPane(
+          <>
+            {layer(original, t('compare.original'))}
+            {layer(edited, t('compare.result'), { opacity: onionOpacity })}
+          </>
+        )}
+        {mode === 'diff' && renderPane(
+          diff ? layer(diff.heatmap, t('compare.heatmap')) : layer(original, t('compare.original'), { opacity: 0.3 })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
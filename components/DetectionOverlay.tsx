@@ -0,0 +1,146 @@
+
+import React, { useRef } from 'react';
+import { clampBox, DetectedRegion, RegionKind } from '../services/detection';
+import { useI18n } from './LocaleContext';
+import {
+  ViewfinderCircleIcon,
+  CheckIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface DetectionOverlayProps {
+  regions: DetectedRegion[];
+  detecting: boolean;
+  /** Where the current proposals came from, shown next to the controls. */
+  source: string | null;
+  disabled?: boolean;
+  onDetect: () => void;
+  onChange: (regions: DetectedRegion[]) => void;
+  onAccept: (regions: DetectedRegion[]) => void;
+  onReject: (ids: string[]) => void;
+}
+
+const KIND_STYLES: Record<RegionKind, string> = {
+  text: 'border-amber-400 bg-amber-400/10',
+  logo: 'border-fuchsia-400 bg-fuchsia-400/10',
+  stamp: 'border-cyan-400 bg-cyan-400/10',
+};
+
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
+  regions, detecting, source, disabled, onDetect, onChange, onAccept, onReject
+}) => {
+  const { t, formatPercent } = useI18n();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; mode: 'move' | 'resize'; startX: number; startY: number; box: DetectedRegion['box'] } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent, region: DetectedRegion, mode: 'move' | 'resize') => {
+    if (disabled) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { id: region.id, mode, startX: e.clientX, startY: e.clientY, box: region.box };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = rootRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const { box } = drag;
+    const next = drag.mode === 'move'
+      ? { ...box, x: Math.min(1 - box.width, Math.max(0, box.x + dx)), y: Math.min(1 - box.height, Math.max(0, box.y + dy)) }
+      : clampBox({ ...box, width: Math.max(0.01, box.width + dx), height: Math.max(0.01, box.height + dy) });
+    onChange(regions.map(r => r.id === drag.id ? { ...r, box: next } : r));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div ref={rootRef} className="absolute inset-0 pointer-events-none">
+      {regions.map(region => (
+        <div
+          key={region.id}
+          onPointerDown={(e) => handlePointerDown(e, region, 'move')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`absolute border-2 border-dashed rounded-md pointer-events-auto touch-none ${KIND_STYLES[region.kind]} ${disabled ? '' : 'cursor-move'}`}
+          style={{
+            left: `${region.box.x * 100}%`,
+            top: `${region.box.y * 100}%`,
+            width: `${region.box.width * 100}%`,
+            height: `${region.box.height * 100}%`,
+          }}
+        >
+          <div className="absolute -top-7 left-0 flex items-center gap-1 whitespace-nowrap">
+            <span className="bg-gray-900/90 text-white text-[10px] font-bold px-2 py-0.5 rounded-full backdrop-blur-md">
+              {t('detect.region', { label: region.label, confidence: formatPercent(region.confidence) })}
+            </span>
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onAccept([region])}
+              disabled={disabled}
+              title={t('detect.accept')}
+              className="bg-emerald-600 hover:bg-emerald-500 text-white p-0.5 rounded-full disabled:opacity-50"
+            >
+              <CheckIcon className="w-3 h-3" />
+            </button>
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onReject([region.id])}
+              disabled={disabled}
+              title={t('detect.reject')}
+              className="bg-red-600 hover:bg-red-500 text-white p-0.5 rounded-full disabled:opacity-50"
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </div>
+          <div
+            onPointerDown={(e) => handlePointerDown(e, region, 'resize')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            title={t('detect.resize')}
+            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white rounded-sm cursor-se-resize"
+          />
+        </div>
+      ))}
+
+      <div className="absolute top-4 right-4 flex items-center gap-1 bg-gray-900/80 backdrop-blur-md p-1 rounded-xl border border-white/10 pointer-events-auto text-xs">
+        {regions.length > 0 ? (
+          <>
+            <span className="px-2 text-gray-400">{t(source ? 'detect.foundBy' : 'detect.found', { count: regions.length, source: source || '' })}</span>
+            <button
+              onClick={() => onAccept(regions)}
+              disabled={disabled}
+              className="px-2 py-1.5 rounded-lg text-emerald-300 hover:bg-white/10 font-medium disabled:opacity-50"
+            >
+              {t('detect.acceptAll')}
+            </button>
+            <button
+              onClick={() => onReject(regions.map(r => r.id))}
+              disabled={disabled}
+              className="px-2 py-1.5 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-50"
+            >
+              {t('detect.rejectAll')}
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={onDetect}
+            disabled={disabled || detecting}
+            title={t('detect.help')}
+            className="px-2 py-1.5 rounded-lg text-gray-300 hover:bg-white/10 font-medium flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <ViewfinderCircleIcon className={`w-4 h-4 ${detecting ? 'animate-pulse' : ''}`} />
+            {detecting ? t('detect.running') : t('detect.start')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { flattenGraph, pathTo } from '../services/editGraph';
+import { shortcutFor, withKeys } from '../services/shortcuts';
+import type { EditGraph, MediaType } from '../types';
+import { useI18n } from './LocaleContext';
+import {
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  VideoCameraIcon
+} from '@heroicons/react/24/outline';
+
+interface EditTimelineProps {
+  graph: EditGraph;
+  type: MediaType;
+  canUndo: boolean;
+  canRedo: boolean;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const EditTimeline: React.FC<EditTimelineProps> = ({ graph, type, canUndo, canRedo, disabled, onSelect, onUndo, onRedo }) => {
+  const { t, formatTime } = useI18n();
+  const onPath = new Set(pathTo(graph, graph.currentId).map(node => node.id));
+  const rows = flattenGraph(graph);
+
+  return (
+    <div className="glass rounded-3xl p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold flex items-center gap-2">
+          {t('timeline.title')}
+          <span className="text-xs bg-gray-700 px-2 py-0.5 rounded-full font-normal">{rows.length - 1}</span>
+        </h2>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+            title={withKeys(t('timeline.undo'), 'undo')}
+            aria-keyshortcuts={shortcutFor('undo').aria}
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+            title={withKeys(t('timeline.redo'), 'redo')}
+            aria-keyshortcuts={shortcutFor('redo').aria}
+          >
+            <ArrowUturnRightIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-[320px] overflow-y-auto pr-1">
+        {rows.map(({ node, depth }) => {
+          const isCurrent = node.id === graph.currentId;
+          return (
+            <button
+              key={node.id}
+              onClick={() => onSelect(node.id)}
+              disabled={disabled}
+              aria-current={isCurrent ? 'step' : undefined}
+              style={{ marginInlineStart: depth * 12 }}
+              className={`flex items-center gap-3 p-2 rounded-xl text-start transition-all disabled:cursor-not-allowed ${
+                isCurrent
+                  ? 'bg-blue-600/20 border border-blue-500/50'
+                  : onPath.has(node.id)
+                    ? 'border border-white/10 hover:bg-white/5'
+                    : 'border border-transparent opacity-60 hover:opacity-100 hover:bg-white/5'
+              }`}
+            >
+              <div className="w-10 h-10 bg-black/40 rounded-lg overflow-hidden flex-shrink-0 flex items-center justify-center">
+                {type === 'image'
+                  ? <img src={node.media} alt="" className="object-cover w-full h-full" />
+                  : <VideoCameraIcon className="w-5 h-5 text-gray-600" />}
+              </div>
+              <div className="overflow-hidden">
+                <p className="text-xs font-medium truncate">{node.parentId ? node.instruction || t('timeline.untitled') : t('timeline.original')}</p>
+                <p className="text-[10px] text-gray-500">
+                  {formatTime(node.timestamp)}{node.model ? ` · ${node.model}` : ''}{node.quality ? ` · ${t('timeline.score', { score: Math.round(node.quality.overall * 100) })}` : ''}
+                </p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EditTimeline;
@@ -0,0 +1,89 @@
+import React, { useState, useRef, useEffect } from 'react';
+import ClearCastEditor from './ClearCastEditor';
+import ErrorNotice from './ErrorNotice';
+import { EditorMessage, envelope, HostMessage, readEnvelope, trustedHostOrigin } from '../services/embedProtocol';
+import type { ProviderId } from '../services/inpainting';
+import { createI18n, LOCALES, Locale, localizeFailure, matchLocale } from '../services/i18n';
+import type { EditorResult, EditorTheme } from '../types';
+
+interface EmbeddedEditorProps {
+  /** The `origin` URL parameter: where commands are accepted from and results are posted to. */
+  requestedOrigin: string | null;
+  /** Origins allowed to embed the editor; any other requested origin is refused. */
+  allowedOrigins: string[];
+}
+
+/** The editor as an iframe, driven over the postMessage protocol in services/embedProtocol.ts. */
+const EmbeddedEditor: React.FC<EmbeddedEditorProps> = ({ requestedOrigin, allowedOrigins }) => {
+  const hostOrigin = trustedHostOrigin(requestedOrigin, allowedOrigins);
+  const [asset, setAsset] = useState<Blob | null>(null);
+  const [instruction, setInstruction] = useState<string | undefined>(undefined);
+  const [provider, setProvider] = useState<ProviderId | undefined>(undefined);
+  const [theme, setTheme] = useState<EditorTheme | undefined>(undefined);
+  const [locale, setLocale] = useState<Locale | undefined>(undefined);
+  const latestResultRef = useRef<EditorResult | null>(null);
+
+  const post = (message: EditorMessage) => {
+    if (hostOrigin && window.parent !== window) window.parent.postMessage(envelope(message), hostOrigin);
+  };
+
+  useEffect(() => {
+    if (!hostOrigin) return;
+    const listener = (event: MessageEvent) => {
+      if (event.origin !== hostOrigin || event.source !== window.parent) return;
+      const message = readEnvelope<HostMessage>(event.data);
+      if (!message) return;
+      switch (message.type) {
+        case 'hello':
+          post({ type: 'ready' });
+          break;
+        case 'load':
+          if (message.asset instanceof Blob) setAsset(message.asset);
+          break;
+        case 'configure':
+          if (message.instruction !== undefined) setInstruction(message.instruction);
+          if (message.provider) setProvider(message.provider);
+          if (message.theme) setTheme(message.theme);
+          if (LOCALES.some(l => l.id === message.locale)) setLocale(message.locale);
+          break;
+        case 'get-result':
+          post({ type: 'result', result: latestResultRef.current, requestId: message.requestId });
+          break;
+      }
+    };
+    window.addEventListener('message', listener);
+    post({ type: 'ready' });
+    return () => window.removeEventListener('message', listener);
+  }, [hostOrigin]);
+
+  if (!hostOrigin) {
+    return (
+      <div className="p-8">
+        <ErrorNotice error={requestedOrigin
+          ? `${requestedOrigin} may not embed this editor. Add it to VITE_EMBED_ORIGINS when building the app.`
+          : "Embedding needs the host's origin in the URL, e.g. /?embed&origin=https://cms.example.com."} />
+      </div>
+    );
+  }
+
+  return (
+    <ClearCastEditor
+      embedded
+      asset={asset}
+      instruction={instruction}
+      provider={provider}
+      theme={theme}
+      locale={locale}
+      onResult={(result) => {
+        latestResultRef.current = result;
+        post({ type: 'result', result });
+      }}
+      onProgress={(done, total) => post({ type: 'progress', done, total })}
+      onError={(error) => post(typeof error === 'string'
+        ? { type: 'error', message: error, kind: null }
+        : { type: 'error', message: localizeFailure(createI18n(locale ?? matchLocale(navigator.languages)), error).title, kind: error.kind })}
+    />
+  );
+};
+
+export default EmbeddedEditor;
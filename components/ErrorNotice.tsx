@@ -0,0 +1,37 @@
+import React from 'react';
+import type { CleanupFailure } from '../services/errors';
+import { localizeFailure } from '../services/i18n';
+import { useI18n } from './LocaleContext';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ErrorNoticeProps {
+  /** A plain message, or a classified cleanup failure shown with guidance and the model's reply. */
+  error: string | CleanupFailure;
+  className?: string;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, className = '' }) => {
+  const i18n = useI18n();
+  const described = typeof error === 'string' ? null : localizeFailure(i18n, error);
+
+  return (
+    <div role="alert" className={`bg-red-500/10 border border-red-500/50 rounded-xl p-4 flex items-start gap-3 text-red-200 text-start ${className}`}>
+      <XMarkIcon aria-hidden="true" className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      {described ? (
+        <div className="flex flex-col gap-1 min-w-0">
+          <p className="text-sm font-semibold">{described.title}</p>
+          <p className="text-sm text-red-200/80">{described.guidance}</p>
+          {described.modelText && (
+            <blockquote className="mt-1 border-s-2 border-red-400/40 ps-3 text-xs text-gray-300 italic break-words">
+              {described.modelText}
+            </blockquote>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
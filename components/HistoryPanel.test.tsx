@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen, within } from "@testing-library/react";
+import HistoryPanel from "./HistoryPanel";
+import { accessibilityViolations } from "./testing";
+import { addNode, createGraph } from "../services/editGraph";
+import { createI18n } from "../services/i18n";
+import type { EditHistory, MediaType } from "../types";
+
+// The panel's data comes from IndexedDB, which jsdom does not have.
+const store = vi.hoisted(() => ({ entries: [] as EditHistory[] }));
+
+vi.mock("../services/historyStore", () => ({
+  listProjects: async () => [{ id: 'project', name: 'Shop', createdAt: 0, updatedAt: 0 }],
+  searchEntries: async () => store.entries,
+  getStorageUsage: async () => ({ usage: 40e6, quota: 100e6, persisted: false }),
+  deleteEntry: async (id: string) => { store.entries = store.entries.filter(entry => entry.id !== id); },
+}));
+
+const { t } = createI18n('en');
+
+const entry = (id: string, type: MediaType, instruction: string): EditHistory => {
+  const root = createGraph<Blob>(new Blob(['original'], { type: 'image/png' }));
+  const graph = addNode(root, root.rootId, new Blob(['result'], { type: 'image/png' }), { instruction, provider: 'gemini', model: 'model' });
+  return { id, projectId: 'project', type, graph, thumbnail: null, instruction, mimeType: 'image/png', provider: 'gemini', model: 'model', timestamp: Date.UTC(2026, 0, 2) };
+};
+
+const renderPanel = async () => {
+  const onSelect = vi.fn();
+  const view = render(
+    <HistoryPanel projectId="project" onProjectChange={() => {}} version={0} onSelect={onSelect} onDownload={() => {}} />
+  );
+  await act(async () => {});
+  return { ...view, onSelect };
+};
+
+beforeEach(() => {
+  store.entries = [entry('c', 'image', 'Remove the logo'), entry('b', 'video', 'Remove the caption'), entry('a', 'image', 'Remove the price tag')];
+  URL.createObjectURL = vi.fn(() => 'blob:thumbnail');
+  URL.revokeObjectURL = vi.fn();
+});
+
+afterEach(cleanup);
+
+describe('HistoryPanel', () => {
+  it('has no violations with entries and when empty', async () => {
+    const { container, unmount } = await renderPanel();
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+    expect(await accessibilityViolations(container)).toEqual([]);
+    unmount();
+
+    store.entries = [];
+    const empty = await renderPanel();
+    expect(screen.queryByRole('list')).toBeNull();
+    expect(screen.getByText(t('history.empty'))).toBeTruthy();
+    expect(await accessibilityViolations(empty.container)).toEqual([]);
+  });
+
+  it('keeps one entry in the tab order and moves between them with the arrow keys', async () => {
+    const { onSelect } = await renderPanel();
+    // Newest first: the first button of each card opens it.
+    const [first, second, third] = screen.getAllByRole('listitem').map(item => within(item).getAllByRole('button')[0]);
+    expect([first, second, third].map(button => button.tabIndex)).toEqual([0, -1, -1]);
+
+    first.focus();
+    fireEvent.keyDown(first, { key: 'ArrowDown' });
+    expect(document.activeElement).toBe(second);
+    fireEvent.keyDown(second, { key: 'End' });
+    expect(document.activeElement).toBe(third);
+    expect([first, second, third].map(button => button.tabIndex)).toEqual([-1, -1, 0]);
+    fireEvent.keyDown(third, { key: 'Home' });
+    expect(document.activeElement).toBe(first);
+
+    fireEvent.click(first);
+    expect(onSelect).toHaveBeenCalledWith(store.entries[0]);
+  });
+
+  it('names each entry by its instruction and lets it be deleted', async () => {
+    await renderPanel();
+    expect(screen.getByRole('button', { name: t('history.entry.open', { entry: t('history.entry.video', { n: 2 }), instruction: 'Remove the caption' }) })).toBeTruthy();
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: t('history.entry.delete', { entry: t('history.entry.video', { n: 2 }) }) }));
+    });
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+  });
+});
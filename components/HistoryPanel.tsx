@@ -0,0 +1,365 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  createProject,
+  deleteEntry,
+  deleteProject,
+  exportAuditLog,
+  exportProject,
+  getStorageUsage,
+  importProject,
+  listProjects,
+  pruneOldest,
+  renameProject,
+  requestPersistentStorage,
+  searchEntries,
+  StorageUsage
+} from '../services/historyStore';
+import { triggerDownload } from '../services/files';
+import type { EditHistory, HistoryQuery, MediaType, Project } from '../types';
+import { useI18n } from './LocaleContext';
+import {
+  SparklesIcon,
+  ArrowDownTrayIcon,
+  VideoCameraIcon,
+  TrashIcon,
+  PlusIcon,
+  PencilSquareIcon,
+  MagnifyingGlassIcon,
+  ArrowUpTrayIcon,
+  ArchiveBoxArrowDownIcon,
+  CircleStackIcon,
+  ClipboardDocumentListIcon
+} from '@heroicons/react/24/outline';
+
+interface HistoryPanelProps {
+  projectId: string | null;
+  onProjectChange: (projectId: string) => void;
+  /** Bumped by the parent whenever it writes a new entry. */
+  version: number;
+  onSelect: (entry: EditHistory) => void;
+  onDownload: (entry: EditHistory) => void;
+}
+
+const HistoryThumbnail: React.FC<{ entry: EditHistory }> = ({ entry }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const blob = entry.thumbnail || (entry.type === 'image' ? entry.graph.nodes[entry.graph.currentId].media : null);
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [entry]);
+
+  if (!url) return <VideoCameraIcon className="w-8 h-8 text-purple-500/50" />;
+  // The entry's title and instruction sit right next to it, so the thumbnail adds nothing for screen readers.
+  return <img src={url} alt="" className="object-cover w-full h-full" />;
+};
+
+const toDayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const toDayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ projectId, onProjectChange, version, onSelect, onDownload }) => {
+  const { t, formatBytes, formatDateTime } = useI18n();
+  const entryLabel = (type: MediaType, n: number) => t(type === 'image' ? 'history.entry.image' : 'history.entry.video', { n });
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [entries, setEntries] = useState<EditHistory[]>([]);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<MediaType | 'all'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [editingName, setEditingName] = useState<{ mode: 'create' | 'rename'; value: string } | null>(null);
+  const [panelError, setPanelError] = useState<string | null>(null);
+  const [refresh, setRefresh] = useState(0);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const entryButtonsRef = useRef<(HTMLButtonElement | null)[]>([]);
+  // Roving tabindex: only one entry is in the tab order, the arrow keys move between them.
+  const [focusIndex, setFocusIndex] = useState(0);
+
+  useEffect(() => {
+    listProjects().then(setProjects).catch(err => setPanelError(err.message));
+  }, [version, refresh]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    const query: HistoryQuery = { text: search, type: typeFilter, from: toDayStart(fromDate), to: toDayEnd(toDate) };
+    let cancelled = false;
+    searchEntries(projectId, query)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(err => setPanelError(err.message));
+    return () => { cancelled = true; };
+  }, [projectId, search, typeFilter, fromDate, toDate, version, refresh]);
+
+  useEffect(() => {
+    getStorageUsage().then(setStorage);
+  }, [version, refresh]);
+
+  const reload = () => setRefresh(n => n + 1);
+
+  useEffect(() => {
+    setFocusIndex(index => Math.min(index, Math.max(0, entries.length - 1)));
+  }, [entries]);
+
+  const handleListKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, number> = {
+      ArrowDown: focusIndex + 1,
+      ArrowUp: focusIndex - 1,
+      Home: 0,
+      End: entries.length - 1,
+    };
+    if (!(e.key in moves) || !entries.length) return;
+    e.preventDefault();
+    const next = Math.min(entries.length - 1, Math.max(0, moves[e.key]));
+    setFocusIndex(next);
+    entryButtonsRef.current[next]?.focus();
+  };
+
+  const currentProject = projects.find(p => p.id === projectId);
+
+  const submitName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingName) return;
+    if (editingName.mode === 'create') {
+      const project = await createProject(editingName.value);
+      onProjectChange(project.id);
+    } else if (projectId) {
+      await renameProject(projectId, editingName.value);
+    }
+    setEditingName(null);
+    reload();
+  };
+
+  const handleDeleteProject = async () => {
+    if (!currentProject || !confirm(t('history.project.confirmDelete', { name: currentProject.name }))) return;
+    await deleteProject(currentProject.id);
+    const remaining = (await listProjects()).filter(p => p.id !== currentProject.id);
+    onProjectChange(remaining[0]?.id || (await createProject(t('history.project.default'))).id);
+    reload();
+  };
+
+  const handleExport = async () => {
+    if (!currentProject) return;
+    try {
+      const archive = await exportProject(currentProject.id);
+      const url = URL.createObjectURL(archive);
+      triggerDownload(url, `${currentProject.name.replace(/[^\w-]+/g, '_')}.clearcast.zip`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setPanelError(err.message || t('history.error.export'));
+    }
+  };
+
+  const handleExportAudit = async () => {
+    try {
+      const url = URL.createObjectURL(await exportAuditLog());
+      triggerDownload(url, `clearcast-audit-${new Date().toISOString().slice(0, 10)}.json`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      setPanelError(err.message || t('history.error.audit'));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = await importProject(file);
+      onProjectChange(project.id);
+      setPanelError(null);
+      reload();
+    } catch (err: any) {
+      setPanelError(err.message || t('history.error.import'));
+    }
+  };
+
+  const handleDeleteEntry = async (entry: EditHistory) => {
+    await deleteEntry(entry.id);
+    reload();
+  };
+
+  const handleFreeSpace = async () => {
+    if (!storage) return;
+    // Drop roughly the oldest quarter of what we store.
+    const removed = await pruneOldest(storage.usage / 4);
+    setPanelError(removed.length ? null : t('history.storage.nothingToRemove'));
+    reload();
+  };
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    reload();
+  };
+
+  return (
+    <div className="glass rounded-3xl p-6 flex-1 flex flex-col gap-4">
+      <h2 className="text-lg font-bold flex items-center gap-2">
+        {t('history.title')}
+        <span className="text-xs bg-gray-700 px-2 py-0.5 rounded-full font-normal">{t('history.count', { count: entries.length })}</span>
+      </h2>
+
+      {editingName ? (
+        <form onSubmit={submitName} className="flex gap-2">
+          <input
+            autoFocus
+            value={editingName.value}
+            onChange={(e) => setEditingName({ ...editingName, value: e.target.value })}
+            placeholder={t('history.project.name')}
+            aria-label={t('history.project.name')}
+            className="flex-1 bg-black/50 border border-gray-700 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-blue-500"
+          />
+          <button type="submit" className="text-xs bg-blue-600 px-3 rounded-lg font-medium">{t('common.save')}</button>
+          <button type="button" onClick={() => setEditingName(null)} className="text-xs text-gray-400 px-2">{t('common.cancel')}</button>
+        </form>
+      ) : (
+        <div className="flex items-center gap-1">
+          <select
+            value={projectId || ''}
+            onChange={(e) => onProjectChange(e.target.value)}
+            aria-label={t('history.project')}
+            className="flex-1 min-w-0 bg-black/50 border border-gray-700 rounded-lg px-2 py-1.5 text-sm outline-none"
+          >
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={() => setEditingName({ mode: 'create', value: '' })} title={t('history.project.new')} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5">
+            <PlusIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => setEditingName({ mode: 'rename', value: currentProject?.name || '' })} title={t('history.project.rename')} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5">
+            <PencilSquareIcon className="w-4 h-4" />
+          </button>
+          <button onClick={handleExport} title={t('history.project.export')} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5">
+            <ArchiveBoxArrowDownIcon className="w-4 h-4" />
+          </button>
+          <button onClick={handleExportAudit} title={t('history.auditLog')} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5">
+            <ClipboardDocumentListIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => importInputRef.current?.click()} title={t('history.project.import')} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5">
+            <ArrowUpTrayIcon className="w-4 h-4" />
+          </button>
+          <button onClick={handleDeleteProject} title={t('history.project.delete')} className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+          <input type="file" ref={importInputRef} accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <div className="relative">
+          <MagnifyingGlassIcon className="w-4 h-4 text-gray-500 absolute start-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('history.search')}
+            aria-label={t('history.search')}
+            className="w-full bg-black/50 border border-gray-700 rounded-lg ps-9 pe-3 py-1.5 text-sm outline-none focus:border-blue-500"
+          />
+        </div>
+        <div className="flex gap-2 text-xs">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as MediaType | 'all')}
+            aria-label={t('history.filter.type')}
+            className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 outline-none"
+          >
+            <option value="all">{t('history.filter.all')}</option>
+            <option value="image">{t('history.filter.image')}</option>
+            <option value="video">{t('history.filter.video')}</option>
+          </select>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} title={t('history.filter.from')} aria-label={t('history.filter.from')} className="flex-1 min-w-0 bg-black/50 border border-gray-700 rounded-lg px-2 py-1 outline-none [color-scheme:dark]" />
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} title={t('history.filter.to')} aria-label={t('history.filter.to')} className="flex-1 min-w-0 bg-black/50 border border-gray-700 rounded-lg px-2 py-1 outline-none [color-scheme:dark]" />
+        </div>
+      </div>
+
+      {panelError && <p role="alert" className="text-xs text-red-300">{panelError}</p>}
+
+      {/* A list may only hold list items, so the empty state is shown in its place. */}
+      {entries.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center py-12 text-gray-500 text-center">
+          <SparklesIcon className="w-12 h-12 mb-4 opacity-10" />
+          <p className="text-sm">{search || typeFilter !== 'all' || fromDate || toDate ? t('history.empty.filtered') : t('history.empty')}</p>
+        </div>
+      ) : (
+        <div
+          role="list"
+          aria-label={t('history.title')}
+          onKeyDown={handleListKeyDown}
+          className="flex-1 overflow-y-auto space-y-4 max-h-[600px] pe-2 custom-scrollbar"
+        >
+          {entries.map((item, idx) => (
+            <div
+              key={item.id}
+              role="listitem"
+              className="relative glass border-white/5 rounded-2xl p-3 group cursor-pointer hover:border-white/20 focus-within:border-blue-500/60 transition-all"
+            >
+              <div className="flex gap-3">
+                <div className="w-20 h-20 flex-shrink-0 bg-black/40 rounded-lg flex items-center justify-center overflow-hidden">
+                  <HistoryThumbnail entry={item} />
+                </div>
+                <div className="flex flex-col justify-between py-1 overflow-hidden flex-1">
+                  <p className="text-sm font-medium truncate">
+                    {/* Stretched over the whole card, so clicking anywhere but the actions opens the entry. */}
+                    <button
+                      ref={el => { entryButtonsRef.current[idx] = el; }}
+                      onClick={() => onSelect(item)}
+                      onFocus={() => setFocusIndex(idx)}
+                      tabIndex={idx === focusIndex ? 0 : -1}
+                      aria-label={t('history.entry.open', { entry: entryLabel(item.type, entries.length - idx), instruction: item.instruction })}
+                      className="text-start after:absolute after:inset-0 after:rounded-2xl focus:outline-none"
+                    >
+                      {entryLabel(item.type, entries.length - idx)}
+                    </button>
+                    <span className="text-xs text-gray-500 font-normal"> · {t('history.entry.steps', { count: Object.keys(item.graph.nodes).length - 1 })}</span>
+                  </p>
+                  <p className="text-xs text-gray-400 truncate" title={item.instruction}>
+                    {item.preset && <span className="text-[10px] bg-white/10 text-gray-300 px-1.5 py-0.5 rounded me-1">{item.preset}</span>}
+                    {item.instruction}
+                  </p>
+                  <p className="text-xs text-gray-500">{formatDateTime(item.timestamp)} · {item.model}</p>
+                  <div className="relative z-10 flex items-center gap-3">
+                    <button
+                      onClick={() => onDownload(item)}
+                      className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                    >
+                      <ArrowDownTrayIcon className="w-3 h-3" /> {t('common.saveResult')}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteEntry(item)}
+                      aria-label={t('history.entry.delete', { entry: entryLabel(item.type, entries.length - idx) })}
+                      className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    >
+                      <TrashIcon className="w-3 h-3" /> {t('history.delete')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {storage && storage.quota > 0 && (
+        <div className="border-t border-white/5 pt-3 flex flex-col gap-2 text-xs text-gray-500">
+          <div className="flex items-center gap-2">
+            <CircleStackIcon className="w-4 h-4" />
+            <span className="flex-1">{t('history.storage.used', { usage: formatBytes(storage.usage), quota: formatBytes(storage.quota) })}</span>
+            {!storage.persisted && (
+              <button onClick={handlePersist} className="text-blue-400 hover:text-blue-300">{t('history.storage.persist')}</button>
+            )}
+            <button onClick={handleFreeSpace} className="text-gray-400 hover:text-white">{t('history.storage.free')}</button>
+          </div>
+          <div className="w-full h-1 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${storage.usage / storage.quota > 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
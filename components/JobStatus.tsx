@@ -0,0 +1,65 @@
+
+import React, { useState, useEffect } from 'react';
+import type { VideoJob, VideoJobDetail } from '../services/videoJobs';
+import type { MessageKey } from '../services/i18n';
+import { useI18n } from './LocaleContext';
+import { StopIcon } from '@heroicons/react/24/outline';
+
+interface JobStatusProps {
+  job: VideoJob;
+  onCancel?: () => void;
+}
+
+const DETAIL_LABELS: Record<VideoJobDetail, MessageKey> = {
+  queued: 'job.detail.queued',
+  generating: 'job.detail.generating',
+  retrying: 'job.detail.retrying',
+  done: 'job.detail.done',
+  failed: 'job.detail.failed',
+  cancelled: 'job.detail.cancelled',
+  'timed-out': 'job.detail.timed-out',
+  saved: 'editor.job.saved',
+  'save-failed': 'editor.job.saveFailed',
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** Live elapsed time and last poll status of a long-running video job. */
+const JobStatus: React.FC<JobStatusProps> = ({ job, onCancel }) => {
+  const { t, formatDuration } = useI18n();
+  const [now, setNow] = useState(Date.now());
+  const running = job.status === 'running';
+  const label: MessageKey | undefined = DETAIL_LABELS[job.detail];
+  const detail = !label
+    // Jobs stored by an older version carry an English sentence.
+    ? String(job.detail)
+    : job.retry
+      ? t(label, { wait: formatDuration(job.retry.delay / 1000), attempt: job.retry.attempt, maxAttempts: job.retry.maxAttempts })
+      : t(label);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return (
+    <div className="flex items-center justify-center gap-3 text-sm">
+      <span className="font-mono tabular-nums text-white">{formatElapsed((running ? now : job.updatedAt) - job.createdAt)}</span>
+      <span className="text-gray-400" title={job.error}>{detail}</span>
+      {running && onCancel && (
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 flex items-center gap-1 text-xs"
+        >
+          <StopIcon className="w-3 h-3" /> {t('job.cancel')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default JobStatus;
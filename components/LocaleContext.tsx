@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { createI18n, DEFAULT_LOCALE, I18n } from '../services/i18n';
+
+/** Provided by ClearCastEditor; components rendered outside it get English. */
+export const LocaleContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export const useI18n = (): I18n => useContext(LocaleContext);
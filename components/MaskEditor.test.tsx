@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import MaskEditor from "./MaskEditor";
+import { accessibilityViolations, TINY_PNG } from "./testing";
+import { createI18n } from "../services/i18n";
+
+const { t } = createI18n('en');
+
+/** Enough of a 2D context to see what was painted; jsdom has none of its own. */
+const fakeContext = (canvas: HTMLCanvasElement) => {
+  let painted = false;
+  return {
+    canvas,
+    beginPath: vi.fn(),
+    ellipse: vi.fn(),
+    rect: vi.fn(),
+    fill: vi.fn(() => { painted = true; }),
+    clearRect: vi.fn(() => { painted = false; }),
+    getImageData: () => ({ data: new Uint8ClampedArray([0, 0, 0, painted ? 255 : 0]) }),
+  };
+};
+
+let context: ReturnType<typeof fakeContext>;
+
+beforeEach(() => {
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    context ||= fakeContext(this);
+    return context as any;
+  });
+  vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(TINY_PNG);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  context = undefined!;
+});
+
+const renderEditor = () => {
+  const onChange = vi.fn();
+  const view = render(<div><MaskEditor src={TINY_PNG} onChange={onChange} /></div>);
+  return { ...view, onChange, canvas: screen.getByRole('application', { name: t('mask.help') }) };
+};
+
+describe('MaskEditor', () => {
+  it('has no violations before and after painting', async () => {
+    const { container, canvas } = renderEditor();
+    expect(await accessibilityViolations(container)).toEqual([]);
+    canvas.focus();
+    fireEvent.keyDown(canvas, { key: 'Enter' });
+    expect(await accessibilityViolations(container)).toEqual([]);
+  });
+
+  it('moves and resizes the marker with the arrow keys and announces it', () => {
+    const { canvas } = renderEditor();
+    fireEvent.keyDown(canvas, { key: 'ArrowRight' });
+    expect(screen.getByText(t('mask.marker', { x: '42%', y: '45%', width: '20%', height: '10%' }))).toBeTruthy();
+    fireEvent.keyDown(canvas, { key: 'ArrowDown', shiftKey: true });
+    expect(screen.getByText(t('mask.marker', { x: '42%', y: '45%', width: '20%', height: '12%' }))).toBeTruthy();
+  });
+
+  it('paints the marked area with the tool picked from the keyboard', () => {
+    const { canvas, onChange } = renderEditor();
+    fireEvent.keyDown(canvas, { key: 'x' });
+    expect(screen.getByRole('button', { name: t('mask.tool.box') }).getAttribute('aria-pressed')).toBe('true');
+    expect(screen.getByText(t('mask.toolSelected', { tool: t('mask.tool.box') }))).toBeTruthy();
+
+    fireEvent.keyDown(canvas, { key: 'Enter' });
+    // The default marker, as a share of jsdom's 300×150 canvas.
+    expect(context.rect).toHaveBeenCalledWith(120, 67.5, 60, 15);
+    expect(onChange).toHaveBeenLastCalledWith(TINY_PNG);
+    expect(screen.getByText(t('mask.painted'))).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: t('mask.clear') }));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('paints an ellipse with the brush and erases with the eraser', () => {
+    const { canvas } = renderEditor();
+    fireEvent.keyDown(canvas, { key: ' ' });
+    expect(context.ellipse).toHaveBeenCalled();
+    fireEvent.keyDown(canvas, { key: 'e' });
+    fireEvent.keyDown(canvas, { key: 'Enter' });
+    expect(screen.getByText(t('mask.erased'))).toBeTruthy();
+  });
+
+  it('ignores the keyboard while disabled', () => {
+    const onChange = vi.fn();
+    render(<MaskEditor src={TINY_PNG} onChange={onChange} disabled />);
+    const canvas = screen.getByRole('application');
+    expect(canvas.tabIndex).toBe(-1);
+    fireEvent.keyDown(canvas, { key: 'Enter' });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
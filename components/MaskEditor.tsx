@@ -0,0 +1,295 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { paintRegions, DetectedRegion } from '../services/detection';
+import type { MessageKey } from '../services/i18n';
+import { useI18n } from './LocaleContext';
+import {
+  PaintBrushIcon,
+  StopIcon,
+  BackspaceIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+type MaskTool = 'brush' | 'box' | 'erase';
+
+/** The keyboard mode's marker, as fractions of the image so it follows the canvas' CSS size. */
+interface Marker {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const TOOL_LABELS: Record<MaskTool, MessageKey> = { brush: 'mask.tool.brush', box: 'mask.tool.box', erase: 'mask.tool.erase' };
+
+const MARKER_STEP = 0.02;
+const MIN_MARKER = 0.02;
+const DEFAULT_MARKER: Marker = { x: 0.4, y: 0.45, width: 0.2, height: 0.1 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface MaskEditorProps {
+  src: string;
+  onChange: (mask: string | null) => void;
+  disabled?: boolean;
+  /** Accepted detections; each is filled into the mask once and can then be erased like a stroke. */
+  stamps?: DetectedRegion[];
+}
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ src, onChange, disabled, stamps }) => {
+  const { t, formatPercent } = useI18n();
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const [marker, setMarker] = useState<Marker>(DEFAULT_MARKER);
+  // Only shown while the canvas has keyboard focus; pointer users paint directly.
+  const [keyboardActive, setKeyboardActive] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const snapshotRef = useRef<ImageData | null>(null);
+  const stampedRef = useRef(new Set<string>());
+
+  // The mask canvas always matches the source's natural resolution; CSS scales it over the preview.
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      stampedRef.current.clear();
+      setHasMask(false);
+      onChange(null);
+    };
+    img.src = src;
+  }, [src]);
+
+  useEffect(() => {
+    const ctx = getContext();
+    const fresh = (stamps || []).filter(region => !stampedRef.current.has(region.id));
+    if (!ctx || !ctx.canvas.width || !fresh.length) return;
+    paintRegions(ctx, fresh.map(region => region.box), '#ef4444');
+    fresh.forEach(region => stampedRef.current.add(region.id));
+    emitMask();
+  }, [stamps]);
+
+  const getContext = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) || null;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const paintLine = (ctx: CanvasRenderingContext2D, from: { x: number; y: number }, to: { x: number; y: number }, width: number) => {
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    // Painted at full opacity: the alpha channel is the blend factor used when compositing.
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = getContext();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toCanvasPoint(e);
+    startRef.current = point;
+    if (tool === 'box') {
+      snapshotRef.current = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    } else {
+      paintLine(ctx, point, point, brushSize * point.scale);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || !startRef.current) return;
+    const ctx = getContext();
+    if (!ctx) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'box') {
+      if (snapshotRef.current) ctx.putImageData(snapshotRef.current, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = '#ef4444';
+      ctx.fillRect(startRef.current.x, startRef.current.y, point.x - startRef.current.x, point.y - startRef.current.y);
+    } else {
+      paintLine(ctx, startRef.current, point, brushSize * point.scale);
+      startRef.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    startRef.current = null;
+    snapshotRef.current = null;
+    emitMask();
+  };
+
+  /** Moves the marker with the arrow keys, or resizes it with Shift held. */
+  const nudgeMarker = (key: string, resize: boolean) => {
+    const dx = key === 'ArrowRight' ? MARKER_STEP : key === 'ArrowLeft' ? -MARKER_STEP : 0;
+    const dy = key === 'ArrowDown' ? MARKER_STEP : key === 'ArrowUp' ? -MARKER_STEP : 0;
+    const next = resize
+      ? {
+          ...marker,
+          width: clamp(marker.width + dx, MIN_MARKER, 1 - marker.x),
+          height: clamp(marker.height + dy, MIN_MARKER, 1 - marker.y),
+        }
+      : {
+          ...marker,
+          x: clamp(marker.x + dx, 0, 1 - marker.width),
+          y: clamp(marker.y + dy, 0, 1 - marker.height),
+        };
+    setMarker(next);
+    setStatus(t('mask.marker', {
+      x: formatPercent(next.x),
+      y: formatPercent(next.y),
+      width: formatPercent(next.width),
+      height: formatPercent(next.height),
+    }));
+  };
+
+  /** Paints the marker's area with the current tool: an ellipse for the brush, a rectangle for the box and eraser. */
+  const stampMarker = () => {
+    const ctx = getContext();
+    if (!ctx) return;
+    const { width, height } = ctx.canvas;
+    const x = marker.x * width;
+    const y = marker.y * height;
+    const w = marker.width * width;
+    const h = marker.height * height;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    if (tool === 'brush') ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+    else ctx.rect(x, y, w, h);
+    ctx.fill();
+    emitMask();
+    setStatus(t(tool === 'erase' ? 'mask.erased' : 'mask.painted'));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    if (e.key.startsWith('Arrow')) {
+      e.preventDefault();
+      nudgeMarker(e.key, e.shiftKey);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      stampMarker();
+    } else if (e.key === 'b' || e.key === 'x' || e.key === 'e') {
+      const next: MaskTool = e.key === 'b' ? 'brush' : e.key === 'x' ? 'box' : 'erase';
+      setTool(next);
+      setStatus(t('mask.toolSelected', { tool: t(TOOL_LABELS[next]) }));
+    }
+  };
+
+  const emitMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) { painted = true; break; }
+    }
+    setHasMask(painted);
+    onChange(painted ? canvas.toDataURL('image/png') : null);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = getContext();
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+    onChange(null);
+  };
+
+  const toolButton = (value: MaskTool, Icon: React.ElementType) => (
+    <button
+      onClick={() => setTool(value)}
+      title={t(TOOL_LABELS[value])}
+      aria-label={t(TOOL_LABELS[value])}
+      aria-pressed={tool === value}
+      className={`p-2 rounded-lg transition-colors ${tool === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        tabIndex={disabled ? -1 : 0}
+        role="application"
+        aria-roledescription={t('mask.role')}
+        aria-label={t('mask.help')}
+        onKeyDown={handleKeyDown}
+        onFocus={(e) => setKeyboardActive(e.currentTarget.matches(':focus-visible'))}
+        onBlur={() => setKeyboardActive(false)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`absolute inset-0 w-full h-full rounded-xl opacity-50 touch-none focus:outline-none ${disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+      />
+      {keyboardActive && !disabled && (
+        <div
+          aria-hidden="true"
+          className={`absolute pointer-events-none border-2 border-dashed border-white shadow-[0_0_0_1px_rgba(0,0,0,0.6)] ${tool === 'brush' ? 'rounded-full' : ''}`}
+          style={{
+            left: `${marker.x * 100}%`,
+            top: `${marker.y * 100}%`,
+            width: `${marker.width * 100}%`,
+            height: `${marker.height * 100}%`,
+          }}
+        />
+      )}
+      <div role="status" aria-live="polite" className="sr-only">{status}</div>
+      <div className="absolute top-4 left-4 flex items-center gap-1 bg-gray-900/80 backdrop-blur-md p-1 rounded-xl border border-white/10">
+        {toolButton('brush', PaintBrushIcon)}
+        {toolButton('box', StopIcon)}
+        {toolButton('erase', BackspaceIcon)}
+        {tool !== 'box' && (
+          <input
+            type="range"
+            min={5}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            title={t('mask.brushSize')}
+            aria-label={t('mask.brushSize')}
+            className="w-20 mx-2 accent-blue-500"
+          />
+        )}
+        <button
+          onClick={clearMask}
+          disabled={!hasMask}
+          title={t('mask.clear')}
+          aria-label={t('mask.clear')}
+          className="p-2 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30"
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { OUTPUT_FORMATS, OutputFormat, OutputMimeType } from '../services/output';
+import { useI18n } from './LocaleContext';
+
+interface OutputFormatPickerProps {
+  format: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+  disabled?: boolean;
+}
+
+const OutputFormatPicker: React.FC<OutputFormatPickerProps> = ({ format, onChange, disabled }) => {
+  const { t, formatPercent } = useI18n();
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-gray-400">
+      <label className="flex items-center gap-2">
+        {t('output.format')}
+        <select
+          value={format.mimeType}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...format, mimeType: e.target.value as OutputMimeType })}
+          className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none"
+        >
+          {OUTPUT_FORMATS.map(option => (
+            <option key={option.mimeType} value={option.mimeType}>{option.mimeType === 'image/png' ? t('output.png') : option.label}</option>
+          ))}
+        </select>
+      </label>
+      {format.mimeType !== 'image/png' && (
+        <label className="flex items-center gap-2">
+          {t('output.quality', { quality: formatPercent(format.quality) })}
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.01}
+            value={format.quality}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...format, quality: Number(e.target.value) })}
+            className="accent-blue-500 w-24"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default OutputFormatPicker;
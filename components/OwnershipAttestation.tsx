@@ -0,0 +1,56 @@
+
+import React from 'react';
+import { useI18n } from './LocaleContext';
+import type { MessageKey } from '../services/i18n';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+
+interface OwnershipAttestationProps {
+  operator: string;
+  onOperatorChange: (operator: string) => void;
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+  /** What the user is vouching for: the open image or video, or every image in a batch. */
+  subject: 'image' | 'video' | 'batch';
+  disabled?: boolean;
+}
+
+const CONFIRM_LABELS: Record<OwnershipAttestationProps['subject'], MessageKey> = {
+  image: 'attestation.confirm.image',
+  video: 'attestation.confirm.video',
+  batch: 'attestation.confirm.batch',
+};
+
+const OwnershipAttestation: React.FC<OwnershipAttestationProps> = ({
+  operator, onOperatorChange, confirmed, onConfirmedChange, subject, disabled
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/30 border border-white/10 rounded-xl p-3">
+      <div className="flex items-center gap-2">
+        <ShieldCheckIcon className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+        <input
+          type="text"
+          value={operator}
+          onChange={(e) => onOperatorChange(e.target.value)}
+          disabled={disabled}
+          placeholder={t('attestation.operator')}
+          aria-label={t('attestation.operator')}
+          className="flex-1 bg-transparent border-b border-gray-700 focus:border-blue-500 outline-none text-sm py-1"
+        />
+      </div>
+      <label className="flex items-start gap-2 text-xs text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={confirmed}
+          onChange={(e) => onConfirmedChange(e.target.checked)}
+          disabled={disabled}
+          className="mt-0.5 accent-emerald-500"
+        />
+        {t(CONFIRM_LABELS[subject as OwnershipAttestationProps['subject']])}
+      </label>
+    </div>
+  );
+};
+
+export default OwnershipAttestation;
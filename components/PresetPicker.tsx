@@ -0,0 +1,191 @@
+
+import React, { useState, useRef } from 'react';
+import {
+  createPreset,
+  exportPresets,
+  fillTemplate,
+  parsePresetFile,
+  PresetError,
+  presetsFor,
+  templateVariables,
+  variableLabel
+} from '../services/presets';
+import { triggerDownload } from '../services/files';
+import { localizedPresets, MessageKey } from '../services/i18n';
+import { useI18n } from './LocaleContext';
+import type { InstructionPreset, MediaType, PresetUse } from '../types';
+import {
+  BookmarkIcon,
+  TrashIcon,
+  ArrowUpTrayIcon,
+  ArrowDownTrayIcon
+} from '@heroicons/react/24/outline';
+
+interface PresetPickerProps {
+  type: MediaType;
+  userPresets: InstructionPreset[];
+  onUserPresetsChange: (presets: InstructionPreset[]) => void;
+  value: PresetUse | null;
+  /** `instruction` is the template filled with the current values, ready for the textarea. */
+  onChange: (use: PresetUse | null, instruction: string | null) => void;
+  /** Saved as the template of a new preset; `{name}` placeholders become its variables. */
+  instruction: string;
+  disabled?: boolean;
+}
+
+const PresetPicker: React.FC<PresetPickerProps> = ({
+  type, userPresets, onUserPresetsChange, value, onChange, instruction, disabled
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [savingName, setSavingName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const available = presetsFor(type, [...localizedPresets(i18n), ...userPresets]);
+  const selected: InstructionPreset | null = (value && available.find(p => p.id === value.id)) || null;
+  const variables = selected ? templateVariables(selected.template) : [];
+
+  const select = (preset: InstructionPreset | null, values: Record<string, string> = {}) => {
+    if (!preset) return onChange(null, null);
+    onChange({ id: preset.id, name: preset.name, values }, fillTemplate(preset.template, values));
+  };
+
+  const handleSave = () => {
+    const name = savingName?.trim();
+    if (!name || !instruction.trim()) return;
+    const preset = createPreset(name, instruction, [type]);
+    onUserPresetsChange([...userPresets, preset]);
+    setSavingName(null);
+    select(preset);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    onUserPresetsChange(userPresets.filter(p => p.id !== selected.id));
+    onChange(null, null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportPresets(userPresets)], { type: 'application/json' }));
+    triggerDownload(url, 'clearcast-presets.json');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      onUserPresetsChange([...userPresets, ...parsePresetFile(await file.text())]);
+    } catch (err) {
+      if (!(err instanceof PresetError)) console.error("Preset Import Error:", err);
+      setError(err instanceof PresetError ? err.message : t('preset.error.import'));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <label className="flex items-center gap-2 flex-1 min-w-0">
+          {t('preset.label')}
+          <select
+            value={selected?.id || ''}
+            disabled={disabled}
+            onChange={(e) => select(available.find(p => p.id === e.target.value) || null)}
+            className="flex-1 min-w-0 bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none"
+          >
+            <option value="">{t('preset.custom')}</option>
+            {available.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.builtIn ? preset.name : t('preset.mine', { name: preset.name })}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => setSavingName(savingName === null ? '' : null)}
+          disabled={disabled || !instruction.trim()}
+          title={t('preset.save')}
+          className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30"
+        >
+          <BookmarkIcon className="w-4 h-4" />
+        </button>
+        {selected && !selected.builtIn && (
+          <button
+            onClick={handleDelete}
+            disabled={disabled}
+            title={t('preset.delete')}
+            className="p-1.5 rounded-lg hover:bg-white/5 hover:text-red-400 disabled:opacity-30"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          title={t('preset.import')}
+          className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30"
+        >
+          <ArrowUpTrayIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={userPresets.length === 0}
+          title={t('preset.export')}
+          className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30"
+        >
+          <ArrowDownTrayIcon className="w-4 h-4" />
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {savingName !== null && (
+        <div className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={savingName}
+            onChange={(e) => setSavingName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') setSavingName(null); }}
+            placeholder={t('preset.name')}
+            aria-label={t('preset.name')}
+            className="flex-1 bg-black/50 border border-gray-700 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!savingName.trim()}
+            className="text-xs bg-white/10 hover:bg-white/20 disabled:opacity-30 px-3 py-1.5 rounded-lg"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      )}
+      {savingName !== null && (
+        <p className="text-[11px] text-gray-500">{t('preset.placeholderHelp')}</p>
+      )}
+
+      {variables.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {variables.map(name => (
+            <label key={name} className="flex flex-col gap-1 text-xs text-gray-400">
+              {i18n.has(`preset.variable.${name}`) ? t(`preset.variable.${name}` as MessageKey) : variableLabel(name)}
+              <input
+                value={value?.values[name] || ''}
+                disabled={disabled}
+                onChange={(e) => select(selected, { ...value?.values, [name]: e.target.value })}
+                className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white outline-none focus:border-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p role="alert" className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default PresetPicker;
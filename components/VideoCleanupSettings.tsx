@@ -0,0 +1,123 @@
+
+import React from 'react';
+import type { VideoTimeRange } from '../services/video';
+import { useI18n } from './LocaleContext';
+
+export type VideoMode = 'cleanup' | 'regenerate';
+
+interface VideoCleanupSettingsProps {
+  mode: VideoMode;
+  onModeChange: (mode: VideoMode) => void;
+  duration: number;
+  range: VideoTimeRange;
+  onRangeChange: (range: VideoTimeRange) => void;
+  fps: number;
+  onFpsChange: (fps: number) => void;
+  smoothing: number;
+  onSmoothingChange: (smoothing: number) => void;
+  disabled?: boolean;
+}
+
+const FPS_OPTIONS = [12, 24, 30];
+
+const VideoCleanupSettings: React.FC<VideoCleanupSettingsProps> = ({
+  mode,
+  onModeChange,
+  duration,
+  range,
+  onRangeChange,
+  fps,
+  onFpsChange,
+  smoothing,
+  onSmoothingChange,
+  disabled
+}) => {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const step = duration > 0 ? Math.min(0.1, duration / 100) : 0.1;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex bg-black/40 p-1 rounded-xl border border-white/10 text-xs font-medium">
+        <button
+          onClick={() => onModeChange('cleanup')}
+          disabled={disabled}
+          className={`flex-1 px-3 py-2 rounded-lg transition-all ${mode === 'cleanup' ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+        >
+          {t('video.mode.cleanup')}
+        </button>
+        <button
+          onClick={() => onModeChange('regenerate')}
+          disabled={disabled}
+          className={`flex-1 px-3 py-2 rounded-lg transition-all ${mode === 'regenerate' ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+        >
+          {t('video.mode.regenerate')}
+        </button>
+      </div>
+
+      {mode === 'cleanup' ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs text-gray-400">
+          <label className="flex flex-col gap-1">
+            <span>{t('video.start', { seconds: formatNumber(range.start, 1) })}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={step}
+              value={range.start}
+              disabled={disabled}
+              onChange={(e) => onRangeChange({ start: Math.min(Number(e.target.value), range.end), end: range.end })}
+              className="accent-purple-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>{t('video.end', { seconds: formatNumber(range.end, 1) })}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={step}
+              value={range.end}
+              disabled={disabled}
+              onChange={(e) => onRangeChange({ start: range.start, end: Math.max(Number(e.target.value), range.start) })}
+              className="accent-purple-500"
+            />
+          </label>
+          <div className="flex gap-4">
+            <label className="flex flex-col gap-1">
+              <span>{t('video.fps')}</span>
+              <select
+                value={fps}
+                disabled={disabled}
+                onChange={(e) => onFpsChange(Number(e.target.value))}
+                className="bg-black/50 border border-gray-700 rounded-lg px-2 py-1 text-white outline-none"
+              >
+                {FPS_OPTIONS.map(option => (
+                  <option key={option} value={option}>{t('video.fpsOption', { fps: option })}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 flex-1">
+              <span>{t('video.smoothing', { amount: formatPercent(smoothing) })}</span>
+              <input
+                type="range"
+                min={0}
+                max={0.9}
+                step={0.05}
+                value={smoothing}
+                disabled={disabled}
+                onChange={(e) => onSmoothingChange(Number(e.target.value))}
+                className="accent-purple-500"
+              />
+            </label>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {t('video.regenerateHelp')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VideoCleanupSettings;
@@ -0,0 +1,32 @@
+import axe from "axe-core";
+
+// Helpers for the component tests, which run under jsdom.
+
+// The page gets these from Tailwind's CDN build, which jsdom does not load. axe
+// needs them to tell hidden file inputs and screen-reader-only text apart.
+const PAGE_STYLES = `
+.hidden { display: none; }
+.sr-only { position: absolute; width: 1px; height: 1px; padding: 0; margin: -1px; overflow: hidden; clip: rect(0, 0, 0, 0); white-space: nowrap; border-width: 0; }
+`;
+
+const addPageStyles = () => {
+  if (document.getElementById('clearcast-test-styles')) return;
+  const style = document.createElement('style');
+  style.id = 'clearcast-test-styles';
+  style.textContent = PAGE_STYLES;
+  document.head.appendChild(style);
+};
+
+/**
+ * axe's findings for `root`, one line per element, so a failing test names the
+ * rule and the markup. Colour contrast is left out: jsdom does no layout, so
+ * axe cannot work out which colours end up behind the text.
+ */
+export async function accessibilityViolations(root: Element): Promise<string[]> {
+  addPageStyles();
+  const { violations } = await axe.run(root, { rules: { 'color-contrast': { enabled: false } } });
+  return violations.flatMap(violation => violation.nodes.map(node => `${violation.id}: ${violation.help} ${node.html}`));
+}
+
+/** A 2×2 PNG, small enough to inline and valid for anything that checks the header. */
+export const TINY_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAACCAYAAABytg0kAAAAEUlEQVR4AWM8AQQMQMDEAAUAMKYDJOk+9mYAAAAASUVORK5CYII=';
@@ -0,0 +1,16 @@
+/**
+ * Browser entry point for host applications: the editor as a React component,
+ * and a client for driving it in an iframe instead (see services/embedProtocol.ts).
+ */
+
+export { default as ClearCastEditor } from './components/ClearCastEditor';
+export type { ClearCastEditorProps } from './components/ClearCastEditor';
+export { connectEmbed, EMBED_PROTOCOL, EMBED_PROTOCOL_VERSION } from './services/embedProtocol';
+export type { ConfigureOptions, EditorMessage, EmbedClient, EmbedClientOptions, HostMessage } from './services/embedProtocol';
+export { createAiStudioAdapter } from './services/aistudio';
+export type { AiStudioGlobal, KeyAdapter } from './services/aistudio';
+export type { ProviderConfig } from './services/providers';
+export type { CleanupFailure } from './services/errors';
+export { LOCALES } from './services/i18n';
+export type { Locale } from './services/i18n';
+export type { EditorResult, EditorTheme } from './types';
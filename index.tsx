@@ -2,15 +2,24 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import EmbeddedEditor from './components/EmbeddedEditor';
+import { parseOrigins } from './services/embedProtocol';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// `?embed&origin=<host origin>` runs the bare editor for an iframe, driven over postMessage.
+const params = new URLSearchParams(window.location.search);
+const embedOrigins = parseOrigins(import.meta.env.VITE_EMBED_ORIGINS);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {params.has('embed') ? <EmbeddedEditor requestedOrigin={params.get('origin')} allowedOrigins={embedOrigins} /> : <App />}
   </React.StrictMode>
 );
+
+registerServiceWorker();
@@ -0,0 +1,18 @@
+#!/usr/bin/env tsx
+// Compares every locale catalog with the English one and exits 1 when a key,
+// plural form or placeholder is missing or unexpected.
+import { CATALOGS, checkCatalog, DEFAULT_LOCALE, LOCALES } from "../services/i18n";
+
+let failed = false;
+for (const { id } of LOCALES) {
+  if (id === DEFAULT_LOCALE) continue;
+  const problems = checkCatalog(id, CATALOGS[id]);
+  if (problems.length) {
+    failed = true;
+    console.error(`locales/${id}.json:`);
+    problems.forEach(problem => console.error(`  ${problem}`));
+  } else {
+    console.log(`locales/${id}.json: ok`);
+  }
+}
+process.exit(failed ? 1 : 0);
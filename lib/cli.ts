@@ -0,0 +1,207 @@
+#!/usr/bin/env tsx
+import { parseArgs } from "node:util";
+import { existsSync, readFileSync } from "node:fs";
+import { createBatchQueue, BatchItem } from "../services/batch";
+import { isTransientError } from "../services/errors";
+import { mimeTypeForFileName } from "../services/files";
+import { MAX_CANDIDATES } from "../services/candidates";
+import type { ProviderId } from "../services/inpainting";
+import type { QualityScore } from "../services/quality";
+import { cleanFile, CleanFileResult, createNodeProvider, DEFAULT_INSTRUCTION, expandGlob, loadMask, NODE_IMAGE_TYPES, OutputFormat, outputPathFor } from "./index";
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: clearcast clean <file|glob>... [options]
+
+Removes watermarks from PNG/JPEG images and writes the results, with provenance
+metadata embedded, to the output directory as <name>-clean.<ext>. Images larger
+than the provider's input size are cleaned in tiles at full resolution.
+
+Options:
+  -i, --instruction <text>  What to remove (Gemini only)
+  -m, --mask <file>         Mask image: white on black, or painted over transparency
+  -o, --out <dir>           Output directory (default: ./clean)
+  -f, --format <type>       png or jpeg (default: png)
+  -q, --quality <0-100>     JPEG quality (default: 92)
+  -p, --provider <id>       gemini or local (default: gemini; local needs --mask)
+      --candidates <1-4>    Results to generate per file; the best scoring one
+                            is saved (default: 1)
+      --judge               Let the model rate the candidates too
+      --server <url>        ClearCast server to go through (or CLEARCAST_SERVER);
+                            otherwise GEMINI_API_KEY is used directly
+      --operator <name>     Who is attesting ownership of the files
+      --attest              Confirm you own or are licensed to edit every file
+  -c, --concurrency <n>     Files processed in parallel (default: 2)
+      --retries <n>         Automatic retries per file (default: 1)
+      --json                Print a JSON report to stdout instead of text
+      --dry-run             List what would be processed and exit
+  -h, --help                Show this help
+
+Exit codes: 0 all files cleaned, 1 some files failed, 2 usage or setup error.`;
+
+interface FileReport {
+  input: string;
+  output: string | null;
+  status: 'cleaned' | 'failed' | 'planned';
+  error?: string;
+  attempts?: number;
+  originalHash?: string;
+  resultHash?: string;
+  score?: QualityScore | null;
+}
+
+// Same convention as the server: values already in the environment win over .env.local.
+const loadEnvFile = (file: string) => {
+  if (!existsSync(file)) return;
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+};
+
+class UsageError extends Error {}
+
+const parseCount = (value: string, name: string, min: number) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) throw new UsageError(`--${name} must be a whole number of at least ${min}.`);
+  return n;
+};
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      instruction: { type: 'string', short: 'i' },
+      mask: { type: 'string', short: 'm' },
+      out: { type: 'string', short: 'o', default: 'clean' },
+      format: { type: 'string', short: 'f', default: 'png' },
+      quality: { type: 'string', short: 'q', default: '92' },
+      provider: { type: 'string', short: 'p', default: 'gemini' },
+      candidates: { type: 'string', default: '1' },
+      judge: { type: 'boolean', default: false },
+      server: { type: 'string' },
+      operator: { type: 'string' },
+      attest: { type: 'boolean', default: false },
+      concurrency: { type: 'string', short: 'c', default: '2' },
+      retries: { type: 'string', default: '1' },
+      json: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...patterns] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (command !== 'clean') throw new UsageError(`Unknown command "${command}".`);
+  if (patterns.length === 0) throw new UsageError("Give at least one file or glob to clean.");
+
+  const providerId = values.provider as ProviderId;
+  if (providerId !== 'gemini' && providerId !== 'local') throw new UsageError(`Unknown provider "${values.provider}".`);
+  if (providerId === 'local' && !values.mask) throw new UsageError("The local provider needs --mask.");
+  const concurrency = parseCount(values.concurrency!, 'concurrency', 1);
+  const retries = parseCount(values.retries!, 'retries', 0);
+  if (values.format !== 'png' && values.format !== 'jpeg') throw new UsageError(`Unknown format "${values.format}". Use png or jpeg.`);
+  const quality = parseCount(values.quality!, 'quality', 1);
+  if (quality > 100) throw new UsageError("--quality must be between 1 and 100.");
+  const candidates = parseCount(values.candidates!, 'candidates', 1);
+  if (candidates > MAX_CANDIDATES) throw new UsageError(`--candidates must be between 1 and ${MAX_CANDIDATES}.`);
+  const format: OutputFormat = { mimeType: `image/${values.format}` as OutputFormat['mimeType'], quality: quality / 100 };
+
+  // Folders and globs skip whatever else sits next to the images; a file named on its own fails with a reason.
+  const isImage = (file: string) => NODE_IMAGE_TYPES.includes(mimeTypeForFileName(file));
+  const matches = await Promise.all(patterns.map(pattern => expandGlob(pattern, isImage)));
+  const unmatched = patterns.find((_, i) => matches[i].length === 0);
+  if (unmatched) throw new UsageError(`No PNG or JPEG images matched ${unmatched}.`);
+  const files = [...new Set(matches.flat())];
+  const outDir = values.out!;
+  const json = values.json;
+
+  // Outputs are named after the file alone, so a/shot.jpg and b/shot.png would overwrite each other.
+  const planned = new Map<string, string>();
+  for (const input of files) {
+    const output = outputPathFor(input, outDir, format.mimeType);
+    const other = planned.get(output);
+    if (other) throw new UsageError(`${other} and ${input} would both be saved as ${output}. Clean them in separate runs with different --out folders.`);
+    planned.set(output, input);
+  }
+
+  if (values['dry-run']) {
+    const report: FileReport[] = files.map(input => ({ input, output: outputPathFor(input, outDir, format.mimeType), status: 'planned' }));
+    if (json) console.log(JSON.stringify({ dryRun: true, files: report }, null, 2));
+    else report.forEach(file => console.log(`${file.input} -> ${file.output}`));
+    return EXIT_OK;
+  }
+
+  const operator = values.operator?.trim();
+  if (!values.attest || !operator) {
+    throw new UsageError("Confirm you own or are licensed to edit these files with --attest --operator <name>.");
+  }
+
+  loadEnvFile('.env.local');
+  const provider = createNodeProvider({
+    provider: providerId,
+    server: values.server || process.env.CLEARCAST_SERVER,
+    apiKey: process.env.GEMINI_API_KEY,
+    geminiBaseUrl: process.env.GEMINI_BASE_URL,
+    clientId: process.env.CLEARCAST_CLIENT_ID,
+  });
+  const mask = values.mask ? await loadMask(values.mask) : null;
+  const instruction = values.instruction || DEFAULT_INSTRUCTION;
+
+  const results = new Map<string, CleanFileResult>();
+  const items = await new Promise<BatchItem[]>(resolve => {
+    const queue = createBatchQueue({
+      concurrency,
+      maxRetries: retries,
+      shouldRetry: isTransientError,
+      process: async (item) => {
+        const result = await cleanFile({ input: item.source, outDir, provider, instruction, mask, operator, format, candidates, judge: values.judge });
+        results.set(item.id, result);
+        return result.outputPath;
+      },
+      onChange: (current) => {
+        if (current.every(item => item.status === 'done' || item.status === 'failed')) resolve(current);
+      },
+      onItemDone: (item) => {
+        const score = results.get(item.id)?.score;
+        if (!json) console.error(`cleaned ${item.source} -> ${item.result}${score ? ` (score ${Math.round(score.overall * 100)})` : ''}`);
+      },
+    });
+    queue.add(files.map(file => ({ name: file, mimeType: mimeTypeForFileName(file), source: file })));
+    queue.start();
+  });
+
+  const report: FileReport[] = items.map(item => {
+    const result = results.get(item.id);
+    return item.status === 'done' && result
+      ? { input: item.source, output: result.outputPath, status: 'cleaned', attempts: item.attempts, originalHash: result.provenance.originalHash, resultHash: result.provenance.resultHash, score: result.score }
+      : { input: item.source, output: null, status: 'failed', attempts: item.attempts, error: item.error };
+  });
+  const failed = report.filter(file => file.status === 'failed');
+
+  if (json) {
+    console.log(JSON.stringify({ provider: provider.id, model: provider.imageModel, operator, files: report }, null, 2));
+  } else {
+    failed.forEach(file => console.error(`failed  ${file.input}: ${file.error}`));
+    console.error(`${report.length - failed.length} of ${report.length} files cleaned.`);
+  }
+  return failed.length ? EXIT_FAILED : EXIT_OK;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  (err: any) => {
+    const usage = err instanceof UsageError || err?.code?.startsWith?.('ERR_PARSE_ARGS');
+    console.error(`clearcast: ${err?.message || err}`);
+    if (usage) console.error("Run clearcast --help for usage.");
+    process.exit(usage ? EXIT_USAGE : EXIT_FAILED);
+  }
+);
@@ -0,0 +1,40 @@
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import { bytesToBase64, dataUrlToBytes, mimeTypeOfDataUrl } from "../services/files";
+import type { ImageCodec, Raster } from "../services/raster";
+
+/** Formats the Node codec can decode. Anything else has to be converted first. */
+export const NODE_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+/** Pure-JS PNG/JPEG codec for Node, standing in for the browser's canvas. */
+export const nodeCodec: ImageCodec = {
+  async decode(dataUrl: string): Promise<Raster> {
+    const mimeType = mimeTypeOfDataUrl(dataUrl);
+    const bytes = Buffer.from(dataUrlToBytes(dataUrl));
+    if (mimeType === 'image/png') {
+      const { width, height, data } = PNG.sync.read(bytes);
+      return { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+    }
+    if (mimeType === 'image/jpeg') {
+      const { width, height, data } = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+      return { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+    }
+    throw new Error(`Cannot decode ${mimeType} outside the browser. Convert it to PNG or JPEG first.`);
+  },
+  encodePng(raster: Raster): Promise<string> {
+    return nodeCodec.encode(raster, 'image/png');
+  },
+  async encode({ width, height, data }: Raster, mimeType: string, quality: number = 0.92): Promise<string> {
+    const pixels = Buffer.from(data.buffer, data.byteOffset, data.length);
+    if (mimeType === 'image/png') {
+      const png = new PNG({ width, height });
+      png.data = pixels;
+      return `data:image/png;base64,${bytesToBase64(PNG.sync.write(png))}`;
+    }
+    if (mimeType === 'image/jpeg') {
+      const { data: jpegBytes } = jpeg.encode({ width, height, data: pixels }, Math.round(quality * 100));
+      return `data:image/jpeg;base64,${bytesToBase64(jpegBytes)}`;
+    }
+    throw new Error(`Cannot encode ${mimeType} outside the browser. Use PNG or JPEG.`);
+  },
+};
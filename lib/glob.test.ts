@@ -0,0 +1,36 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { expandGlob } from "./glob";
+
+const isImage = (file: string) => /\.(png|jpe?g)$/i.test(file);
+
+describe('expandGlob', () => {
+  let root: string;
+  const at = (...parts: string[]) => path.join(root, ...parts).split(path.sep).join('/');
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'clearcast-glob-'));
+    await mkdir(path.join(root, 'shots', 'raw'), { recursive: true });
+    for (const name of ['shots/a.png', 'shots/b.JPG', 'shots/notes.txt', 'shots/.DS_Store', 'shots/raw/c.jpeg', 'shots/raw/d.heic']) {
+      await writeFile(path.join(root, name), '');
+    }
+  });
+
+  afterAll(() => rm(root, { recursive: true, force: true }));
+
+  it('keeps only included files from a folder', async () => {
+    expect((await expandGlob(at('shots'), isImage)).sort()).toEqual([at('shots/a.png'), at('shots/b.JPG'), at('shots/raw/c.jpeg')]);
+  });
+
+  it('keeps only included files from a wildcard', async () => {
+    expect(await expandGlob(at('shots/**/*'), isImage)).toEqual([at('shots/a.png'), at('shots/b.JPG'), at('shots/raw/c.jpeg')]);
+    expect(await expandGlob(at('shots/*'), isImage)).toEqual([at('shots/a.png'), at('shots/b.JPG')]);
+  });
+
+  it('returns a file named on its own even when it is not included', async () => {
+    expect(await expandGlob(at('shots/notes.txt'), isImage)).toEqual([at('shots/notes.txt')]);
+    expect(await expandGlob(at('shots/missing.png'), isImage)).toEqual([]);
+  });
+});
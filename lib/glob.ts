@@ -0,0 +1,56 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+const globToRegExp = (pattern: string) => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more directories.
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : Promise.resolve([full]);
+  }));
+  return nested.flat();
+};
+
+/**
+ * Expands `*`, `?` and `**` against the file system; paths without wildcards are
+ * returned as-is if they exist. Node 20 has no fs.glob, and shells don't expand
+ * quoted patterns, so this covers both.
+ *
+ * `include` filters what folders and wildcards turn up. A path naming a single
+ * file is returned whatever `include` says, so the caller can report it.
+ */
+export async function expandGlob(pattern: string, include: (file: string) => boolean = () => true): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join('/');
+  if (!/[*?]/.test(normalized)) {
+    const info = await stat(normalized).catch(() => null);
+    if (!info) return [];
+    return info.isDirectory() ? (await walk(normalized)).filter(include) : [normalized];
+  }
+
+  const segments = normalized.split('/');
+  const firstWild = segments.findIndex(segment => /[*?]/.test(segment));
+  const root = segments.slice(0, firstWild).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const matcher = globToRegExp(segments.slice(firstWild).join('/'));
+  const files = await walk(root).catch(() => [] as string[]);
+  return files
+    .filter(file => matcher.test(path.relative(root, file).split(path.sep).join('/')) && include(file))
+    .sort();
+}
@@ -0,0 +1,93 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { cleanImage, CleanupResult } from "../services/cleanup";
+import { baseName, bytesToBase64, extensionForMimeType, mimeTypeForFileName } from "../services/files";
+import { createGeminiProvider, createProxyClient } from "../services/gemini";
+import { createLocalProvider } from "../services/local";
+import { DEFAULT_INSTRUCTION } from "../services/presets";
+import { normalizeMask } from "../services/raster";
+import { createGeminiBackend, DEFAULT_BASE_URL } from "../services/geminiBackend";
+import { NODE_IMAGE_TYPES, nodeCodec } from "./codec";
+import type { InpaintingProvider, ProviderId } from "../services/inpainting";
+import type { OutputFormat } from "../services/output";
+
+/**
+ * Programmatic entry point for build scripts and asset pipelines. Runs the same
+ * providers, compositing and provenance as the app, without a browser.
+ */
+
+export { cleanImage, DEFAULT_INSTRUCTION, nodeCodec, NODE_IMAGE_TYPES };
+export { expandGlob } from "./glob";
+export type { CleanupOptions, CleanupResult } from "../services/cleanup";
+export type { InpaintingProvider, ProviderId } from "../services/inpainting";
+export type { OutputFormat } from "../services/output";
+export type { ProvenanceRecord } from "../services/provenance";
+export type { QualityScore } from "../services/quality";
+
+export interface NodeProviderOptions {
+  provider: ProviderId;
+  /** URL of a running ClearCast server (npm run server). Takes precedence over `apiKey`. */
+  server?: string;
+  /** Calls Gemini directly with this key when no server is given. */
+  apiKey?: string;
+  /** Overrides the Gemini host, e.g. the local stub. */
+  geminiBaseUrl?: string;
+  /** Identifies this machine to the server's rate limits. */
+  clientId?: string;
+}
+
+export function createNodeProvider({ provider, server, apiKey, geminiBaseUrl, clientId = 'clearcast-cli' }: NodeProviderOptions): InpaintingProvider {
+  if (provider === 'local') return createLocalProvider(nodeCodec);
+  if (server) {
+    return createGeminiProvider({ api: createProxyClient({ baseUrl: server.replace(/\/$/, ''), clientId: () => clientId }), codec: nodeCodec });
+  }
+  if (!apiKey) throw new Error("Gemini needs either a ClearCast server URL or GEMINI_API_KEY.");
+  return createGeminiProvider({ api: createGeminiBackend({ apiKey, baseUrl: geminiBaseUrl || DEFAULT_BASE_URL }), codec: nodeCodec });
+}
+
+/** Reads a mask file (black/white or transparent-painted PNG/JPEG) into the editor's form. */
+export async function loadMask(file: string): Promise<string> {
+  const mimeType = mimeTypeForFileName(file);
+  const raster = await nodeCodec.decode(`data:${mimeType};base64,${bytesToBase64(await readFile(file))}`);
+  return nodeCodec.encodePng(normalizeMask(raster));
+}
+
+export interface CleanFileOptions {
+  input: string;
+  outDir: string;
+  provider: InpaintingProvider;
+  instruction?: string;
+  /** Data URL from loadMask. */
+  mask?: string | null;
+  operator: string;
+  /** PNG or JPEG; by default the result is saved in whatever format the provider returned. */
+  format?: OutputFormat;
+  /** Results to generate and score; the best one is saved. */
+  candidates?: number;
+  judge?: boolean;
+}
+
+export interface CleanFileResult extends CleanupResult {
+  input: string;
+  outputPath: string;
+}
+
+/** Output name for an input, matching the batch panel's downloads: "shot.jpg" -> "shot-clean.png". */
+export const outputPathFor = (input: string, outDir: string, mimeType: string): string =>
+  path.join(outDir, `${baseName(path.basename(input))}-clean.${extensionForMimeType(mimeType)}`);
+
+export async function cleanFile({
+  input, outDir, provider, instruction = DEFAULT_INSTRUCTION, mask, operator, format, candidates, judge
+}: CleanFileOptions): Promise<CleanFileResult> {
+  const mimeType = mimeTypeForFileName(input);
+  if (!NODE_IMAGE_TYPES.includes(mimeType)) {
+    throw new Error(`Unsupported file type ${mimeType}. Only PNG and JPEG images can be cleaned from the command line.`);
+  }
+  const image = new Blob([await readFile(input)], { type: mimeType });
+  const result = await cleanImage({ image, provider, instruction, mask, operator, format, codec: nodeCodec, candidates, judge });
+
+  const outputPath = outputPathFor(input, outDir, result.mimeType);
+  await mkdir(outDir, { recursive: true });
+  await writeFile(outputPath, new Uint8Array(await result.output.arrayBuffer()));
+  return { ...result, input, outputPath };
+}
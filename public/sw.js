@@ -0,0 +1,78 @@
+// Service worker: keeps the app shell available offline. Requests to /api always
+// go to the network; cleanups queued while offline are retried by the page (see
+// services/offlineQueue.ts), since they need its canvas and the history database.
+
+// Bump to drop every cached file on the next visit.
+const VERSION = 'v1';
+const SHELL_CACHE = `clearcast-shell-${VERSION}`;
+const RUNTIME_CACHE = `clearcast-runtime-${VERSION}`;
+
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-192.png'];
+
+// Modules, styles and fonts the page loads through its import map and <head>.
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cross-origin scripts without CORS come back opaque; they are still worth keeping.
+const cacheable = (response) => response.ok || response.type === 'opaque';
+
+/** Answers from the cache straight away and refreshes the copy in the background. */
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const fresh = fetch(request).then(response => {
+    if (cacheable(response)) cache.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return fresh;
+  fresh.catch(() => {});
+  return cached;
+};
+
+/** Pages come from the network when it is there, so a deploy shows up on the next load. */
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('/', response.clone());
+    return response;
+  } catch (err) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (sameOrigin && url.pathname.startsWith('/api/')) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (sameOrigin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Clicking a "cleanup finished" notification brings the app back.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => new URL(client.url).origin === self.location.origin);
+      return open ? open.focus() : self.clients.openWindow('/');
+    })
+  );
+});
@@ -0,0 +1,101 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { DETECTION_MODEL, JUDGE_MODEL } from "../services/proxyApi";
+
+/**
+ * Stand-in for the Gemini REST endpoints the server uses, so the proxy can be
+ * exercised without a key or quota. Run it, then start the server with
+ * GEMINI_BASE_URL=http://localhost:8788 and any GEMINI_API_KEY.
+ *
+ * - generateContent echoes the first image back, returns one fixed detection, or
+ *   rates judged candidates 8, 7, 6... in the order they were sent.
+ *   Instructions containing [stub:safety], [stub:text], [stub:quota], [stub:flaky]
+ *   or [stub:auth] simulate a safety block, a text-only reply, an exhausted quota,
+ *   a 503 that succeeds on the next attempt and a rejected API key.
+ * - Veo operations report done after POLLS_UNTIL_DONE polls.
+ * - Downloads return a few bytes labelled video/mp4.
+ */
+
+const PORT = Number(process.env.STUB_PORT) || 8788;
+const POLLS_UNTIL_DONE = 2;
+const polls = new Map<string, number>();
+let flakyCalls = 0;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  if (!req.headers['x-goog-api-key'] && !url.searchParams.get('key')) {
+    return sendJson(res, 401, { error: { code: 401, message: 'API key missing.', status: 'UNAUTHENTICATED' } });
+  }
+
+  const generate = url.pathname.match(/^\/v1beta\/models\/([^/:]+):generateContent$/);
+  if (req.method === 'POST' && generate) {
+    const body = await readJson(req);
+    const parts = body.contents?.[0]?.parts || [];
+    const images = parts.filter((part: any) => part.inlineData);
+    // The judge is the only call sending the text model more than one image.
+    if (generate[1] === JUDGE_MODEL && images.length > 1) {
+      const ratings = images.slice(1).map((_: unknown, i: number) => ({ candidate: i + 1, score: Math.max(0, 8 - i) }));
+      return sendJson(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(ratings) }] } }] });
+    }
+    if (generate[1] === DETECTION_MODEL) {
+      const detections = [{ kind: 'logo', label: 'Stub logo', confidence: 0.9, box_2d: [850, 800, 950, 980] }];
+      return sendJson(res, 200, { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(detections) }] } }] });
+    }
+    const instruction: string = parts.find((part: any) => part.text)?.text || '';
+    if (instruction.includes('[stub:safety]')) {
+      return sendJson(res, 200, { candidates: [{ finishReason: 'IMAGE_SAFETY', content: { role: 'model', parts: [] } }] });
+    }
+    if (instruction.includes('[stub:text]')) {
+      const text = "I can't edit this image because removing the watermark could infringe on the owner's rights.";
+      return sendJson(res, 200, { candidates: [{ finishReason: 'STOP', content: { role: 'model', parts: [{ text }] } }] });
+    }
+    if (instruction.includes('[stub:quota]')) {
+      return sendJson(res, 429, { error: { code: 429, message: 'You exceeded your current quota.', status: 'RESOURCE_EXHAUSTED' } });
+    }
+    if (instruction.includes('[stub:auth]')) {
+      return sendJson(res, 400, { error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' } });
+    }
+    if (instruction.includes('[stub:flaky]') && flakyCalls++ % 2 === 0) {
+      return sendJson(res, 503, { error: { code: 503, message: 'The model is overloaded.', status: 'UNAVAILABLE' } });
+    }
+    return sendJson(res, 200, { candidates: [{ content: { role: 'model', parts: [{ inlineData: images[0]?.inlineData }] } }] });
+  }
+
+  const predict = url.pathname.match(/^\/v1beta\/models\/([^/:]+):predictLongRunning$/);
+  if (req.method === 'POST' && predict) {
+    const name = `models/${predict[1]}/operations/stub-${Date.now().toString(36)}`;
+    polls.set(name, 0);
+    return sendJson(res, 200, { name });
+  }
+
+  const operation = url.pathname.match(/^\/v1beta\/(models\/[^/]+\/operations\/[^/]+)$/);
+  if (req.method === 'GET' && operation) {
+    const name = operation[1];
+    const count = (polls.get(name) ?? POLLS_UNTIL_DONE) + 1;
+    polls.set(name, count);
+    if (count < POLLS_UNTIL_DONE) return sendJson(res, 200, { name });
+    const uri = `http://localhost:${PORT}/v1beta/files/${encodeURIComponent(name.split('/').pop()!)}:download?alt=media`;
+    return sendJson(res, 200, { name, done: true, response: { generateVideoResponse: { generatedSamples: [{ video: { uri } }] } } });
+  }
+
+  if (req.method === 'GET' && /^\/v1beta\/files\/[^/]+:download$/.test(url.pathname)) {
+    res.writeHead(200, { 'content-type': 'video/mp4' });
+    return res.end(Buffer.from('stub video'));
+  }
+
+  sendJson(res, 404, { error: { code: 404, message: `No stub for ${req.method} ${url.pathname}`, status: 'NOT_FOUND' } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini stub listening on http://localhost:${PORT}`);
+});
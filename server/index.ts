@@ -0,0 +1,252 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import { Readable } from "node:stream";
+import type { ReadableStream } from "node:stream/web";
+import { createGeminiBackend, DEFAULT_BASE_URL } from "../services/geminiBackend";
+import { checkAll, createJobTracker, createRateLimiter, Limit } from "./limits";
+import { detectProblem, ID, inpaintProblem, judgeProblem, startVideoProblem } from "./validate";
+import {
+  API_ROUTES,
+  CLIENT_ID_HEADER,
+  ApiErrorBody,
+  ApiErrorKind,
+  DetectBody,
+  InpaintBody,
+  JudgeBody,
+  StartVideoBody
+} from "../services/proxyApi";
+
+/** Same file Vite reads, so one .env.local serves both. Variables already set win. */
+const loadEnvFile = (file: string) => {
+  if (!existsSync(file)) return;
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+};
+loadEnvFile('.env.local');
+
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_BODY_BYTES = 30 * 1024 * 1024;
+// Pages on other origins that may call the API, e.g. a CMS embedding <ClearCastEditor>.
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+// Behind a reverse proxy every request comes from the proxy; it must then pass the caller on in X-Forwarded-For.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+// How many clients' worth of requests one IP may send, for offices and homes sharing an address.
+const IP_LIMIT_FACTOR = Math.max(1, Number(process.env.LIMIT_IP_FACTOR) || 1);
+
+if (!API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Put it in .env.local or the environment.");
+  process.exit(1);
+}
+
+type Bucket = 'image' | 'part' | 'video' | 'poll' | 'download';
+
+const limitFromEnv = (name: string, perMinute: number, perDay: number): Limit => ({
+  perMinute: Number(process.env[`${name}_PER_MINUTE`]) || perMinute,
+  perDay: Number(process.env[`${name}_PER_DAY`]) || perDay,
+});
+
+const LIMITS: Record<Bucket, Limit> = {
+  image: limitFromEnv('LIMIT_IMAGE', 20, 300),
+  // Further tiles and video frames of a cleanup already counted under `image`.
+  part: limitFromEnv('LIMIT_PART', 120, 3000),
+  video: limitFromEnv('LIMIT_VIDEO', 2, 10),
+  // A job polls every 10s and backs off on errors, so a handful of parallel jobs fit comfortably.
+  poll: limitFromEnv('LIMIT_POLL', 60, 5000),
+  download: limitFromEnv('LIMIT_DOWNLOAD', 10, 100),
+};
+
+const scaled = (limits: Record<Bucket, Limit>, factor: number) => Object.fromEntries(
+  Object.entries(limits).map(([bucket, { perMinute, perDay }]) => [bucket, { perMinute: perMinute * factor, perDay: perDay * factor }])
+) as Record<Bucket, Limit>;
+
+const clientLimiter = createRateLimiter<Bucket>(LIMITS);
+const ipLimiter = createRateLimiter<Bucket>(scaled(LIMITS, IP_LIMIT_FACTOR));
+const jobs = createJobTracker();
+
+const gemini = createGeminiBackend({ apiKey: API_KEY, baseUrl: process.env.GEMINI_BASE_URL || DEFAULT_BASE_URL });
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfter?: number, public kind?: ApiErrorKind) {
+    super(message);
+  }
+}
+
+/**
+ * Upstream failures that mean the server itself is misconfigured are reported as
+ * such; anything else keeps Gemini's status so the client can tell what to retry.
+ */
+const fromUpstream = (err: any): HttpError => {
+  const status = Number(err?.status) || 502;
+  let message: string = err?.message || "Upstream request failed.";
+  try {
+    // The SDK's message is the raw JSON error body.
+    message = JSON.parse(message).error?.message || message;
+  } catch {}
+  if (status === 401 || status === 403 || (status === 400 && /API key/i.test(message))) {
+    return new HttpError(502, "The server's Gemini API key was rejected.", undefined, 'auth');
+  }
+  if (status === 429) return new HttpError(429, message, undefined, /quota/i.test(message) ? 'quota' : 'rate-limit');
+  return new HttpError(status, message);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json', 'cache-control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async <T>(req: IncomingMessage, problem: (body: unknown) => string | null = () => null): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Upload is too large.");
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+  const invalid = problem(body);
+  if (invalid) throw new HttpError(400, invalid);
+  return body as T;
+};
+
+interface Caller {
+  ip: string;
+  /** Browser-generated id, when the request carries a valid one. */
+  client: string | null;
+}
+
+/**
+ * Who the limits apply to. The client id is chosen by the browser, so it only
+ * keeps honest users on one address apart; every request also counts against
+ * its IP, which a caller cannot change per request.
+ */
+const callerOf = (req: IncomingMessage, url: URL): Caller => {
+  const forwarded = TRUST_PROXY && req.headers['x-forwarded-for'];
+  // The proxy appends the address it saw, so the last entry is the one it vouches for.
+  const ip = typeof forwarded === 'string' && forwarded.split(',').pop()!.trim() || req.socket.remoteAddress || 'unknown';
+  const id = req.headers[CLIENT_ID_HEADER] || url.searchParams.get('client');
+  return { ip, client: typeof id === 'string' && ID.test(id) ? id : null };
+};
+
+const enforce = ({ ip, client }: Caller, bucket: Bucket) => {
+  const rejection = checkAll(client ? [[ipLimiter, ip], [clientLimiter, client]] : [[ipLimiter, ip]], bucket);
+  if (!rejection) return;
+  const message = rejection.reason === 'quota'
+    ? "Daily quota reached. Try again tomorrow."
+    : "Too many requests. Please slow down.";
+  throw new HttpError(429, message, rejection.retryAfter, rejection.reason === 'quota' ? 'quota' : 'rate-limit');
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const caller = callerOf(req, url);
+  const route = `${req.method} ${url.pathname}`;
+
+  switch (route) {
+    case 'GET /api/health':
+      return sendJson(res, 200, { ok: true });
+
+    case `POST ${API_ROUTES.inpaint}`: {
+      const body = await readJson<InpaintBody>(req, inpaintProblem);
+      // Jobs are tied to the IP too, so a known job id cannot be borrowed from elsewhere.
+      const owner = `${caller.ip}:${caller.client}`;
+      enforce(caller, body.job && jobs.has(owner, body.job) ? 'part' : 'image');
+      if (body.job) jobs.add(owner, body.job);
+      return sendJson(res, 200, await gemini.inpaint(body));
+    }
+
+    case `POST ${API_ROUTES.detect}`: {
+      const body = await readJson<DetectBody>(req, detectProblem);
+      enforce(caller, 'image');
+      return sendJson(res, 200, await gemini.detect(body));
+    }
+
+    case `POST ${API_ROUTES.judge}`: {
+      const body = await readJson<JudgeBody>(req, judgeProblem);
+      enforce(caller, 'image');
+      return sendJson(res, 200, await gemini.judge(body));
+    }
+
+    case `POST ${API_ROUTES.startVideo}`: {
+      const body = await readJson<StartVideoBody>(req, startVideoProblem);
+      enforce(caller, 'video');
+      return sendJson(res, 200, await gemini.startVideo(body));
+    }
+
+    case `GET ${API_ROUTES.videoOperation}`: {
+      const name = url.searchParams.get('name');
+      if (!name) throw new HttpError(400, "Missing operation name.");
+      enforce(caller, 'poll');
+      return sendJson(res, 200, await gemini.getVideoOperation(name));
+    }
+
+    case `GET ${API_ROUTES.videoDownload}`: {
+      const uri = url.searchParams.get('uri');
+      if (!uri) throw new HttpError(400, "Missing video URI.");
+      // Range requests from <video> seeking count against the limit too, so only the first one does.
+      if (!req.headers.range || req.headers.range === 'bytes=0-') enforce(caller, 'download');
+      const upstream = await gemini.downloadVideo(uri, req.headers.range);
+      if (!upstream.ok && upstream.status !== 206) throw new HttpError(upstream.status, "Could not fetch the generated video.");
+      const headers: Record<string, string> = { 'cache-control': 'private, max-age=3600' };
+      for (const name of ['content-type', 'content-length', 'content-range', 'accept-ranges']) {
+        const value = upstream.headers.get(name);
+        if (value) headers[name] = value;
+      }
+      res.writeHead(upstream.status, headers);
+      if (!upstream.body) return res.end();
+      // fetch's body is typed with the DOM stream; Node's fetch returns its own web stream.
+      Readable.fromWeb(upstream.body as ReadableStream<Uint8Array>).pipe(res);
+      return;
+    }
+
+    default:
+      throw new HttpError(404, "Not found.");
+  }
+};
+
+/** Adds CORS headers for allowed origins; returns whether the request's origin is one. */
+const allowOrigin = (req: IncomingMessage, res: ServerResponse): boolean => {
+  const origin = req.headers.origin;
+  if (typeof origin !== 'string' || !ALLOWED_ORIGINS.includes(origin)) return false;
+  res.setHeader('access-control-allow-origin', origin);
+  res.setHeader('access-control-expose-headers', 'retry-after');
+  res.setHeader('vary', 'origin');
+  return true;
+};
+
+const server = createServer((req, res) => {
+  const allowed = allowOrigin(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(allowed ? 204 : 403, allowed ? {
+      'access-control-allow-methods': 'GET, POST',
+      'access-control-allow-headers': `content-type, ${CLIENT_ID_HEADER}`,
+      'access-control-max-age': '600',
+    } : {});
+    return res.end();
+  }
+  handle(req, res).catch((caught: any) => {
+    if (!(caught instanceof HttpError)) console.error("Proxy Error:", caught);
+    if (res.headersSent) return res.destroy();
+    const err = caught instanceof HttpError ? caught : fromUpstream(caught);
+    const body: ApiErrorBody = { error: err.message };
+    if (err.kind) body.kind = err.kind;
+    if (err.retryAfter) {
+      body.retryAfter = err.retryAfter;
+      res.setHeader('retry-after', String(err.retryAfter));
+    }
+    sendJson(res, err.status, body);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`ClearCast server listening on http://localhost:${PORT}`);
+});
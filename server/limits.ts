@@ -0,0 +1,100 @@
+
+export interface Limit {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface LimitRejection {
+  reason: 'rate' | 'quota';
+  /** Seconds until the window that rejected the request resets. */
+  retryAfter: number;
+}
+
+interface Usage {
+  minuteStart: number;
+  minuteCount: number;
+  dayStart: number;
+  dayCount: number;
+}
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Fixed-window request counters per user and bucket, kept in memory. A restart
+ * resets everyone's counters, which is acceptable for a single small instance.
+ */
+export function createRateLimiter<B extends string>(limits: Record<B, Limit>, now: () => number = Date.now) {
+  const usage = new Map<string, Usage>();
+
+  /** The user's counters for the bucket, with windows that have run out reset. */
+  const usageOf = (user: string, bucket: B, t: number): Usage => {
+    const current = usage.get(`${bucket}:${user}`) || { minuteStart: t, minuteCount: 0, dayStart: t, dayCount: 0 };
+    if (t - current.minuteStart >= MINUTE) Object.assign(current, { minuteStart: t, minuteCount: 0 });
+    if (t - current.dayStart >= DAY) Object.assign(current, { dayStart: t, dayCount: 0 });
+    return current;
+  };
+
+  /** Says why one more request would be over the limit, without counting it. */
+  const peek = (user: string, bucket: B): LimitRejection | null => {
+    const limit = limits[bucket];
+    const t = now();
+    const current = usageOf(user, bucket, t);
+    if (current.dayCount >= limit.perDay) {
+      return { reason: 'quota', retryAfter: Math.ceil((current.dayStart + DAY - t) / 1000) };
+    }
+    if (current.minuteCount >= limit.perMinute) {
+      return { reason: 'rate', retryAfter: Math.ceil((current.minuteStart + MINUTE - t) / 1000) };
+    }
+    return null;
+  };
+
+  /** Counts the request and returns null, or says why it is over the limit. */
+  const check = (user: string, bucket: B): LimitRejection | null => {
+    const rejection = peek(user, bucket);
+    if (rejection) return rejection;
+    const current = usageOf(user, bucket, now());
+    current.minuteCount++;
+    current.dayCount++;
+    usage.set(`${bucket}:${user}`, current);
+    return null;
+  };
+
+  return { peek, check };
+}
+
+export type RateLimiter<B extends string> = ReturnType<typeof createRateLimiter<B>>;
+
+/**
+ * Checks one request against several limiters, e.g. per client and per IP. It is
+ * counted against all of them, or against none when any of them rejects it.
+ */
+export function checkAll<B extends string>(checks: [RateLimiter<B>, string][], bucket: B): LimitRejection | null {
+  for (const [limiter, user] of checks) {
+    const rejection = limiter.peek(user, bucket);
+    if (rejection) return rejection;
+  }
+  checks.forEach(([limiter, user]) => limiter.check(user, bucket));
+  return null;
+}
+
+/**
+ * Remembers the jobs each caller has started, so only the first request of a
+ * job is counted as a new cleanup. Jobs are forgotten `ttl` after their last request.
+ */
+export function createJobTracker(ttl: number = DAY, now: () => number = Date.now) {
+  const lastSeen = new Map<string, number>();
+
+  const has = (user: string, job: string): boolean => now() - (lastSeen.get(`${user}:${job}`) ?? -Infinity) < ttl;
+
+  /** Records a request of the job; call it only once the request was let through. */
+  const add = (user: string, job: string) => {
+    const t = now();
+    lastSeen.set(`${user}:${job}`, t);
+    if (lastSeen.size > 10_000) {
+      for (const [key, at] of lastSeen) if (t - at >= ttl) lastSeen.delete(key);
+    }
+  };
+
+  return { has, add };
+}
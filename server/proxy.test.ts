@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChildProcess, spawn } from "node:child_process";
+import { API_ROUTES, CLIENT_ID_HEADER } from "../services/proxyApi";
+
+// Runs the real server against the Gemini stub, each in its own process, as `npm run server` would.
+
+const PNG = { data: 'iVBORw0KGgoAAAANSUhEUg==', mimeType: 'image/png' };
+const children: ChildProcess[] = [];
+const basePort = 20_000 + Math.floor(Math.random() * 20_000);
+
+const launch = (script: string, env: Record<string, string>) => {
+  const child = spawn(process.execPath, ['--import', 'tsx', script], {
+    env: { ...process.env, ...env },
+    stdio: 'ignore',
+  });
+  children.push(child);
+};
+
+const waitFor = async (url: string) => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    try {
+      await fetch(url);
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error(`${url} did not come up.`);
+};
+
+/** Starts a proxy on its own port with the given limits; returns its origin. */
+const startProxy = async (port: number, env: Record<string, string> = {}) => {
+  launch('server/index.ts', {
+    PORT: String(port),
+    GEMINI_API_KEY: 'test',
+    GEMINI_BASE_URL: `http://localhost:${basePort}`,
+    ...env,
+  });
+  await waitFor(`http://localhost:${port}/api/health`);
+  return `http://localhost:${port}`;
+};
+
+let proxy: string;
+let limited: string;
+let tiled: string;
+
+beforeAll(async () => {
+  launch('server/geminiStub.ts', { STUB_PORT: String(basePort) });
+  await waitFor(`http://localhost:${basePort}/`);
+  [proxy, limited, tiled] = await Promise.all([
+    startProxy(basePort + 1, { LIMIT_IP_FACTOR: '1000' }),
+    startProxy(basePort + 2, { LIMIT_IMAGE_PER_MINUTE: '2', LIMIT_IP_FACTOR: '2' }),
+    startProxy(basePort + 3, { LIMIT_IMAGE_PER_MINUTE: '1', LIMIT_PART_PER_MINUTE: '3', LIMIT_IP_FACTOR: '1000' }),
+  ]);
+}, 60_000);
+
+afterAll(() => {
+  children.forEach(child => child.kill());
+});
+
+let clients = 0;
+const post = (origin: string, route: string, body: unknown, client = `test-client-${++clients}`) =>
+  fetch(origin + route, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', [CLIENT_ID_HEADER]: client },
+    body: JSON.stringify(body),
+  });
+
+describe('ClearCast server against the Gemini stub', () => {
+  it('answers the health check', async () => {
+    expect(await (await fetch(`${proxy}/api/health`)).json()).toEqual({ ok: true });
+  });
+
+  it('inpaints: the stub echoes the image back', async () => {
+    const response = await post(proxy, API_ROUTES.inpaint, { image: PNG, instruction: 'Remove the logo.' });
+    expect(response.status).toBe(200);
+    expect((await response.json()).image).toEqual(PNG);
+  });
+
+  it('detects regions', async () => {
+    const response = await post(proxy, API_ROUTES.detect, { image: PNG });
+    expect(await response.json()).toEqual({
+      detections: [{ kind: 'logo', label: 'Stub logo', confidence: 0.9, box_2d: [850, 800, 950, 980] }],
+    });
+  });
+
+  it('judges candidates in the order they were sent', async () => {
+    const response = await post(proxy, API_ROUTES.judge, { original: PNG, candidates: [PNG, PNG, PNG], instruction: 'Remove the logo.' });
+    expect(await response.json()).toEqual({ scores: [8, 7, 6] });
+  });
+
+  it('starts a video, polls it to completion and downloads the clip', async () => {
+    const started = await post(proxy, API_ROUTES.startVideo, { prompt: 'A clean beach', aspectRatio: '16:9' });
+    const { operationName } = await started.json();
+    expect(operationName).toMatch(/operations\/stub-/);
+
+    const poll = async () => (await fetch(`${proxy}${API_ROUTES.videoOperation}?name=${encodeURIComponent(operationName)}`)).json();
+    expect(await poll()).toEqual({ done: false });
+    const done = await poll();
+    expect(done).toMatchObject({ done: true, error: null });
+
+    const download = await fetch(`${proxy}${API_ROUTES.videoDownload}?uri=${encodeURIComponent(done.videoUri)}`);
+    expect(download.status).toBe(200);
+    expect(download.headers.get('content-type')).toBe('video/mp4');
+    expect(await download.text()).toBe('stub video');
+  });
+
+  it('refuses to download from anywhere but the API host', async () => {
+    const response = await fetch(`${proxy}${API_ROUTES.videoDownload}?uri=${encodeURIComponent('http://example.com/secret')}`);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/Only generated videos/);
+    const malformed = await fetch(`${proxy}${API_ROUTES.videoDownload}?uri=not-a-url`);
+    expect(malformed.status).toBe(400);
+  });
+
+  it('rejects malformed bodies before calling Gemini', async () => {
+    const empty = await post(proxy, API_ROUTES.inpaint, {});
+    expect(empty.status).toBe(400);
+    const badRatio = await post(proxy, API_ROUTES.startVideo, { prompt: 'x', aspectRatio: '4:3' });
+    expect(badRatio.status).toBe(400);
+    const notJson = await fetch(proxy + API_ROUTES.detect, { method: 'POST', body: '{' });
+    expect(notJson.status).toBe(400);
+  });
+
+  it('maps upstream failures to statuses and kinds the client understands', async () => {
+    const inpaint = (instruction: string) => post(proxy, API_ROUTES.inpaint, { image: PNG, instruction });
+
+    const safety = await (await inpaint('[stub:safety]')).json();
+    expect(safety).toMatchObject({ image: null, finishReason: 'IMAGE_SAFETY' });
+
+    const text = await (await inpaint('[stub:text]')).json();
+    expect(text).toMatchObject({ image: null, text: expect.stringContaining("can't edit") });
+
+    const quota = await inpaint('[stub:quota]');
+    expect(quota.status).toBe(429);
+    expect(await quota.json()).toMatchObject({ kind: 'quota' });
+
+    const auth = await inpaint('[stub:auth]');
+    expect(auth.status).toBe(502);
+    expect(await auth.json()).toEqual({ error: "The server's Gemini API key was rejected.", kind: 'auth' });
+
+    const flaky = await inpaint('[stub:flaky]');
+    expect(flaky.status).toBe(503);
+    expect((await inpaint('[stub:flaky]')).status).toBe(200);
+  });
+
+  it('rate-limits a client with 429 and Retry-After', async () => {
+    const body = { image: PNG, instruction: 'Remove the logo.' };
+    expect((await post(limited, API_ROUTES.inpaint, body, 'limited-client-a')).status).toBe(200);
+    expect((await post(limited, API_ROUTES.inpaint, body, 'limited-client-a')).status).toBe(200);
+    const rejected = await post(limited, API_ROUTES.inpaint, body, 'limited-client-a');
+    expect(rejected.status).toBe(429);
+    expect(Number(rejected.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(await rejected.json()).toMatchObject({ kind: 'rate-limit' });
+
+    // A new client id gets its own allowance, but the address is capped at twice that.
+    expect((await post(limited, API_ROUTES.inpaint, body, 'limited-client-b')).status).toBe(200);
+    expect((await post(limited, API_ROUTES.inpaint, body, 'limited-client-c')).status).toBe(200);
+    expect((await post(limited, API_ROUTES.inpaint, body, 'limited-client-d')).status).toBe(429);
+  });
+
+  it('counts the first request of a job as an image and the rest as parts', async () => {
+    const tile = (job: string) => post(tiled, API_ROUTES.inpaint, { image: PNG, instruction: 'Remove the logo.', job }, 'tiling-client');
+    const statuses = [];
+    for (let i = 0; i < 5; i++) statuses.push((await tile('job-tiles-0001')).status);
+    // One image, three parts, then the part limit.
+    expect(statuses).toEqual([200, 200, 200, 200, 429]);
+    // A new job needs a fresh image allowance, which this client has used up.
+    expect((await tile('job-tiles-0002')).status).toBe(429);
+    expect((await tile('job-tiles-0002')).status).toBe(429);
+  });
+});
@@ -0,0 +1,58 @@
+import type { DetectBody, InlineImage, InpaintBody, JudgeBody, StartVideoBody } from "../services/proxyApi";
+
+// Request bodies come straight from the browser; each check returns why one is unusable, or null.
+
+const MAX_INSTRUCTION_LENGTH = 4000;
+// The editor sends up to four candidates (services/candidates.ts).
+const MAX_JUDGED_CANDIDATES = 8;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+export const ID = /^[\w-]{8,64}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const imageProblem = (value: unknown, field: string): string | null => {
+  if (!isObject(value)) return `${field} must be an object with data and mimeType.`;
+  const { data, mimeType } = value as Partial<InlineImage>;
+  if (typeof mimeType !== 'string' || !mimeType.startsWith('image/')) return `${field}.mimeType must be an image type.`;
+  if (typeof data !== 'string' || !data || !BASE64.test(data)) return `${field}.data must be base64 without a data: prefix.`;
+  return null;
+};
+
+const textProblem = (value: unknown, field: string): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return `${field} must be a non-empty string.`;
+  if (value.length > MAX_INSTRUCTION_LENGTH) return `${field} is longer than ${MAX_INSTRUCTION_LENGTH} characters.`;
+  return null;
+};
+
+export function inpaintProblem(body: unknown): string | null {
+  if (!isObject(body)) return "Body must be a JSON object.";
+  const { image, instruction, mask, job } = body as Partial<InpaintBody>;
+  return imageProblem(image, 'image')
+    || textProblem(instruction, 'instruction')
+    || (mask == null ? null : imageProblem(mask, 'mask'))
+    || (job == null || (typeof job === 'string' && ID.test(job)) ? null : "job must be an id of 8 to 64 letters, digits, _ or -.");
+}
+
+export function detectProblem(body: unknown): string | null {
+  if (!isObject(body)) return "Body must be a JSON object.";
+  return imageProblem((body as Partial<DetectBody>).image, 'image');
+}
+
+export function judgeProblem(body: unknown): string | null {
+  if (!isObject(body)) return "Body must be a JSON object.";
+  const { original, candidates, instruction } = body as Partial<JudgeBody>;
+  if (!Array.isArray(candidates) || !candidates.length || candidates.length > MAX_JUDGED_CANDIDATES) {
+    return `candidates must be a list of 1 to ${MAX_JUDGED_CANDIDATES} images.`;
+  }
+  return imageProblem(original, 'original')
+    || candidates.reduce<string | null>((problem, candidate, i) => problem || imageProblem(candidate, `candidates[${i}]`), null)
+    || textProblem(instruction, 'instruction');
+}
+
+export function startVideoProblem(body: unknown): string | null {
+  if (!isObject(body)) return "Body must be a JSON object.";
+  const { prompt, aspectRatio } = body as Partial<StartVideoBody>;
+  return textProblem(prompt, 'prompt')
+    || (aspectRatio === '16:9' || aspectRatio === '9:16' ? null : "aspectRatio must be 16:9 or 9:16.");
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AiStudioGlobal, createAiStudioAdapter } from "./aistudio";
+import { CleanupError } from "./errors";
+import { DEFAULT_BASE_URL } from "./geminiBackend";
+
+const VIDEO_URI = `${DEFAULT_BASE_URL}/v1beta/files/clip:download?alt=media`;
+
+// The surface AI Studio really injects; the key itself arrives as process.env.API_KEY.
+const fakeStudio = (hasKey: boolean): AiStudioGlobal => ({
+  hasSelectedApiKey: async () => hasKey,
+  openSelectKey: vi.fn(async () => {}),
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('createAiStudioAdapter', () => {
+  it('is null outside AI Studio', () => {
+    expect(createAiStudioAdapter(undefined)).toBeNull();
+  });
+
+  it('is null when the host lacks the key picker', () => {
+    expect(createAiStudioAdapter({} as AiStudioGlobal)).toBeNull();
+  });
+
+  it('downloads videos with the selected key in a header', async () => {
+    const fetch = vi.fn(async () => new Response(new Blob([new Uint8Array([1, 2, 3])], { type: 'video/mp4' })));
+    vi.stubGlobal('fetch', fetch);
+    const adapter = createAiStudioAdapter(fakeStudio(true))!;
+
+    vi.stubEnv('API_KEY', 'first-key');
+    expect(await adapter.client.downloadUrl(VIDEO_URI)).toBe('data:video/mp4;base64,AQID');
+    vi.stubEnv('API_KEY', 'second-key');
+    await adapter.client.downloadUrl(VIDEO_URI);
+    const calls = fetch.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url]) => url)).toEqual([VIDEO_URI, VIDEO_URI]);
+    // A key selected in between is used from the next request on.
+    expect(calls.map(([, init]) => (init.headers as Record<string, string>)['x-goog-api-key'])).toEqual(['first-key', 'second-key']);
+  });
+
+  it('reports a failed download with its status', async () => {
+    vi.stubGlobal('fetch', async () => new Response('gone', { status: 404 }));
+    vi.stubEnv('API_KEY', 'key');
+    const adapter = createAiStudioAdapter(fakeStudio(true))!;
+    await expect(adapter.client.downloadUrl(VIDEO_URI)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('fails as a key problem while no key is selected', async () => {
+    vi.stubEnv('API_KEY', '');
+    const adapter = createAiStudioAdapter(fakeStudio(false))!;
+    const error = await adapter.client.downloadUrl(VIDEO_URI).catch(err => err);
+    expect(error).toBeInstanceOf(CleanupError);
+    expect(error.failure.kind).toBe('auth');
+  });
+
+  it('opens the key picker before a Veo job only when no key is selected', async () => {
+    const withKey = fakeStudio(true);
+    await createAiStudioAdapter(withKey)!.ensureKey();
+    expect(withKey.openSelectKey).not.toHaveBeenCalled();
+
+    const withoutKey = fakeStudio(false);
+    await createAiStudioAdapter(withoutKey)!.ensureKey();
+    expect(withoutKey.openSelectKey).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,67 @@
+import { CleanupError } from "./errors";
+import { fileToBase64 } from "./files";
+import { ProxyError, ProxyClient } from "./gemini";
+import { createGeminiBackend } from "./geminiBackend";
+
+/** The part of the `window.aistudio` global, injected by Google AI Studio, that ClearCast uses. */
+export interface AiStudioGlobal {
+  hasSelectedApiKey(): Promise<boolean>;
+  openSelectKey(): Promise<void>;
+}
+
+declare global {
+  interface Window {
+    aistudio?: AiStudioGlobal;
+  }
+}
+
+/**
+ * Supplies Gemini access where there is no ClearCast server and the host hands
+ * out a key instead. The editor calls the hooks around paid and rejected requests.
+ */
+export interface KeyAdapter {
+  client: ProxyClient;
+  /** Called before starting a Veo job, which needs a key on a paid project. May prompt the user. */
+  ensureKey(): Promise<void>;
+  /** Called after the key was rejected, so the user can pick another one. */
+  keyRejected(): Promise<void>;
+}
+
+// AI Studio hands the selected key to the app as process.env.API_KEY and replaces it when another one is picked.
+const selectedKey = (): string => {
+  const key = typeof process !== 'undefined' ? process.env?.API_KEY : undefined;
+  if (!key) throw new CleanupError({ kind: 'auth', message: "No API key has been selected in AI Studio." });
+  return key;
+};
+
+/**
+ * Runs the editor inside AI Studio: Gemini is called straight from the browser
+ * with the key the user selected there. Returns null outside AI Studio, or when
+ * the host does not offer the key picker.
+ */
+export function createAiStudioAdapter(aistudio: AiStudioGlobal | undefined = typeof window !== 'undefined' ? window.aistudio : undefined): KeyAdapter | null {
+  if (typeof aistudio?.hasSelectedApiKey !== 'function' || typeof aistudio.openSelectKey !== 'function') return null;
+
+  // Read on every call, so a newly selected key is picked up without a reload.
+  const backend = async () => createGeminiBackend({ apiKey: selectedKey() });
+
+  return {
+    client: {
+      inpaint: async (body, signal) => (await backend()).inpaint(body, signal),
+      detect: async body => (await backend()).detect(body),
+      judge: async body => (await backend()).judge(body),
+      startVideo: async body => (await backend()).startVideo(body),
+      getVideoOperation: async name => (await backend()).getVideoOperation(name),
+      // The key goes in a header, never in a URL; the clip is handed to <video> as a data URL.
+      downloadUrl: async videoUri => {
+        const response = await (await backend()).downloadVideo(videoUri);
+        if (!response.ok) throw new ProxyError(response.status, `The video download failed with ${response.status}.`);
+        return fileToBase64(await response.blob());
+      },
+    },
+    ensureKey: async () => {
+      if (!(await aistudio.hasSelectedApiKey())) await aistudio.openSelectKey();
+    },
+    keyRejected: () => aistudio.openSelectKey(),
+  };
+}
@@ -0,0 +1,146 @@
+
+export type BatchStatus = 'pending' | 'running' | 'done' | 'failed' | 'retry';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  mimeType: string;
+  source: string;
+  /** The upload itself, for queues that read it only once the item runs; `source` is then an object URL of it. */
+  file?: File;
+  status: BatchStatus;
+  attempts: number;
+  result?: string;
+  error?: string;
+}
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  /** Automatic retries per item before it is marked as failed. */
+  maxRetries: number;
+  /** Whether a failure is worth retrying at all; by default every failure is. */
+  shouldRetry?: (error: any) => boolean;
+  process: (item: BatchItem, signal: AbortSignal) => Promise<string>;
+  onChange: (items: BatchItem[]) => void;
+  onItemDone?: (item: BatchItem) => void;
+}
+
+export interface BatchQueue {
+  add(files: Pick<BatchItem, 'name' | 'mimeType' | 'source' | 'file'>[]): void;
+  start(): void;
+  pause(): void;
+  resume(): void;
+  /** Stops running jobs and drops everything that has not finished yet. */
+  cancel(): void;
+  retryFailed(): void;
+  setConcurrency(concurrency: number): void;
+  isPaused(): boolean;
+  items(): BatchItem[];
+}
+
+const RETRY_DELAY_MS = 2000;
+
+let nextItemId = 0;
+
+export function createBatchQueue(options: BatchQueueOptions): BatchQueue {
+  let items: BatchItem[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  let paused = true;
+  const controllers = new Map<string, AbortController>();
+
+  const emit = () => options.onChange(items.slice());
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+    emit();
+  };
+
+  const find = (id: string) => items.find(item => item.id === id);
+
+  const run = async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    update(item.id, { status: 'running', attempts: item.attempts + 1, error: undefined });
+
+    try {
+      const result = await options.process(item, controller.signal);
+      if (controller.signal.aborted || !find(item.id)) return;
+      update(item.id, { status: 'done', result });
+      options.onItemDone?.(find(item.id)!);
+    } catch (error: any) {
+      if (controller.signal.aborted || !find(item.id)) return;
+      const current = find(item.id)!;
+      const message = error?.message || 'Processing failed.';
+      if (current.attempts <= options.maxRetries && (options.shouldRetry?.(error) ?? true)) {
+        update(item.id, { status: 'retry', error: message });
+        setTimeout(() => {
+          if (find(item.id)?.status !== 'retry') return;
+          update(item.id, { status: 'pending' });
+          pump();
+        }, RETRY_DELAY_MS * current.attempts);
+      } else {
+        update(item.id, { status: 'failed', error: message });
+      }
+    } finally {
+      controllers.delete(item.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (paused) return;
+    let running = items.filter(item => item.status === 'running').length;
+    for (const item of items) {
+      if (running >= concurrency) break;
+      if (item.status !== 'pending') continue;
+      running++;
+      run(item);
+    }
+  };
+
+  return {
+    add(files) {
+      items = [
+        ...items,
+        ...files.map(file => ({
+          ...file,
+          id: `batch-${nextItemId++}`,
+          status: 'pending' as BatchStatus,
+          attempts: 0,
+        })),
+      ];
+      emit();
+      pump();
+    },
+    start() {
+      paused = false;
+      pump();
+    },
+    pause() {
+      // Jobs already in flight are allowed to finish; nothing new is started.
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      pump();
+    },
+    cancel() {
+      paused = true;
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      items = items.filter(item => item.status === 'done' || item.status === 'failed');
+      emit();
+    },
+    retryFailed() {
+      items = items.map(item => item.status === 'failed' ? { ...item, status: 'pending', attempts: 0, error: undefined } : item);
+      emit();
+      pump();
+    },
+    setConcurrency(value) {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    isPaused: () => paused,
+    items: () => items.slice(),
+  };
+}
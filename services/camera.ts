@@ -0,0 +1,128 @@
+import { createCanvas } from "./mask";
+import { extensionForMimeType } from "./files";
+
+export interface CameraResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+];
+
+export const DEFAULT_CAMERA_RESOLUTION = '1080p';
+
+// Keeps clips well inside the video upload limit and the frame-by-frame cleanup quick.
+export const MAX_CLIP_SECONDS = 15;
+
+// MP4 first: it is what the cleanup exports and the only thing Safari records.
+const CLIP_TYPES = ['video/mp4', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export class CameraError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CameraError';
+  }
+}
+
+const describeMediaError = (err: any): string => {
+  switch (err?.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return "Camera access was blocked. Allow it in your browser's site settings and try again.";
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return "No matching camera was found. Pick another camera or a lower resolution.";
+    case 'NotReadableError':
+      return "The camera is in use by another app.";
+    default:
+      return "Could not start the camera.";
+  }
+};
+
+export interface OpenCameraOptions {
+  /** A specific camera; without one the rear camera is preferred. */
+  deviceId?: string | null;
+  resolution: CameraResolution;
+}
+
+/**
+ * Starts a video-only stream. Audio is left out: the app is only granted the
+ * camera permission, and cleaned clips keep whatever audio the source has.
+ */
+export async function openCamera({ deviceId, resolution }: OpenCameraOptions): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError("This browser cannot use the camera here. Open the app over HTTPS or upload a photo instead.");
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: 'environment' } }),
+        width: { ideal: resolution.width },
+        height: { ideal: resolution.height },
+      },
+    });
+  } catch (err) {
+    throw new CameraError(describeMediaError(err));
+  }
+}
+
+export const stopCamera = (stream: MediaStream) => stream.getTracks().forEach(track => track.stop());
+
+/** Video inputs. Labels are empty until the user has granted access once. */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+}
+
+/** The current frame of a playing preview as a lossless PNG. */
+export async function captureStill(video: HTMLVideoElement): Promise<File> {
+  const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+  ctx.drawImage(video, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new CameraError("Could not capture the frame.");
+  return new File([blob], `camera-${Date.now()}.png`, { type: 'image/png' });
+}
+
+export interface ClipRecorder {
+  /** Ends the clip early; `result` resolves once the recorder has flushed. */
+  stop(): void;
+  result: Promise<File>;
+}
+
+/** Records the stream until stopped or until `maxSeconds` have passed. */
+export function recordClip(stream: MediaStream, maxSeconds: number = MAX_CLIP_SECONDS): ClipRecorder {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : CLIP_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new CameraError("This browser cannot record video clips.");
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+  const timer = setTimeout(stop, maxSeconds * 1000);
+
+  const result = new Promise<File>((resolve, reject) => {
+    recorder.onstop = () => {
+      clearTimeout(timer);
+      const type = mimeType.split(';')[0];
+      resolve(new File(chunks, `camera-${Date.now()}.${extensionForMimeType(type)}`, { type }));
+    };
+    recorder.onerror = () => {
+      clearTimeout(timer);
+      reject(new CameraError("Recording stopped unexpectedly."));
+    };
+  });
+
+  recorder.start(1000);
+  return { stop, result };
+}
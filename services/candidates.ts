@@ -0,0 +1,100 @@
+import { canvasCodec } from "./mask";
+import { inpaintAtFullResolution } from "./tiling";
+import { changedRegion, QualityScore, rankByScore, scoreResult } from "./quality";
+import { ImageCodec, maskHole, Raster, resizeRaster } from "./raster";
+import type { InpaintingProvider, InpaintRequest } from "./inpainting";
+
+export const MAX_CANDIDATES = 4;
+
+// Scores are computed on a downscaled copy: full resolution is slower and ranks the same.
+const SCORING_SIDE = 768;
+const JUDGE_QUALITY = 0.85;
+
+export interface Candidate {
+  /** Data URL at the input's full resolution. */
+  image: string;
+  score: QualityScore;
+}
+
+export interface CandidateOptions {
+  count: number;
+  codec?: ImageCodec;
+  /** Also asks the provider's model judge, when it has one. */
+  judge?: boolean;
+  /** Called as each candidate finishes. */
+  onProgress?: (done: number, total: number) => void;
+}
+
+const forScoring = (raster: Raster): Raster => {
+  const scale = Math.min(1, SCORING_SIDE / Math.max(raster.width, raster.height));
+  return resizeRaster(raster, Math.max(1, Math.round(raster.width * scale)), Math.max(1, Math.round(raster.height * scale)));
+};
+
+/**
+ * Scores results of the same request and ranks them, best first. The edit
+ * region is the mask when there is one, otherwise every pixel any result changed,
+ * so all candidates are measured over the same area.
+ */
+export async function scoreCandidates(
+  provider: InpaintingProvider,
+  request: InpaintRequest,
+  images: string[],
+  { codec = canvasCodec, judge = false }: Omit<CandidateOptions, 'count' | 'onProgress'> = {}
+): Promise<Candidate[]> {
+  const original = forScoring(await codec.decode(request.image));
+  const { width, height } = original;
+  const results = await Promise.all(images.map(async image => resizeRaster(await codec.decode(image), width, height)));
+
+  let region: Uint8Array;
+  if (request.mask) {
+    region = maskHole(resizeRaster(await codec.decode(request.mask), width, height));
+  } else {
+    region = new Uint8Array(width * height);
+    results.forEach(result => changedRegion(original, result).forEach((v, i) => { if (v) region[i] = 1; }));
+  }
+
+  let verdicts: (number | null)[] = images.map(() => null);
+  if (judge && provider.judgeCandidates) {
+    try {
+      const [first, ...rest] = await Promise.all([original, ...results].map(raster => codec.encode(raster, 'image/jpeg', JUDGE_QUALITY)));
+      const scores = await provider.judgeCandidates({ image: first, mimeType: 'image/jpeg', instruction: request.instruction, candidates: rest });
+      verdicts = images.map((_, i) => scores[i] ?? null);
+    } catch (err) {
+      // The pixel scores still rank the candidates; a failed judge only loses its opinion.
+      console.error("Candidate Judge Error:", err);
+    }
+  }
+
+  return rankByScore(images.map((image, i) => ({ image, score: scoreResult(original, results[i], region, verdicts[i]) })));
+}
+
+/**
+ * Runs the same request `count` times and returns the results ranked, best
+ * first. Runs that fail are dropped; it only rejects, with the first error,
+ * when none succeed.
+ */
+export async function generateCandidates(
+  provider: InpaintingProvider,
+  request: InpaintRequest,
+  { count, codec = canvasCodec, judge = false, onProgress }: CandidateOptions
+): Promise<Candidate[]> {
+  const total = Math.min(MAX_CANDIDATES, Math.max(1, Math.round(count)));
+  const images: string[] = [];
+  let firstError: unknown = null;
+  onProgress?.(0, total);
+  // One after another: parallel runs would only reach the per-minute rate limit sooner.
+  for (let i = 0; i < total; i++) {
+    try {
+      const image = await inpaintAtFullResolution(provider, request, { codec });
+      if (image) images.push(image);
+    } catch (err) {
+      if (!firstError) firstError = err;
+    }
+    onProgress?.(i + 1, total);
+  }
+  if (images.length === 0) {
+    if (firstError) throw firstError;
+    return [];
+  }
+  return scoreCandidates(provider, request, images, { codec, judge });
+}
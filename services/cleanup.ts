@@ -0,0 +1,74 @@
+import { addNode, createGraph } from "./editGraph";
+import { dataUrlToBytes, fileToBase64, mimeTypeOfDataUrl } from "./files";
+import { embedProvenance, provenanceOf, ProvenanceRecord } from "./provenance";
+import { canvasCodec } from "./mask";
+import { OutputFormat, withOutputFormat } from "./output";
+import { inpaintAtFullResolution } from "./tiling";
+import { generateCandidates } from "./candidates";
+import type { QualityScore } from "./quality";
+import type { InpaintingProvider } from "./inpainting";
+import type { ImageCodec } from "./raster";
+
+export interface CleanupOptions {
+  image: Blob;
+  provider: InpaintingProvider;
+  instruction: string;
+  /** Editor-style mask as a data URL (coverage in alpha). Required by providers with `requiresMask`. */
+  mask?: string | null;
+  /** Who confirmed they own or are licensed to edit the image; recorded in the output's XMP. */
+  operator: string;
+  /** Re-encodes the result, e.g. to JPEG. By default it is saved as the provider returned it. */
+  format?: OutputFormat;
+  /** Needed for tiling large images and for format conversion; the canvas codec in the browser. */
+  codec?: ImageCodec;
+  /** Runs the provider this many times (up to MAX_CANDIDATES) and keeps the best scoring result. */
+  candidates?: number;
+  /** Lets the provider's model judge weigh in on the ranking of candidates. */
+  judge?: boolean;
+}
+
+export interface CleanupResult {
+  /** The cleaned image with provenance embedded. */
+  output: Blob;
+  mimeType: string;
+  provenance: ProvenanceRecord;
+  /** The kept result's score, when there were several candidates. */
+  score: QualityScore | null;
+}
+
+/**
+ * One attested cleanup step outside the editor: runs the provider and embeds the
+ * same provenance an export from the app would carry. No DOM APIs beyond what
+ * the provider itself needs.
+ */
+export async function cleanImage({
+  image, provider, instruction, mask, operator, format, codec = canvasCodec, candidates = 1, judge = false
+}: CleanupOptions): Promise<CleanupResult> {
+  if (!operator.trim()) throw new Error("An operator name is required to attest ownership.");
+  if (provider.requiresMask && !mask) throw new Error(`${provider.label} needs a mask.`);
+
+  const request = { image: await fileToBase64(image), mimeType: image.type, instruction, mask };
+  let result: string | null;
+  let score: QualityScore | null = null;
+  if (candidates > 1) {
+    const [best] = await generateCandidates(provider, request, { count: candidates, codec, judge });
+    result = best?.image || null;
+    score = best?.score || null;
+  } else {
+    result = await inpaintAtFullResolution(provider, request, { codec });
+  }
+  if (!result) throw new Error("The model returned no image.");
+
+  const original = createGraph<Blob>(image);
+  const graph = addNode(original, original.rootId, new Blob([dataUrlToBytes(result)], { type: mimeTypeOfDataUrl(result) }), {
+    instruction,
+    provider: provider.id,
+    model: provider.imageModel,
+    attestedBy: operator.trim(),
+    quality: score,
+  });
+  const saved = format ? await withOutputFormat(graph, format, codec) : graph;
+  const provenance = await provenanceOf(saved);
+  const output = await embedProvenance(saved.nodes[saved.currentId].media, provenance);
+  return { output, mimeType: output.type, provenance, score };
+}
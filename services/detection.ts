@@ -0,0 +1,104 @@
+import { createCanvas, loadImage } from "./mask";
+import { findOverlayBoxes, intersectGrids, scoreCells } from "./overlayHeuristic";
+import { generateId } from "./ids";
+import type { InpaintingProvider, ProviderId } from "./inpainting";
+
+export type RegionKind = 'text' | 'logo' | 'stamp';
+
+/** Position and size as fractions of the image, so boxes survive rescaling. */
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedRegion {
+  id: string;
+  kind: RegionKind;
+  label: string;
+  confidence: number;
+  box: RegionBox;
+  source: ProviderId | 'heuristic';
+}
+
+export interface DetectionResult {
+  regions: DetectedRegion[];
+  source: DetectedRegion['source'];
+}
+
+// The heuristic works on a downscaled copy; overlays are large enough to survive it.
+const ANALYSIS_SIZE = 640;
+
+const KIND_LABELS: Record<RegionKind, string> = {
+  text: 'Text overlay',
+  logo: 'Logo',
+  stamp: 'Stamp',
+};
+
+export const clampBox = (box: RegionBox): RegionBox => {
+  const x = Math.min(1, Math.max(0, box.x));
+  const y = Math.min(1, Math.max(0, box.y));
+  return {
+    x,
+    y,
+    width: Math.min(1 - x, Math.max(0, box.width)),
+    height: Math.min(1 - y, Math.max(0, box.height)),
+  };
+};
+
+/**
+ * Runs the local detector on one or more frames of the same size. With several
+ * frames (e.g. stills from a video) only marks that appear in all of them are kept.
+ */
+export async function detectOverlaysLocally(frames: string[]): Promise<DetectedRegion[]> {
+  const images = await Promise.all(frames.map(loadImage));
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(images[0].naturalWidth, images[0].naturalHeight));
+  const width = Math.max(1, Math.round(images[0].naturalWidth * scale));
+  const height = Math.max(1, Math.round(images[0].naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+
+  const grids = images.map(img => {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return scoreCells(ctx.getImageData(0, 0, width, height).data, width, height);
+  });
+
+  return findOverlayBoxes(intersectGrids(grids), width, height).map(box => ({
+    id: generateId(),
+    kind: box.kind,
+    label: KIND_LABELS[box.kind],
+    confidence: box.confidence,
+    box: clampBox({ x: box.x / width, y: box.y / height, width: box.width / width, height: box.height / height }),
+    source: 'heuristic',
+  }));
+}
+
+/**
+ * Proposes removal regions for `frames[0]`. Providers with their own detector are
+ * asked first; the local heuristic covers offline providers and failed calls.
+ */
+export async function detectRegions(
+  frames: string[],
+  mimeType: string,
+  provider: InpaintingProvider
+): Promise<DetectionResult> {
+  if (provider.detectRegions) {
+    try {
+      return { regions: await provider.detectRegions({ image: frames[0], mimeType }), source: provider.id };
+    } catch (err) {
+      console.error("Detection Error:", err);
+    }
+  }
+  return { regions: await detectOverlaysLocally(frames), source: 'heuristic' };
+}
+
+/** Fills the accepted boxes into a mask canvas sized to the image. */
+export function paintRegions(ctx: CanvasRenderingContext2D, regions: RegionBox[], color: string) {
+  const { width, height } = ctx.canvas;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.fillStyle = color;
+  for (const box of regions) {
+    ctx.fillRect(box.x * width, box.y * height, box.width * width, box.height * height);
+  }
+}
@@ -0,0 +1,96 @@
+import { createCanvas, loadImage } from "./mask";
+
+export interface DiffResult {
+  /** PNG data URL: grayscale original with changed pixels coloured by magnitude. */
+  heatmap: string;
+  width: number;
+  height: number;
+  /** Share of pixels whose difference exceeds the threshold, 0..1. */
+  changedRatio: number;
+  maxDelta: number;
+}
+
+// Cold-to-hot ramp used for the heatmap: blue -> cyan -> yellow -> red.
+const RAMP: [number, number, number][] = [
+  [37, 99, 235],
+  [34, 211, 238],
+  [250, 204, 21],
+  [239, 68, 68],
+];
+
+const heatColor = (t: number): [number, number, number] => {
+  const scaled = Math.min(0.9999, Math.max(0, t)) * (RAMP.length - 1);
+  const i = Math.floor(scaled);
+  const f = scaled - i;
+  const [a, b] = [RAMP[i], RAMP[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+/**
+ * Compares two RGBA buffers of the same size. The delta of a pixel is the
+ * largest absolute difference over its four channels, so a change in any
+ * channel (including alpha) shows up.
+ */
+export function diffPixels(
+  original: Uint8ClampedArray,
+  edited: Uint8ClampedArray,
+  threshold: number = 8
+): { heat: Uint8ClampedArray; changed: number; maxDelta: number } {
+  const heat = new Uint8ClampedArray(original.length);
+  let changed = 0;
+  let maxDelta = 0;
+
+  for (let i = 0; i < original.length; i += 4) {
+    const delta = Math.max(
+      Math.abs(original[i] - edited[i]),
+      Math.abs(original[i + 1] - edited[i + 1]),
+      Math.abs(original[i + 2] - edited[i + 2]),
+      Math.abs(original[i + 3] - edited[i + 3])
+    );
+    if (delta > maxDelta) maxDelta = delta;
+
+    // Dimmed grayscale backdrop keeps the image recognisable under the overlay.
+    const gray = (original[i] * 0.299 + original[i + 1] * 0.587 + original[i + 2] * 0.114) * 0.35;
+    if (delta > threshold) {
+      changed++;
+      const [r, g, b] = heatColor(delta / 255);
+      heat[i] = r;
+      heat[i + 1] = g;
+      heat[i + 2] = b;
+    } else {
+      heat[i] = gray;
+      heat[i + 1] = gray;
+      heat[i + 2] = gray;
+    }
+    heat[i + 3] = 255;
+  }
+
+  return { heat, changed, maxDelta };
+}
+
+export async function computeDiffHeatmap(original: string, edited: string, threshold?: number): Promise<DiffResult> {
+  const [origImg, editedImg] = await Promise.all([loadImage(original), loadImage(edited)]);
+  const width = origImg.naturalWidth;
+  const height = origImg.naturalHeight;
+
+  const a = createCanvas(width, height);
+  a.ctx.drawImage(origImg, 0, 0);
+  const b = createCanvas(width, height);
+  // Results at a different resolution are compared on the original's pixel grid.
+  b.ctx.drawImage(editedImg, 0, 0, width, height);
+
+  const { heat, changed, maxDelta } = diffPixels(
+    a.ctx.getImageData(0, 0, width, height).data,
+    b.ctx.getImageData(0, 0, width, height).data,
+    threshold
+  );
+  a.ctx.putImageData(new ImageData(heat, width, height), 0, 0);
+
+  return {
+    heatmap: a.canvas.toDataURL('image/png'),
+    width,
+    height,
+    changedRatio: changed / (width * height),
+    maxDelta,
+  };
+}
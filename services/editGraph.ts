@@ -0,0 +1,69 @@
+import { generateId } from "./ids";
+import type { EditGraph, EditNode } from "../types";
+
+export type NodeMeta = Pick<EditNode, 'instruction' | 'provider' | 'model' | 'attestedBy' | 'preset' | 'quality'>;
+
+export function createGraph<M>(media: M): EditGraph<M> {
+  const root: EditNode<M> = {
+    id: generateId(),
+    parentId: null,
+    media,
+    instruction: '',
+    provider: null,
+    model: null,
+    timestamp: Date.now(),
+  };
+  return { rootId: root.id, currentId: root.id, nodes: { [root.id]: root } };
+}
+
+/**
+ * Adds a child under `parentId` and makes it the current node. Adding a second
+ * child to the same parent is how a branch is started.
+ */
+export function addNode<M>(graph: EditGraph<M>, parentId: string, media: M, meta: NodeMeta): EditGraph<M> {
+  if (!graph.nodes[parentId]) throw new Error(`Unknown edit node ${parentId}.`);
+  const node: EditNode<M> = { ...meta, id: generateId(), parentId, media, timestamp: Date.now() };
+  return { ...graph, currentId: node.id, nodes: { ...graph.nodes, [node.id]: node } };
+}
+
+export function selectNode<M>(graph: EditGraph<M>, id: string): EditGraph<M> {
+  return graph.nodes[id] ? { ...graph, currentId: id } : graph;
+}
+
+export const currentNode = <M>(graph: EditGraph<M>): EditNode<M> => graph.nodes[graph.currentId];
+
+export const rootNode = <M>(graph: EditGraph<M>): EditNode<M> => graph.nodes[graph.rootId];
+
+export function childrenOf<M>(graph: EditGraph<M>, id: string): EditNode<M>[] {
+  return Object.values(graph.nodes)
+    .filter(node => node.parentId === id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Nodes from the root down to `id`, inclusive. */
+export function pathTo<M>(graph: EditGraph<M>, id: string): EditNode<M>[] {
+  const path: EditNode<M>[] = [];
+  for (let node: EditNode<M> | undefined = graph.nodes[id]; node; node = node.parentId ? graph.nodes[node.parentId] : undefined) {
+    path.unshift(node);
+  }
+  return path;
+}
+
+/** Depth-first listing used to draw the tree, oldest branch first. */
+export function flattenGraph<M>(graph: EditGraph<M>): { node: EditNode<M>; depth: number }[] {
+  const rows: { node: EditNode<M>; depth: number }[] = [];
+  const visit = (id: string, depth: number) => {
+    rows.push({ node: graph.nodes[id], depth });
+    childrenOf(graph, id).forEach(child => visit(child.id, depth + 1));
+  };
+  visit(graph.rootId, 0);
+  return rows;
+}
+
+/** Converts every node's media, e.g. data URLs to Blobs before persisting. */
+export async function mapGraphMedia<A, B>(graph: EditGraph<A>, convert: (media: A, node: EditNode<A>) => Promise<B>): Promise<EditGraph<B>> {
+  const entries = await Promise.all(
+    Object.values(graph.nodes).map(async node => [node.id, { ...node, media: await convert(node.media, node) }] as const)
+  );
+  return { ...graph, nodes: Object.fromEntries(entries) };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { envelope, parseOrigins, readEnvelope, trustedHostOrigin } from "./embedProtocol";
+
+describe('trustedHostOrigin', () => {
+  const allowed = parseOrigins(' https://cms.example.com, http://localhost:4000 ,');
+
+  it('parses the allow-list', () => {
+    expect(allowed).toEqual(['https://cms.example.com', 'http://localhost:4000']);
+  });
+
+  it('trusts only origins on the allow-list, matched exactly', () => {
+    expect(trustedHostOrigin('https://cms.example.com', allowed)).toBe('https://cms.example.com');
+    expect(trustedHostOrigin('http://localhost:4000', allowed)).toBe('http://localhost:4000');
+    for (const origin of ['https://evil.example', 'http://cms.example.com', 'https://cms.example.com:8443', 'https://cms.example.com/', 'null', '*', '', null]) {
+      expect(trustedHostOrigin(origin, allowed)).toBeNull();
+    }
+  });
+
+  it('trusts nothing without an allow-list', () => {
+    expect(trustedHostOrigin('https://cms.example.com', parseOrigins(undefined))).toBeNull();
+  });
+});
+
+describe('envelopes', () => {
+  it('only reads messages of this protocol and version', () => {
+    expect(readEnvelope(envelope({ type: 'hello' }))).toMatchObject({ type: 'hello' });
+    expect(readEnvelope({ ...envelope({ type: 'hello' }), version: 2 })).toBeNull();
+    expect(readEnvelope({ type: 'hello' })).toBeNull();
+    expect(readEnvelope(null)).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import type { CleanupFailureKind } from "./errors";
+import type { ProviderId } from "./inpainting";
+import type { Locale } from "./i18n";
+import type { EditorResult, EditorTheme } from "../types";
+
+/**
+ * postMessage protocol between a host page and ClearCast running in an iframe at
+ * `/?embed&origin=<host origin>`. The origin must be on the allow-list the app
+ * was built with (`VITE_EMBED_ORIGINS`); anyone can put any origin in a URL. Every message is an envelope carrying the
+ * protocol name and version next to its `type`. Either side ignores envelopes of
+ * another version; fields added within a version are optional, so older hosts
+ * keep working.
+ *
+ * The editor posts `ready` once it listens, and again in answer to `hello`, so a
+ * host that connects late still finds out. Blobs travel as Blobs (structured
+ * clone), not as data URLs.
+ */
+
+export const EMBED_PROTOCOL = 'clearcast';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export interface ConfigureOptions {
+  /** Replaces the instruction, detaching any preset. */
+  instruction?: string;
+  provider?: ProviderId;
+  theme?: EditorTheme;
+  /** UI language: en, es, de or ar. */
+  locale?: Locale;
+}
+
+/** Host to editor. */
+export type HostMessage =
+  | { type: 'hello' }
+  /** Opens an image or video; the tab follows the Blob's type. */
+  | { type: 'load'; asset: Blob }
+  | ({ type: 'configure' } & ConfigureOptions)
+  /** Answered by a `result` with the same requestId, whose result is null before the first step. */
+  | { type: 'get-result'; requestId: string };
+
+/** Editor to host. */
+export type EditorMessage =
+  | { type: 'ready' }
+  | { type: 'progress'; done: number; total: number }
+  /** Sent whenever the current result changes, and in answer to `get-result`. */
+  | { type: 'result'; result: EditorResult | null; requestId?: string }
+  | { type: 'error'; message: string; kind: CleanupFailureKind | null };
+
+export type Envelope<M> = M & { protocol: typeof EMBED_PROTOCOL; version: number };
+
+export const envelope = <M extends HostMessage | EditorMessage>(message: M): Envelope<M> =>
+  ({ ...message, protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION });
+
+/** A comma-separated list of origins, as in `VITE_EMBED_ORIGINS`. */
+export const parseOrigins = (value: string | undefined): string[] =>
+  (value || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+/**
+ * The origin an iframe was asked to trust, if it is on the allow-list, else null.
+ * Matched exactly, like the server's ALLOWED_ORIGINS: scheme, host and port.
+ */
+export const trustedHostOrigin = (requested: string | null, allowed: string[]): string | null =>
+  requested && allowed.includes(requested) ? requested : null;
+
+/** The message inside an envelope of this protocol version, or null for anything else. */
+export function readEnvelope<M extends HostMessage | EditorMessage>(data: any): M | null {
+  if (!data || data.protocol !== EMBED_PROTOCOL || data.version !== EMBED_PROTOCOL_VERSION || typeof data.type !== 'string') return null;
+  return data as M;
+}
+
+export interface EmbedClientOptions {
+  /** Origin ClearCast is served from. Messages from anywhere else are ignored. */
+  origin: string;
+  onReady?: () => void;
+  onResult?: (result: EditorResult) => void;
+  onProgress?: (done: number, total: number) => void;
+  onError?: (message: string, kind: CleanupFailureKind | null) => void;
+}
+
+export interface EmbedClient {
+  load(asset: Blob): void;
+  configure(options: ConfigureOptions): void;
+  /** The current result, or null when nothing has been cleaned yet. */
+  getResult(): Promise<EditorResult | null>;
+  /** Stops listening; pending getResult calls never settle. */
+  destroy(): void;
+}
+
+/** For host pages: drives a ClearCast iframe. Messages sent before it is ready are queued. */
+export function connectEmbed(frame: HTMLIFrameElement, { origin, onReady, onResult, onProgress, onError }: EmbedClientOptions): EmbedClient {
+  let ready = false;
+  let nextRequest = 0;
+  const queued: HostMessage[] = [];
+  const pending = new Map<string, (result: EditorResult | null) => void>();
+
+  const hello = () => frame.contentWindow?.postMessage(envelope<HostMessage>({ type: 'hello' }), origin);
+
+  const send = (message: HostMessage) => {
+    if (!ready || !frame.contentWindow) {
+      queued.push(message);
+      return;
+    }
+    frame.contentWindow.postMessage(envelope(message), origin);
+  };
+
+  const listener = (event: MessageEvent) => {
+    if (event.origin !== origin || event.source !== frame.contentWindow) return;
+    const message = readEnvelope<EditorMessage>(event.data);
+    if (!message) return;
+    switch (message.type) {
+      case 'ready':
+        if (ready) break;
+        ready = true;
+        queued.splice(0).forEach(send);
+        onReady?.();
+        break;
+      case 'progress':
+        onProgress?.(message.done, message.total);
+        break;
+      case 'result':
+        if (message.requestId) {
+          pending.get(message.requestId)?.(message.result);
+          pending.delete(message.requestId);
+        } else if (message.result) {
+          onResult?.(message.result);
+        }
+        break;
+      case 'error':
+        onError?.(message.message, message.kind);
+        break;
+    }
+  };
+  window.addEventListener('message', listener);
+  frame.addEventListener('load', hello);
+  hello();
+
+  return {
+    load: asset => send({ type: 'load', asset }),
+    configure: options => send({ type: 'configure', ...options }),
+    getResult: () => new Promise(resolve => {
+      const requestId = `request-${++nextRequest}`;
+      pending.set(requestId, resolve);
+      send({ type: 'get-result', requestId });
+    }),
+    destroy: () => {
+      window.removeEventListener('message', listener);
+      frame.removeEventListener('load', hello);
+    },
+  };
+}
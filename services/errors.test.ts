@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CleanupError, networkFetch, toCleanupFailure, withRetries } from "./errors";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toCleanupFailure', () => {
+  it('does not take a bug for a network error', () => {
+    const bug = new TypeError("Cannot read properties of undefined (reading 'data')");
+    expect(toCleanupFailure(bug).kind).toBe('unknown');
+  });
+
+  it('recognises connection failures reported by the SDK', () => {
+    expect(toCleanupFailure(new TypeError('fetch failed')).kind).toBe('network');
+    expect(toCleanupFailure(new TypeError('Failed to fetch')).kind).toBe('network');
+  });
+});
+
+describe('networkFetch', () => {
+  it('tags a request that got no response as a network failure', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    const error = await networkFetch('https://example.com').catch(err => err);
+    expect(error).toBeInstanceOf(CleanupError);
+    expect(toCleanupFailure(error).kind).toBe('network');
+  });
+
+  it('passes timeouts and responses through', async () => {
+    const timeout = new DOMException('The operation timed out.', 'TimeoutError');
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(timeout));
+    await expect(networkFetch('https://example.com')).rejects.toBe(timeout);
+
+    const response = new Response('nope', { status: 500 });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(response));
+    await expect(networkFetch('https://example.com')).resolves.toBe(response);
+  });
+});
+
+describe('withRetries', () => {
+  it('makes no further attempt once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(Object.assign(new Error('Unavailable'), { status: 503 }));
+    const sleep = vi.fn(async () => controller.abort());
+    await expect(withRetries(task, { signal: controller.signal, sleep })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,138 @@
+// One error model for every cloud call, shared by the app, the batch queue, the
+// video job manager and the CLI. Providers throw CleanupError; anything else
+// thrown along the way (fetch failures, SDK errors, proxy responses) is
+// classified by toCleanupFailure.
+
+/** Why a cleanup produced no result. `message` is the technical detail behind the kind. */
+export type CleanupFailure =
+  | { kind: 'auth'; message: string }
+  | { kind: 'rate-limit'; message: string; retryAfter: number | null }
+  | { kind: 'quota'; message: string; retryAfter: number | null }
+  | { kind: 'safety'; message: string; finishReason: string; modelText: string | null }
+  | { kind: 'text-only'; message: string; modelText: string }
+  | { kind: 'network'; message: string }
+  | { kind: 'timeout'; message: string }
+  | { kind: 'server'; message: string; status: number }
+  | { kind: 'unknown'; message: string };
+
+export type CleanupFailureKind = CleanupFailure['kind'];
+
+export class CleanupError extends Error {
+  constructor(public failure: CleanupFailure) {
+    super(failure.message);
+    this.name = 'CleanupError';
+  }
+}
+
+// Finish and block reasons Gemini uses when it refuses on policy grounds.
+const SAFETY_REASONS = [
+  'SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT',
+  'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_RECITATION',
+];
+
+const MAX_MODEL_TEXT = 500;
+
+/** Classifies a response that came back without an image. */
+export function failureForEmptyResult(finishReason?: string | null, text?: string | null): CleanupFailure {
+  const modelText = text?.trim().slice(0, MAX_MODEL_TEXT) || null;
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    return { kind: 'safety', message: `The model refused the request (${finishReason}).`, finishReason, modelText };
+  }
+  if (modelText) {
+    return { kind: 'text-only', message: `The model replied with text instead of an image: ${modelText}`, modelText };
+  }
+  return { kind: 'unknown', message: finishReason ? `The model returned no image (${finishReason}).` : "The model returned no image." };
+}
+
+/** Maps anything a provider call can throw to a failure kind. */
+export function toCleanupFailure(error: any): CleanupFailure {
+  if (error instanceof CleanupError) return error.failure;
+  const message: string = error?.message || String(error || 'Unknown error.');
+  if (error?.name === 'TimeoutError') return { kind: 'timeout', message: "The request took too long and was stopped." };
+
+  const status = Number(error?.status ?? error?.code);
+  const retryAfter = Number(error?.retryAfter) || null;
+  if (error?.kind === 'auth' || status === 401 || status === 403 || (status === 400 && /API key/i.test(message))) {
+    return { kind: 'auth', message };
+  }
+  if (error?.kind === 'quota' || (status === 429 && !retryAfter && /quota/i.test(message))) {
+    return { kind: 'quota', message, retryAfter };
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) return { kind: 'rate-limit', message, retryAfter };
+  if (error?.kind === 'timeout' || status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) {
+    return { kind: 'timeout', message };
+  }
+  if (status >= 500 && status < 600) return { kind: 'server', message, status };
+  // The SDK calls fetch itself, so its connection failures can only be told by their message.
+  if (/UNAVAILABLE|network|fetch failed|failed to fetch|ECONNRE|ENOTFOUND/i.test(message)) return { kind: 'network', message };
+  return { kind: 'unknown', message };
+}
+
+/**
+ * fetch for calls we make ourselves. A request that got no response at all
+ * rejects with a 'network' CleanupError rather than a bare TypeError, which
+ * could just as well be a bug. Timeouts and aborts are passed through.
+ */
+export async function networkFetch(input: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(input, init);
+  } catch (error: any) {
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') throw error;
+    throw new CleanupError({ kind: 'network', message: error?.message || "The request failed before a response arrived." });
+  }
+}
+
+/** Failures that may clear up on their own and are worth another attempt. */
+export const isTransient = (failure: CleanupFailure): boolean =>
+  failure.kind === 'rate-limit' || failure.kind === 'network' || failure.kind === 'timeout' || failure.kind === 'server';
+
+export const isTransientError = (error: any): boolean => isTransient(toCleanupFailure(error));
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  baseDelay?: number;
+  /** Longest wait between attempts; a server asking for more than this is not waited for. */
+  maxDelay?: number;
+  onRetry?: (failure: CleanupFailure, attempt: number, delayMs: number) => void;
+  /** Once aborted, no further attempt is made and the abort reason is thrown. */
+  signal?: AbortSignal;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY = 1000;
+// The server's limits reset every minute, so a Retry-After up to that is worth waiting for.
+const DEFAULT_MAX_DELAY = 60_000;
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff (or the
+ * server's Retry-After). Always rejects with a CleanupError.
+ */
+export async function withRetries<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelay = DEFAULT_BASE_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+    onRetry,
+    signal,
+    sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)),
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      signal?.throwIfAborted();
+      const failure = toCleanupFailure(err);
+      if (attempt > retries || !isTransient(failure)) throw err instanceof CleanupError ? err : new CleanupError(failure);
+      const retryAfter = failure.kind === 'rate-limit' ? failure.retryAfter : null;
+      // Jitter keeps parallel batch jobs from retrying in lockstep.
+      const delay = retryAfter ? retryAfter * 1000 : Math.min(maxDelay, baseDelay * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+      if (delay > maxDelay) throw new CleanupError(failure);
+      onRetry?.(failure, attempt, delay);
+      await sleep(delay);
+      signal?.throwIfAborted();
+    }
+  }
+}
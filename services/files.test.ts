@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { collectDroppedFiles } from "./files";
+
+const fileEntry = (file: File | Error) => ({
+  isFile: true,
+  isDirectory: false,
+  file: (done: (file: File) => void, fail: (err: Error) => void) => file instanceof Error ? fail(file) : done(file),
+}) as unknown as FileSystemEntry;
+
+const folder = (children: FileSystemEntry[]) => ({
+  isFile: false,
+  isDirectory: true,
+  createReader: () => {
+    const batches = [children, []];
+    return { readEntries: (done: (batch: FileSystemEntry[]) => void) => done(batches.shift()!) };
+  },
+}) as unknown as FileSystemEntry;
+
+const drop = (...entries: FileSystemEntry[]) => ({
+  items: entries.map(entry => ({ webkitGetAsEntry: () => entry })),
+  files: [],
+}) as unknown as DataTransfer;
+
+describe('collectDroppedFiles', () => {
+  it('walks into nested folders', async () => {
+    const shot = new File([], 'shot.png');
+    const other = new File([], 'other.png');
+    expect(await collectDroppedFiles(drop(folder([fileEntry(shot), folder([fileEntry(other)])])))).toEqual([shot, other]);
+  });
+
+  it('fails instead of hanging when a nested file cannot be read', async () => {
+    const unreadable = new Error('NotReadableError');
+    await expect(collectDroppedFiles(drop(folder([folder([fileEntry(unreadable)])])))).rejects.toBe(unreadable);
+  });
+});
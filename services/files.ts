@@ -0,0 +1,115 @@
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/tiff': 'tif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
+export const extensionForMimeType = (mimeType: string): string => {
+  return EXTENSIONS[mimeType] || mimeType.split('/')[1] || 'bin';
+};
+
+/** Best guess from a file name, for sources that carry no type (e.g. files read in Node). */
+export const mimeTypeForFileName = (name: string): string => {
+  const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  if (extension === 'jpeg') return 'image/jpeg';
+  if (extension === 'tiff') return 'image/tiff';
+  return Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension) || 'application/octet-stream';
+};
+
+export const mimeTypeOfDataUrl = (dataUrl: string): string => {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large files don't overflow the argument limit of fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Reads a Blob or File into a data URL. Works in Node as well as the browser. */
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return `data:${file.type || 'application/octet-stream'};base64,${bytesToBase64(bytes)}`;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1] || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Strips the extension from a file name: "shot.final.jpg" -> "shot.final". */
+export const baseName = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+export const triggerDownload = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    return new Promise((resolve, reject) => {
+      const entries: FileSystemEntry[] = [];
+      // readEntries returns at most ~100 entries per call, so keep reading until it comes back empty.
+      // The callback's own promise is dropped by readEntries, so a failing subfolder has to reject here.
+      const readBatch = () => reader.readEntries(async (batch) => {
+        try {
+          if (batch.length === 0) {
+            const nested = await Promise.all(entries.map(readEntry));
+            resolve(nested.flat());
+          } else {
+            entries.push(...batch);
+            readBatch();
+          }
+        } catch (err) {
+          reject(err);
+        }
+      }, reject);
+      readBatch();
+    });
+  }
+  return Promise.resolve([]);
+};
+
+/**
+ * Flattens a drop into a list of files, walking into any dropped folders.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+  const files = await Promise.all(entries.map(readEntry));
+  return files.flat();
+}
+
+/** Works for data:, blob: and same-origin http(s) URLs alike. */
+export const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not fetch result (${response.status}).`);
+  return response.blob();
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { createGeminiProvider } from "./gemini";
+import type { GeminiApi, JudgeBody } from "./proxyApi";
+
+describe('judgeCandidates', () => {
+  it('sends each candidate with its own type and scales the scores to 0..1', async () => {
+    const sent: JudgeBody[] = [];
+    const api = { judge: async (body: JudgeBody) => { sent.push(body); return { scores: [8, 12, -1] }; } } as unknown as GeminiApi;
+    const provider = createGeminiProvider({ api });
+    const scores = await provider.judgeCandidates!({
+      image: 'data:image/jpeg;base64,AAAA',
+      mimeType: 'image/jpeg',
+      instruction: 'Remove the logo.',
+      candidates: ['data:image/png;base64,BBBB', 'data:image/webp;base64,CCCC', 'DDDD'],
+    });
+    expect(scores).toEqual([0.8, 1, 0]);
+    expect(sent[0].original).toEqual({ data: 'AAAA', mimeType: 'image/jpeg' });
+    expect(sent[0].candidates).toEqual([
+      { data: 'BBBB', mimeType: 'image/png' },
+      { data: 'CCCC', mimeType: 'image/webp' },
+      { data: 'DDDD', mimeType: 'image/jpeg' },
+    ]);
+  });
+});
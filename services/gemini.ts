@@ -1,84 +1,194 @@
+import { canvasCodec, compositeWithMask, maskToBinaryPng } from "./mask";
+import { clampBox, DetectedRegion } from "./detection";
+import { generateId } from "./ids";
+import { mimeTypeOfDataUrl } from "./files";
+import { DEFAULT_INSTRUCTION } from "./presets";
+import { CleanupError, failureForEmptyResult, networkFetch, RetryOptions, withRetries } from "./errors";
+import type { InpaintingProvider, JudgeRequest } from "./inpainting";
+import type { ImageCodec } from "./raster";
+import type { VideoOperationsClient } from "./videoJobs";
+import {
+  API_ROUTES,
+  CLIENT_ID_HEADER,
+  IMAGE_MODEL,
+  VIDEO_MODEL,
+  ApiErrorBody,
+  ApiErrorKind,
+  GeminiApi,
+  InlineImage
+} from "./proxyApi";
 
-import { GoogleGenAI } from "@google/genai";
-
-export async function removeWatermarkFromImage(
-  base64Image: string,
-  mimeType: string,
-  instruction: string = "Please remove the watermark and any logos or branding text from this image. Seamlessly inpaint the area to match the surrounding texture and background as if the object was never there."
-): Promise<string | null> {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image.split(',')[1] || base64Image,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: instruction,
-          },
-        ],
-      },
-    });
+export { IMAGE_MODEL, VIDEO_MODEL, DETECTION_MODEL } from "./proxyApi";
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
+// In the browser all Gemini calls go through the ClearCast server (server/index.ts), which holds the API key.
 
-    return null;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
+const CLIENT_STORAGE_KEY = 'clearcast.client';
+// Long enough for a large image through a busy model; the server gives up on its side well before.
+const REQUEST_TIMEOUT_MS = 120_000;
+
+const browserClientId = (): string => {
+  let id = localStorage.getItem(CLIENT_STORAGE_KEY);
+  if (!id) {
+    id = generateId();
+    localStorage.setItem(CLIENT_STORAGE_KEY, id);
+  }
+  return id;
+};
+
+/** Carries the HTTP status and the server's error kind so toCleanupFailure can classify it. */
+export class ProxyError extends Error {
+  constructor(public status: number, message: string, public retryAfter?: number, public kind?: ApiErrorKind) {
+    super(message);
+    this.name = 'ProxyError';
   }
 }
 
-export async function processVideoWatermark(
-  prompt: string,
-  aspectRatio: "16:9" | "9:16" = "16:9"
-): Promise<string | null> {
-  try {
-    // Note: Veo models require a fresh instance to ensure the latest API key is used
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-    
-    let operation = await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: `${prompt}. Ensure the video is completely clean with no watermarks, logos, or overlays. High quality, seamless textures.`,
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: aspectRatio
-      }
-    });
+export interface ProxyClientOptions {
+  /** Origin of the ClearCast server; empty means same origin. */
+  baseUrl?: string;
+  clientId?: () => string;
+}
+
+export type ProxyClient = GeminiApi & Pick<VideoOperationsClient, 'downloadUrl'>;
 
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      // Re-fetch operation status
-      operation = await ai.operations.getVideosOperation({ operation: operation });
+export function createProxyClient({ baseUrl = '', clientId = browserClientId }: ProxyClientOptions = {}): ProxyClient {
+  const call = async <T>(route: string, body?: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await networkFetch(baseUrl + route, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: { 'content-type': 'application/json', [CLIENT_ID_HEADER]: clientId() },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(REQUEST_TIMEOUT_MS)]) : AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const error: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+      throw new ProxyError(response.status, error.error || `Server responded with ${response.status}.`, error.retryAfter, error.kind);
     }
+    return response.json();
+  };
 
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) return null;
+  return {
+    inpaint: (body, signal) => call(API_ROUTES.inpaint, body, signal),
+    detect: body => call(API_ROUTES.detect, body),
+    judge: body => call(API_ROUTES.judge, body),
+    startVideo: body => call(API_ROUTES.startVideo, body),
+    getVideoOperation: name => call(`${API_ROUTES.videoOperation}?name=${encodeURIComponent(name)}`),
+    // <video> and <a download> cannot send headers, so the client id rides along in the query.
+    downloadUrl: async videoUri =>
+      `${baseUrl}${API_ROUTES.videoDownload}?uri=${encodeURIComponent(videoUri)}&client=${encodeURIComponent(clientId())}`,
+  };
+}
 
-    // Append API key for download
-    return `${downloadLink}&key=${process.env.API_KEY}`;
-  } catch (error) {
-    console.error("Video Generation Error:", error);
-    throw error;
-  }
+const toInline = (dataUrl: string, mimeType: string): InlineImage => ({
+  data: dataUrl.split(',')[1] || dataUrl,
+  mimeType,
+});
+
+/** A data URL with the type it declares; bare base64 is taken to be `fallback`. */
+const inlineWithOwnType = (image: string, fallback: string): InlineImage =>
+  toInline(image, image.startsWith('data:') ? mimeTypeOfDataUrl(image) : fallback);
+
+export interface GeminiProviderOptions {
+  api: GeminiApi;
+  codec?: ImageCodec;
+  /** Needed for Veo regeneration; without it the provider offers images only. */
+  downloadUrl?: (videoUri: string) => Promise<string>;
 }
 
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
-};
+/** Gemini cleanup over any GeminiApi: the proxy in the browser, or the SDK directly in Node. */
+export function createGeminiProvider({ api, codec = canvasCodec, downloadUrl }: GeminiProviderOptions): InpaintingProvider {
+  const removeWatermark = async (
+    base64Image: string,
+    mimeType: string,
+    instruction: string = DEFAULT_INSTRUCTION,
+    mask?: string | null,
+    onRetry?: RetryOptions['onRetry'],
+    jobId?: string,
+    signal?: AbortSignal
+  ): Promise<string | null> => {
+    try {
+      const body = {
+        image: toInline(base64Image, mimeType),
+        instruction,
+        mask: mask ? toInline(await maskToBinaryPng(mask, codec), 'image/png') : null,
+        job: jobId || null,
+      };
+      const { image, finishReason, text } = await withRetries(() => api.inpaint(body, signal), { onRetry, signal });
+      if (!image) throw new CleanupError(failureForEmptyResult(finishReason, text));
+
+      const edited = `data:${image.mimeType};base64,${image.data}`;
+      // The model regenerates the whole frame; keep only what it painted inside the mask.
+      return mask ? compositeWithMask(base64Image, edited, mask, codec) : edited;
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      throw error;
+    }
+  };
+
+  const startVideoOperation = async (prompt: string, aspectRatio: "16:9" | "9:16" = "16:9"): Promise<string> => {
+    try {
+      const { operationName } = await withRetries(() => api.startVideo({ prompt, aspectRatio }));
+      return operationName;
+    } catch (error) {
+      console.error("Video Generation Error:", error);
+      throw error;
+    }
+  };
+
+  const detectWatermarkRegions = async (base64Image: string, mimeType: string): Promise<DetectedRegion[]> => {
+    try {
+      const { detections } = await withRetries(() => api.detect({ image: toInline(base64Image, mimeType) }));
+      return detections
+        .filter(item => Array.isArray(item.box_2d) && item.box_2d.length === 4)
+        .map(item => {
+          const [ymin, xmin, ymax, xmax] = item.box_2d.map(v => v / 1000);
+          return {
+            id: generateId(),
+            kind: item.kind,
+            label: item.label,
+            confidence: Math.min(1, Math.max(0, item.confidence)),
+            box: clampBox({ x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin }),
+            source: 'gemini' as const,
+          };
+        })
+        .filter(region => region.box.width > 0 && region.box.height > 0);
+    } catch (error) {
+      console.error("Gemini Detection Error:", error);
+      throw error;
+    }
+  };
+
+  const judgeCandidates = async ({ image, mimeType, instruction, candidates }: JudgeRequest): Promise<number[]> => {
+    try {
+      const { scores } = await withRetries(() => api.judge({
+        original: inlineWithOwnType(image, mimeType),
+        candidates: candidates.map(candidate => inlineWithOwnType(candidate, mimeType)),
+        instruction,
+      }));
+      return scores.map(score => Math.min(1, Math.max(0, score / 10)));
+    } catch (error) {
+      console.error("Gemini Judge Error:", error);
+      throw error;
+    }
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini (cloud)',
+    description: 'Gemini 2.5 Flash Image for photos and Veo 3.1 for video, through the ClearCast server. Requires network access.',
+    requiresNetwork: true,
+    requiresMask: false,
+    imageModel: IMAGE_MODEL,
+    videoModel: VIDEO_MODEL,
+    // The model answers at roughly 1024px whatever it is sent; larger inputs come back softer.
+    maxInputSide: 1024,
+    inpaintImage: ({ image, mimeType, instruction, mask, onRetry, jobId, signal }) =>
+      removeWatermark(image, mimeType, instruction, mask, onRetry, jobId, signal),
+    videoOperations: downloadUrl && {
+      start: ({ prompt, aspectRatio }) => startVideoOperation(prompt, aspectRatio),
+      poll: name => api.getVideoOperation(name),
+      downloadUrl,
+    },
+    detectRegions: ({ image, mimeType }) => detectWatermarkRegions(image, mimeType),
+    judgeCandidates,
+  };
+}
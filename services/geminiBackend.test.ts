@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createGeminiBackend, DEFAULT_BASE_URL } from "./geminiBackend";
+
+const VIDEO_URI = `${DEFAULT_BASE_URL}/v1beta/files/clip:download?alt=media`;
+const STORAGE_URL = 'https://storage.example.com/clip.mp4?signature=abc';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('downloadVideo', () => {
+  const backend = createGeminiBackend({ apiKey: 'secret' });
+
+  it('follows a redirect without taking the key along', async () => {
+    const fetch = vi.fn(async (url: string) => url === VIDEO_URI
+      ? new Response(null, { status: 302, headers: { location: STORAGE_URL } })
+      : new Response('clip', { headers: { 'content-type': 'video/mp4' } }));
+    vi.stubGlobal('fetch', fetch);
+
+    const response = await backend.downloadVideo(VIDEO_URI, 'bytes=0-');
+    expect(await response.text()).toBe('clip');
+    const calls = fetch.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url, init]) => [url, init.headers])).toEqual([
+      [VIDEO_URI, { 'x-goog-api-key': 'secret', range: 'bytes=0-' }],
+      [STORAGE_URL, { range: 'bytes=0-' }],
+    ]);
+  });
+
+  it('gives up on a redirect loop', async () => {
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 302, headers: { location: VIDEO_URI } }));
+    await expect(backend.downloadVideo(VIDEO_URI)).rejects.toMatchObject({ status: 502 });
+  });
+
+  it('rejects a URI that is not a URL as a bad request', async () => {
+    await expect(backend.downloadVideo('not a url')).rejects.toMatchObject({ status: 400 });
+  });
+});
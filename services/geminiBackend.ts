@@ -0,0 +1,186 @@
+import { GenerateVideosOperation, GoogleGenAI, Part, Type } from "@google/genai";
+import { networkFetch } from "./errors";
+import {
+  DETECTION_MODEL,
+  IMAGE_MODEL,
+  JUDGE_MODEL,
+  VIDEO_MODEL,
+  DetectBody,
+  DetectResponse,
+  InpaintBody,
+  InpaintResponse,
+  JudgeBody,
+  JudgeResponse,
+  RawDetection,
+  StartVideoBody,
+  StartVideoResponse,
+  VideoOperationResponse
+} from "./proxyApi";
+
+export const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 5;
+
+const DETECTION_PROMPT = `Find every watermark, logo, semi-transparent stamp and burned-in text overlay (captions, handles, URLs, timestamps) that was added on top of this image. Ignore text that is naturally part of the scene, such as signs or printed packaging. For each one return its kind, a short label, your confidence from 0 to 1 and box_2d as [ymin, xmin, ymax, xmax] normalised to 0-1000. Return an empty list if there are none.`;
+
+const judgePrompt = (instruction: string, count: number) => `The first image is an original. The ${count} images after it are candidate edits of it, made by following this instruction:
+
+${instruction}
+
+Rate each candidate from 0 to 10 for how completely it carried out the instruction, how natural the edited area looks and how well everything else was left unchanged. Return one entry per candidate, numbered from 1 in the order given.`;
+
+export interface GeminiBackendOptions {
+  apiKey: string;
+  /** Points the SDK at another host, e.g. the local stub in server/geminiStub.ts. */
+  baseUrl?: string;
+}
+
+/**
+ * All calls that need the API key. Nothing returned from here contains it. Runs
+ * in the server and the CLI, and in the browser when AI Studio hands out the key.
+ */
+export function createGeminiBackend({ apiKey, baseUrl = DEFAULT_BASE_URL }: GeminiBackendOptions) {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { baseUrl } });
+
+  const inpaint = async ({ image, instruction, mask }: InpaintBody, signal?: AbortSignal): Promise<InpaintResponse> => {
+    const parts: Part[] = [{ inlineData: image }];
+    if (mask) {
+      // Send the region as a second image so the model knows exactly where to work.
+      parts.push({ inlineData: mask });
+      parts.push({
+        text: `${instruction}\n\nThe second image is a mask. Only change the pixels under the white area of the mask; everything under the black area must stay identical to the first image.`,
+      });
+    } else {
+      parts.push({ text: instruction });
+    }
+
+    const response = await ai.models.generateContent({ model: IMAGE_MODEL, contents: { parts }, config: { abortSignal: signal } });
+    const candidate = response.candidates?.[0];
+    const text = (candidate?.content?.parts || []).map(part => part.text || '').join('').trim() || null;
+    for (const part of candidate?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return { image: { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' }, text };
+      }
+    }
+    return { image: null, finishReason: candidate?.finishReason || response.promptFeedback?.blockReason || null, text };
+  };
+
+  const detect = async ({ image }: DetectBody): Promise<DetectResponse> => {
+    const response = await ai.models.generateContent({
+      model: DETECTION_MODEL,
+      contents: { parts: [{ inlineData: image }, { text: DETECTION_PROMPT }] },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: ['text', 'logo', 'stamp'] },
+              label: { type: Type.STRING },
+              confidence: { type: Type.NUMBER },
+              box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+            },
+            required: ['kind', 'label', 'confidence', 'box_2d'],
+          },
+        },
+      },
+    });
+    const detections: RawDetection[] = JSON.parse(response.text || '[]');
+    return { detections };
+  };
+
+  const judge = async ({ original, candidates, instruction }: JudgeBody): Promise<JudgeResponse> => {
+    const response = await ai.models.generateContent({
+      model: JUDGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: original },
+          ...candidates.map(candidate => ({ inlineData: candidate })),
+          { text: judgePrompt(instruction, candidates.length) },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              candidate: { type: Type.INTEGER },
+              score: { type: Type.NUMBER },
+            },
+            required: ['candidate', 'score'],
+          },
+        },
+      },
+    });
+    const ratings: { candidate: number; score: number }[] = JSON.parse(response.text || '[]');
+    // Candidates the model skipped get the lowest rating rather than shifting the others.
+    return { scores: candidates.map((_, i) => ratings.find(r => r.candidate === i + 1)?.score ?? 0) };
+  };
+
+  const startVideo = async ({ prompt, aspectRatio }: StartVideoBody): Promise<StartVideoResponse> => {
+    const operation = await ai.models.generateVideos({
+      model: VIDEO_MODEL,
+      prompt: `${prompt}. Ensure the video is completely clean with no watermarks, logos, or overlays. High quality, seamless textures.`,
+      config: {
+        numberOfVideos: 1,
+        resolution: '720p',
+        aspectRatio: aspectRatio
+      }
+    });
+    if (!operation.name) throw new Error("Veo did not return an operation handle.");
+    return { operationName: operation.name };
+  };
+
+  /** One status check of a Veo operation, rebuilt from its name. */
+  const getVideoOperation = async (operationName: string): Promise<VideoOperationResponse> => {
+    const handle = new GenerateVideosOperation();
+    handle.name = operationName;
+    const operation = await ai.operations.getVideosOperation({ operation: handle });
+    if (!operation.done) return { done: false };
+    const error = operation.error ? String(operation.error.message || JSON.stringify(operation.error)) : null;
+    return { done: true, videoUri: operation.response?.generatedVideos?.[0]?.video?.uri || null, error };
+  };
+
+  /**
+   * Fetches a generated video with the key in a header. Only URIs on the API host
+   * are accepted, so the proxy cannot be used to fetch arbitrary URLs. Redirects
+   * are followed here, and the key is only sent again to the API host itself.
+   */
+  const downloadVideo = async (videoUri: string, range?: string): Promise<Response> => {
+    let url: URL;
+    try {
+      url = new URL(videoUri);
+    } catch {
+      throw Object.assign(new Error("The video URI is not a valid URL."), { status: 400 });
+    }
+    const apiOrigin = new URL(baseUrl).origin;
+    if (url.origin !== apiOrigin) {
+      throw Object.assign(new Error("Only generated videos can be downloaded."), { status: 400 });
+    }
+    const get = (target: URL, redirect: RequestRedirect) => networkFetch(target.href, {
+      headers: { ...(target.origin === apiOrigin ? { 'x-goog-api-key': apiKey } : {}), ...(range ? { range } : {}) },
+      redirect,
+    });
+
+    let response = await get(url, 'manual');
+    // Browsers hide where a redirect points, so there it can only be left to the browser.
+    if (response.type === 'opaqueredirect') return get(url, 'follow');
+    for (let hops = 0; REDIRECT_STATUSES.has(response.status); hops++) {
+      const location = response.headers.get('location');
+      await response.body?.cancel();
+      if (!location) throw Object.assign(new Error("The video download was redirected nowhere."), { status: 502 });
+      if (hops === MAX_REDIRECTS) throw Object.assign(new Error("The video download was redirected too often."), { status: 502 });
+      url = new URL(location, url);
+      response = await get(url, 'manual');
+    }
+    return response;
+  };
+
+  return { inpaint, detect, judge, startVideo, getVideoOperation, downloadVideo };
+}
+
+export type GeminiBackend = ReturnType<typeof createGeminiBackend>;
@@ -0,0 +1,427 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from "fflate";
+import { extensionForMimeType } from "./files";
+import { generateId } from "./ids";
+import { addNode, createGraph, mapGraphMedia } from "./editGraph";
+import type { AuditRecord, EditGraph, EditHistory, HistoryQuery, Project, QueuedCleanup } from "../types";
+
+const DB_NAME = 'clearcast';
+// v2: entries hold a whole edit graph instead of an original/edited pair.
+// v3: adds the audit log.
+// v4: adds the queue of cleanups waiting for a connection.
+const DB_VERSION = 4;
+const PROJECTS = 'projects';
+const ENTRIES = 'entries';
+const AUDIT = 'audit';
+const QUEUE = 'queue';
+
+const ARCHIVE_FORMAT = 'clearcast-project';
+const ARCHIVE_VERSION = 2;
+
+/** Usage ratio above which the oldest entries are pruned automatically. */
+const QUOTA_HIGH_WATER = 0.9;
+
+/** Shape of entries written before edit graphs existed (DB v1, archive v1). */
+interface FlatEntry extends Omit<EditHistory, 'graph'> {
+  original: Blob;
+  edited: Blob;
+}
+
+const graphFromFlat = ({ original, edited, instruction, provider, model }: FlatEntry): EditGraph<Blob> => {
+  const graph = createGraph(original);
+  return addNode(graph, graph.rootId, edited, { instruction, provider, model });
+};
+
+const entrySize = (entry: EditHistory) =>
+  Object.values(entry.graph.nodes).reduce((total, node) => total + node.media.size, entry.thumbnail?.size || 0);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ENTRIES)) {
+          const entries = db.createObjectStore(ENTRIES, { keyPath: 'id' });
+          entries.createIndex('projectId', 'projectId');
+          entries.createIndex('timestamp', 'timestamp');
+        } else if (e.oldVersion < 2) {
+          const cursorRequest = request.transaction!.objectStore(ENTRIES).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { original, edited, ...rest } = cursor.value as FlatEntry;
+            cursor.update({ ...rest, graph: graphFromFlat(cursor.value) });
+            cursor.continue();
+          };
+        }
+        if (!db.objectStoreNames.contains(AUDIT)) {
+          db.createObjectStore(AUDIT, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(QUEUE)) {
+          db.createObjectStore(QUEUE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await run(tx);
+  await done;
+  return result;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// --- Projects ---
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await transaction([PROJECTS], 'readonly', tx => promisify(tx.objectStore(PROJECTS).getAll()));
+  return (projects as Project[]).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createProject(name: string): Promise<Project> {
+  const now = Date.now();
+  const project: Project = { id: generateId(), name: name.trim() || 'Untitled project', createdAt: now, updatedAt: now };
+  await transaction([PROJECTS], 'readwrite', tx => promisify(tx.objectStore(PROJECTS).put(project)));
+  return project;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  await transaction([PROJECTS], 'readwrite', async tx => {
+    const store = tx.objectStore(PROJECTS);
+    const project = await promisify(store.get(id)) as Project | undefined;
+    if (project) await promisify(store.put({ ...project, name: name.trim() || project.name, updatedAt: Date.now() }));
+  });
+}
+
+/** Deletes the project together with every entry in it. */
+export async function deleteProject(id: string): Promise<void> {
+  await transaction([PROJECTS, ENTRIES], 'readwrite', async tx => {
+    const keys = await promisify(tx.objectStore(ENTRIES).index('projectId').getAllKeys(id));
+    await Promise.all(keys.map(key => promisify(tx.objectStore(ENTRIES).delete(key))));
+    await promisify(tx.objectStore(PROJECTS).delete(id));
+  });
+}
+
+/**
+ * Returns the most recently used project, creating a default one on first run.
+ */
+export async function ensureProject(preferredId?: string | null): Promise<Project> {
+  const projects = await listProjects();
+  return projects.find(p => p.id === preferredId) || projects[0] || createProject('My Project');
+}
+
+// --- Entries ---
+
+const touchProject = (tx: IDBTransaction, projectId: string) => {
+  const store = tx.objectStore(PROJECTS);
+  const request = store.get(projectId);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, updatedAt: Date.now() });
+  };
+};
+
+const putEntry = (entry: EditHistory) =>
+  transaction([ENTRIES, PROJECTS], 'readwrite', async tx => {
+    await promisify(tx.objectStore(ENTRIES).put(entry));
+    touchProject(tx, entry.projectId);
+  });
+
+/**
+ * Creates or updates an entry. When the browser refuses the write for lack of space, the
+ * oldest entries are pruned and the write is retried once. Pruning is reported to the
+ * `watchPruning` listeners.
+ */
+export async function saveEntry(entry: EditHistory): Promise<void> {
+  try {
+    await putEntry(entry);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    await pruneOldest(entrySize(entry));
+    await putEntry(entry);
+  }
+  await enforceQuota();
+}
+
+export async function getEntry(id: string): Promise<EditHistory | null> {
+  const entry = await transaction([ENTRIES], 'readonly', tx => promisify(tx.objectStore(ENTRIES).get(id)));
+  return (entry as EditHistory | undefined) || null;
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  await transaction([ENTRIES], 'readwrite', tx => promisify(tx.objectStore(ENTRIES).delete(id)));
+}
+
+export async function listEntries(projectId: string): Promise<EditHistory[]> {
+  const entries = await transaction([ENTRIES], 'readonly', tx =>
+    promisify(tx.objectStore(ENTRIES).index('projectId').getAll(projectId))
+  );
+  return (entries as EditHistory[]).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function searchEntries(projectId: string, query: HistoryQuery): Promise<EditHistory[]> {
+  const text = query.text?.trim().toLowerCase();
+  return (await listEntries(projectId)).filter(entry =>
+    (!text || Object.values(entry.graph.nodes).some(node =>
+      node.instruction.toLowerCase().includes(text) || !!node.preset?.name.toLowerCase().includes(text)
+    )) &&
+    (!query.type || query.type === 'all' || entry.type === query.type) &&
+    (query.from === undefined || entry.timestamp >= query.from) &&
+    (query.to === undefined || entry.timestamp <= query.to)
+  );
+}
+
+// --- Storage quota ---
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+}
+
+/** Asks the browser not to evict our data under storage pressure. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  return navigator.storage?.persist ? navigator.storage.persist() : false;
+}
+
+/** What is left of an entry that pruning removed, enough to tell the user which one it was. */
+export type PrunedEntry = Pick<EditHistory, 'id' | 'projectId' | 'type' | 'instruction' | 'timestamp'>;
+
+const entryGuards = new Set<() => Iterable<string>>();
+const pruneListeners = new Set<(entries: PrunedEntry[]) => void>();
+
+/**
+ * Keeps the entries `source` names out of pruning, e.g. the ones a resumable
+ * video job will add its clip to. Returns a function that lifts the protection.
+ */
+export function protectEntries(source: () => Iterable<string>): () => void {
+  entryGuards.add(source);
+  return () => entryGuards.delete(source);
+}
+
+/** Calls `listener` whenever entries were pruned, automatically or on request. */
+export function watchPruning(listener: (entries: PrunedEntry[]) => void): () => void {
+  pruneListeners.add(listener);
+  return () => pruneListeners.delete(listener);
+}
+
+/**
+ * Deletes the oldest entries across all projects until roughly `bytes` have been freed.
+ * Entries a queued offline cleanup or a protected source still refers to are skipped.
+ * Returns the entries removed.
+ */
+export async function pruneOldest(bytes: number): Promise<PrunedEntry[]> {
+  const keep = new Set<string>();
+  entryGuards.forEach(source => { for (const id of source()) keep.add(id); });
+  let freed = 0;
+  const removed: PrunedEntry[] = [];
+  await transaction([ENTRIES, QUEUE], 'readwrite', async tx => {
+    const queued = await promisify(tx.objectStore(QUEUE).getAll()) as QueuedCleanup[];
+    queued.forEach(job => keep.add(job.entryId));
+    await new Promise<void>((resolve, reject) => {
+      const request = tx.objectStore(ENTRIES).index('timestamp').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || freed >= bytes) return resolve();
+        const entry = cursor.value as EditHistory;
+        if (!keep.has(entry.id)) {
+          freed += entrySize(entry);
+          removed.push({ id: entry.id, projectId: entry.projectId, type: entry.type, instruction: entry.instruction, timestamp: entry.timestamp });
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  });
+  if (removed.length) pruneListeners.forEach(listener => listener(removed));
+  return removed;
+}
+
+const enforceQuota = async () => {
+  const usage = await getStorageUsage();
+  if (!usage || usage.quota === 0) return;
+  if (usage.usage > usage.quota * QUOTA_HIGH_WATER) {
+    await pruneOldest(usage.usage - usage.quota * QUOTA_HIGH_WATER);
+  }
+};
+
+// --- Audit log ---
+// Kept in its own store so deleting projects or pruning history never removes a record.
+
+export async function appendAuditRecord(record: AuditRecord): Promise<void> {
+  await transaction([AUDIT], 'readwrite', tx => promisify(tx.objectStore(AUDIT).add(record)));
+}
+
+export async function listAuditRecords(): Promise<AuditRecord[]> {
+  return transaction([AUDIT], 'readonly', tx => promisify(tx.objectStore(AUDIT).index('timestamp').getAll())) as Promise<AuditRecord[]>;
+}
+
+/** The full log as pretty-printed JSON, oldest job first. */
+export async function exportAuditLog(): Promise<Blob> {
+  const records = await listAuditRecords();
+  const log = { format: 'clearcast-audit-log', exportedAt: new Date().toISOString(), records };
+  return new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+}
+
+// --- Offline queue ---
+// Kept out of the entry pruning: a queued job holds no result yet and is removed once it has one.
+
+export async function putQueuedCleanup(job: QueuedCleanup): Promise<void> {
+  await transaction([QUEUE], 'readwrite', tx => promisify(tx.objectStore(QUEUE).put(job)));
+}
+
+/** Oldest first, the order they run in. */
+export async function listQueuedCleanups(): Promise<QueuedCleanup[]> {
+  return transaction([QUEUE], 'readonly', tx => promisify(tx.objectStore(QUEUE).index('createdAt').getAll())) as Promise<QueuedCleanup[]>;
+}
+
+export async function deleteQueuedCleanup(id: string): Promise<void> {
+  await transaction([QUEUE], 'readwrite', tx => promisify(tx.objectStore(QUEUE).delete(id)));
+}
+
+// --- Archive export / import ---
+
+/** Where a node's media lives inside the archive. */
+interface ArchiveMedia {
+  file: string;
+  type: string;
+}
+
+interface ArchiveEntry extends Omit<EditHistory, 'graph' | 'thumbnail' | 'projectId'> {
+  graph: EditGraph<ArchiveMedia>;
+  thumbnail: string | null;
+}
+
+/** Entry layout of version 1 archives, still accepted on import. */
+interface ArchiveEntryV1 extends Omit<EditHistory, 'graph' | 'thumbnail' | 'projectId'> {
+  originalType: string;
+  editedType: string;
+  files: { original: string; edited: string; thumbnail: string | null };
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  project: Project;
+  entries: (ArchiveEntry | ArchiveEntryV1)[];
+}
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * Packs a project and all of its media into a single ZIP archive.
+ */
+export async function exportProject(projectId: string): Promise<Blob> {
+  const project = (await listProjects()).find(p => p.id === projectId);
+  if (!project) throw new Error("Project not found.");
+  const entries = await listEntries(projectId);
+
+  const files: Record<string, Uint8Array> = {};
+  const manifestEntries: ArchiveEntry[] = [];
+  for (const { graph, thumbnail, projectId: _, ...meta } of entries) {
+    // The manifest keeps the graph structure; node media is replaced by its path in the archive.
+    const archivedGraph = await mapGraphMedia(graph, async (media, node): Promise<ArchiveMedia> => {
+      const file = `media/${meta.id}/${node.id}.${extensionForMimeType(media.type)}`;
+      files[file] = await blobBytes(media);
+      return { file, type: media.type };
+    });
+    const thumbnailPath = thumbnail ? `media/${meta.id}/thumb.jpg` : null;
+    if (thumbnail && thumbnailPath) files[thumbnailPath] = await blobBytes(thumbnail);
+    manifestEntries.push({ ...meta, graph: archivedGraph, thumbnail: thumbnailPath });
+  }
+
+  const manifest: ArchiveManifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, project, entries: manifestEntries };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+}
+
+/**
+ * Restores an archive created by `exportProject` as a new project. Ids are
+ * regenerated so importing the same archive twice never overwrites anything.
+ */
+export async function importProject(archive: Blob): Promise<Project> {
+  const files = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+  if (!files['manifest.json']) throw new Error("This file is not a ClearCast project archive.");
+  const manifest = JSON.parse(strFromU8(files['manifest.json'])) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT || manifest.version > ARCHIVE_VERSION) {
+    throw new Error("This project archive was created by an unsupported version of ClearCast.");
+  }
+
+  const readFile = (path: string, type: string) => {
+    if (!files[path]) throw new Error(`The archive is missing ${path}.`);
+    return new Blob([files[path]], { type });
+  };
+
+  // Every entry is read from the archive before anything is written, so a broken archive leaves no half-filled project.
+  const entries = await Promise.all(manifest.entries.map(async (item): Promise<Omit<EditHistory, 'projectId'>> => {
+    if ('files' in item) {
+      const { files: paths, originalType, editedType, ...meta } = item;
+      const flat: FlatEntry = {
+        ...meta,
+        id: generateId(),
+        projectId: '',
+        original: readFile(paths.original, originalType),
+        edited: readFile(paths.edited, editedType),
+        thumbnail: paths.thumbnail && files[paths.thumbnail] ? readFile(paths.thumbnail, 'image/jpeg') : null,
+      };
+      const { original, edited, projectId: _, ...rest } = flat;
+      return { ...rest, graph: graphFromFlat(flat) };
+    }
+    const { graph, thumbnail, ...meta } = item;
+    return {
+      ...meta,
+      id: generateId(),
+      graph: await mapGraphMedia(graph, async media => readFile(media.file, media.type)),
+      thumbnail: thumbnail && files[thumbnail] ? readFile(thumbnail, 'image/jpeg') : null,
+    };
+  }));
+
+  const project = await createProject(`${manifest.project.name} (imported)`);
+  try {
+    for (const entry of entries) await saveEntry({ ...entry, projectId: project.id });
+  } catch (err) {
+    // Saving can still fail part way, e.g. when storage runs out.
+    await deleteProject(project.id).catch(cleanupError => console.error("Import Cleanup Error:", cleanupError));
+    throw err;
+  }
+  return project;
+}
@@ -0,0 +1,226 @@
+// Message catalogs and locale-aware formatting for the editor UI. Catalogs are
+// the JSON files in locales/, one per language, keyed by the English catalog's
+// keys. A message is either a string or, when it depends on a count, an object
+// of CLDR plural forms (`one`, `few`, `other`, ...). `{name}` placeholders are
+// filled from the variables passed to `t`; unknown ones are left as written, so
+// preset templates keep their `{region}`.
+
+import en from "../locales/en.json";
+import es from "../locales/es.json";
+import de from "../locales/de.json";
+import ar from "../locales/ar.json";
+import { BUILT_IN_PRESETS } from "./presets";
+import type { CleanupFailure } from "./errors";
+import type { InstructionPreset } from "../types";
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>>;
+export type Message = string | PluralMessage;
+export type Catalog = Record<string, Message>;
+export type MessageKey = keyof typeof en;
+export type MessageVars = Record<string, string | number>;
+
+export type Locale = 'en' | 'es' | 'de' | 'ar';
+
+export interface LocaleInfo {
+  id: Locale;
+  /** The language's own name, for the switcher. */
+  label: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'en', label: 'English', dir: 'ltr' },
+  { id: 'es', label: 'Español', dir: 'ltr' },
+  { id: 'de', label: 'Deutsch', dir: 'ltr' },
+  { id: 'ar', label: 'العربية', dir: 'rtl' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** The reference catalog is English: every other one must have the same keys. */
+export const CATALOGS: Record<Locale, Catalog> = { en, es, de, ar };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/** The first supported locale among BCP 47 tags in order of preference, e.g. navigator.languages. */
+export function matchLocale(preferred: readonly (string | null | undefined)[]): Locale {
+  for (const tag of preferred) {
+    const language = tag?.toLowerCase().split(/[-_]/)[0];
+    const match = LOCALES.find(locale => locale.id === language);
+    if (match) return match.id;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export interface I18n {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  /** The message for `key`, from English when this catalog lacks it. Plural messages pick their form from `vars.count`. */
+  t: (key: MessageKey, vars?: MessageVars) => string;
+  /** Whether the catalogs define `key`, for keys built at runtime. */
+  has: (key: string) => key is MessageKey;
+  /** With exactly `fractionDigits` decimals when given. */
+  formatNumber: (value: number, fractionDigits?: number) => string;
+  /** A 0-1 fraction as a whole percentage. */
+  formatPercent: (fraction: number) => string;
+  formatDateTime: (timestamp: number) => string;
+  formatTime: (timestamp: number) => string;
+  formatBytes: (bytes: number) => string;
+  /** A wait such as "30 seconds" or "2 hours". */
+  formatDuration: (seconds: number) => string;
+}
+
+const BYTE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'];
+
+export function createI18n(locale: Locale): I18n {
+  const catalog = CATALOGS[locale];
+  const dir = LOCALES.find(info => info.id === locale)!.dir;
+  const numbers = new Intl.NumberFormat(locale);
+  const percents = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+  const dateTimes = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' });
+  const times = new Intl.DateTimeFormat(locale, { timeStyle: 'medium' });
+  const plurals = new Intl.PluralRules(locale);
+
+  const t = (key: MessageKey, vars: MessageVars = {}): string => {
+    const message: Message | undefined = catalog[key] ?? (en as Catalog)[key];
+    if (message === undefined) return key;
+    const text = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(vars.count ?? 0))] ?? message.other ?? '';
+    return text.replace(PLACEHOLDER, (placeholder, name) => {
+      const value = vars[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+
+  const formatBytes = (bytes: number): string => {
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return new Intl.NumberFormat(locale, {
+      style: 'unit',
+      unit: BYTE_UNITS[unit],
+      unitDisplay: unit === 0 ? 'long' : 'short',
+      maximumFractionDigits: unit > 0 && value < 10 ? 1 : 0,
+    }).format(value);
+  };
+
+  const formatDuration = (seconds: number): string => {
+    const [value, unit] = seconds < 90 ? [Math.ceil(seconds), 'second']
+      : seconds < 90 * 60 ? [Math.ceil(seconds / 60), 'minute']
+      : [Math.ceil(seconds / 3600), 'hour'];
+    return new Intl.NumberFormat(locale, { style: 'unit', unit: unit as string, unitDisplay: 'long' }).format(value as number);
+  };
+
+  return {
+    locale,
+    dir,
+    t,
+    has: (key: string): key is MessageKey => key in en,
+    formatNumber: (value, fractionDigits) => fractionDigits === undefined
+      ? numbers.format(value)
+      : new Intl.NumberFormat(locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value),
+    formatPercent: fraction => percents.format(fraction),
+    formatDateTime: timestamp => dateTimes.format(timestamp),
+    formatTime: timestamp => times.format(timestamp),
+    formatBytes,
+    formatDuration,
+  };
+}
+
+/**
+ * The built-in presets with their names and templates in the UI language, so
+ * the instruction sent to the model is in that language too. User presets are
+ * kept as written.
+ */
+export const localizedPresets = (i18n: I18n): InstructionPreset[] =>
+  BUILT_IN_PRESETS.map(preset => ({
+    ...preset,
+    name: i18n.t(`preset.${preset.id}.name` as MessageKey),
+    template: i18n.t(`preset.${preset.id}.template` as MessageKey),
+  }));
+
+export interface FailureDescription {
+  title: string;
+  /** What the user can do about it. */
+  guidance: string;
+  /** The model's own explanation, when it gave one. */
+  modelText?: string | null;
+}
+
+/** What went wrong and what to do about it, in the UI language. */
+export function localizeFailure(i18n: I18n, failure: CleanupFailure): FailureDescription {
+  const { t } = i18n;
+  switch (failure.kind) {
+    case 'rate-limit':
+    case 'quota':
+      return {
+        title: t(`failure.${failure.kind}.title`),
+        guidance: failure.retryAfter
+          ? t(`failure.${failure.kind}.guidanceWait`, { wait: i18n.formatDuration(failure.retryAfter) })
+          : t(`failure.${failure.kind}.guidance`),
+      };
+    case 'safety':
+      return {
+        title: t('failure.safety.title', { reason: failure.finishReason }),
+        guidance: t('failure.safety.guidance'),
+        modelText: failure.modelText,
+      };
+    case 'text-only':
+      return { title: t('failure.text-only.title'), guidance: t('failure.text-only.guidance'), modelText: failure.modelText };
+    case 'server':
+      return { title: t('failure.server.title', { status: String(failure.status) }), guidance: t('failure.server.guidance') };
+    case 'auth':
+    case 'network':
+    case 'timeout':
+      return { title: t(`failure.${failure.kind}.title`), guidance: t(`failure.${failure.kind}.guidance`) };
+    default:
+      return { title: t('failure.unknown.title'), guidance: failure.message };
+  }
+}
+
+/**
+ * Problems with `catalog` compared with the reference (English) catalog:
+ * missing or extra keys, a plain string where a plural is expected or the other
+ * way round, plural forms the locale needs but lacks, and placeholders that
+ * differ from the reference. Empty when the catalog is complete.
+ */
+export function checkCatalog(locale: string, catalog: Catalog, reference: Catalog = en): string[] {
+  const problems: string[] = [];
+  const categories = new Intl.PluralRules(locale).resolvedOptions().pluralCategories;
+  const placeholders = (text: string) => new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1]));
+
+  for (const [key, expected] of Object.entries(reference)) {
+    const actual = catalog[key];
+    if (actual === undefined) {
+      problems.push(`${key}: missing`);
+      continue;
+    }
+    if (typeof expected !== typeof actual) {
+      problems.push(`${key}: should be ${typeof expected === 'string' ? 'a string' : 'a plural object'}`);
+      continue;
+    }
+    const expectedNames = placeholders(typeof expected === 'string' ? expected : expected.other || '');
+    const forms: [string, string][] = typeof actual === 'string'
+      ? [['', actual]]
+      : Object.entries(actual as PluralMessage);
+    if (typeof actual !== 'string') {
+      categories.filter(category => !(category in actual)).forEach(category => problems.push(`${key}: missing plural form "${category}"`));
+    }
+    for (const [form, text] of forms) {
+      const names = placeholders(text);
+      const label = form ? `${key} (${form})` : key;
+      // Singular forms may spell the number out ("one task"), so {count} is optional there.
+      [...expectedNames]
+        .filter(name => !names.has(name) && !(form && form !== 'other' && name === 'count'))
+        .forEach(name => problems.push(`${label}: missing {${name}}`));
+      [...names].filter(name => !expectedNames.has(name)).forEach(name => problems.push(`${label}: unknown {${name}}`));
+    }
+  }
+  Object.keys(catalog).filter(key => !(key in reference)).forEach(key => problems.push(`${key}: not in the reference catalog`));
+  return problems;
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { inpaintTelea } from "./telea";
+import type { InpaintWorkerRequest, InpaintWorkerResponse } from "./inpaint.worker";
+
+// Stands in for the worker scope the module assigns its handler to.
+const scope = {
+  onmessage: null as ((e: { data: InpaintWorkerRequest }) => void) | null,
+  postMessage: vi.fn<(message: InpaintWorkerResponse, transfer?: Transferable[]) => void>(),
+};
+
+const loadWorker = async () => {
+  vi.stubGlobal('self', scope);
+  await import("./inpaint.worker");
+  return scope.onmessage!;
+};
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('inpaint worker', () => {
+  it('answers with the same pixels as inpaintTelea on the main thread', async () => {
+    const onmessage = await loadWorker();
+    const pixels = new Uint8ClampedArray(8 * 8 * 4).map((_, i) => (i * 37) % 256);
+    const mask = new Uint8Array(8 * 8).map((_, i) => (i % 8 > 2 && i % 8 < 6 && i > 16 && i < 48 ? 1 : 0));
+    const expected = inpaintTelea(pixels, 8, 8, mask, 4);
+
+    onmessage({ data: { id: 3, pixels: new Uint8ClampedArray(pixels), width: 8, height: 8, mask, radius: 4 } });
+
+    const [response] = scope.postMessage.mock.calls[0];
+    expect(response.id).toBe(3);
+    expect(response.pixels).toEqual(expected);
+  });
+
+  it('reports failures instead of throwing', async () => {
+    const onmessage = await loadWorker();
+    scope.postMessage.mockClear();
+    onmessage({ data: { id: 4, pixels: new Uint8ClampedArray(16), width: -2, height: 2, mask: new Uint8Array(4).fill(1), radius: 1 } });
+    expect(scope.postMessage).toHaveBeenCalledWith({ id: 4, error: expect.any(String) });
+  });
+});
@@ -0,0 +1,32 @@
+import { inpaintTelea } from './telea';
+
+export interface InpaintWorkerRequest {
+  id: number;
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  mask: Uint8Array;
+  radius: number;
+}
+
+export interface InpaintWorkerResponse {
+  id: number;
+  pixels?: Uint8ClampedArray;
+  error?: string;
+}
+
+// The project compiles against the DOM lib, so describe the bits of the worker scope we use.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<InpaintWorkerRequest>) => void) | null;
+  postMessage: (message: InpaintWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = (e) => {
+  const { id, pixels, width, height, mask, radius } = e.data;
+  try {
+    const result = inpaintTelea(pixels, width, height, mask, radius);
+    scope.postMessage({ id, pixels: result }, [result.buffer]);
+  } catch (error: any) {
+    scope.postMessage({ id, error: error?.message || 'Local inpainting failed.' });
+  }
+};
@@ -0,0 +1,67 @@
+import type { DetectedRegion } from "./detection";
+import type { VideoOperationsClient } from "./videoJobs";
+import type { RetryOptions } from "./errors";
+
+
+export type ProviderId = 'gemini' | 'local';
+
+export interface InpaintRequest {
+  image: string;
+  mimeType: string;
+  instruction: string;
+  mask?: string | null;
+  /** Groups the requests of one cleanup, e.g. its tiles or video frames, so the server limits them as one job. */
+  jobId?: string;
+  /** Told about each automatic retry of a transient failure, e.g. to show "retrying in 4s". */
+  onRetry?: RetryOptions['onRetry'];
+  /** Stops the cleanup, e.g. when a batch is cancelled. Providers reject once it is aborted. */
+  signal?: AbortSignal;
+}
+
+export interface DetectionRequest {
+  image: string;
+  mimeType: string;
+}
+
+export interface JudgeRequest {
+  /** The image the candidates were made from. */
+  image: string;
+  mimeType: string;
+  instruction: string;
+  /** Data URLs of the results, same size as `image`. Each is sent with the type it declares. */
+  candidates: string[];
+}
+
+export interface VideoRequest {
+  prompt: string;
+  aspectRatio: "16:9" | "9:16";
+}
+
+/**
+ * A backend able to clean up an image (and optionally a video).
+ * Results are data URLs or object URLs that can be fed straight into an <img>/<video>.
+ */
+export interface InpaintingProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  requiresNetwork: boolean;
+  /** When true the provider ignores the instruction and only works inside the mask. */
+  requiresMask: boolean;
+  /** Model identifiers recorded on history entries. */
+  imageModel: string;
+  videoModel?: string;
+  /** Longest side the model handles without losing detail; larger images are tiled (services/tiling.ts). */
+  maxInputSide?: number;
+  /** Rejects with a CleanupError (services/errors.ts) explaining why no image came back. */
+  inpaintImage(request: InpaintRequest): Promise<string | null>;
+  /**
+   * Veo-style generation of a brand new clip from the prompt; the uploaded footage is not used.
+   * Generation takes minutes, so it is exposed as start/poll calls driven by the video job manager.
+   */
+  videoOperations?: VideoOperationsClient;
+  /** Rates each candidate result from 0 to 1; an optional second opinion when ranking several (services/candidates.ts). */
+  judgeCandidates?(request: JudgeRequest): Promise<number[]>;
+  /** Proposes watermark/overlay boxes; providers without it fall back to the local heuristic. */
+  detectRegions?(request: DetectionRequest): Promise<DetectedRegion[]>;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { createLocalProvider } from "./local";
+import { createRaster, Raster } from "./raster";
+import { nodeCodec } from "../lib/codec";
+
+const provider = createLocalProvider(nodeCodec);
+
+/** A fixed checkerboard of two colours in 4px squares. */
+const checkerboard = (width: number, height: number): Raster => {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const light = ((x >> 2) + (y >> 2)) % 2 === 0;
+      raster.data.set(light ? [230, 220, 210, 255] : [30, 60, 90, 255], (y * width + x) * 4);
+    }
+  }
+  return raster;
+};
+
+/** A painted mask in the editor's convention: coverage in alpha. */
+const paintedMask = (width: number, height: number, x: number, y: number, w: number, h: number): Raster => {
+  const raster = createRaster(width, height);
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) raster.data.set([255, 255, 255, 255], (row * width + col) * 4);
+  }
+  return raster;
+};
+
+describe('local provider', () => {
+  it('needs a mask', async () => {
+    const image = await nodeCodec.encodePng(checkerboard(16, 16));
+    await expect(provider.inpaintImage({ image, mimeType: 'image/png', instruction: '' })).rejects.toThrow(/mask/);
+  });
+
+  it('changes pixels inside the mask and keeps every other pixel byte for byte', async () => {
+    const source = checkerboard(32, 24);
+    // A bright "watermark" inside the masked area.
+    for (let y = 8; y < 14; y++) for (let x = 10; x < 20; x++) source.data.set([255, 0, 255, 255], (y * 32 + x) * 4);
+    const result = await provider.inpaintImage({
+      image: await nodeCodec.encodePng(source),
+      mimeType: 'image/png',
+      instruction: 'ignored',
+      mask: await nodeCodec.encodePng(paintedMask(32, 24, 9, 7, 12, 8)),
+    });
+    const out = await nodeCodec.decode(result!);
+    expect(out.width).toBe(32);
+    expect(out.height).toBe(24);
+    for (let y = 0; y < 24; y++) {
+      for (let x = 0; x < 32; x++) {
+        const i = (y * 32 + x) * 4;
+        const pixel = Array.from(out.data.subarray(i, i + 4));
+        if (x >= 9 && x < 21 && y >= 7 && y < 15) expect(pixel).not.toEqual([255, 0, 255, 255]);
+        else expect(pixel).toEqual(Array.from(source.data.subarray(i, i + 4)));
+      }
+    }
+  });
+
+  it('scales a mask of another size to the image', async () => {
+    const source = checkerboard(32, 32);
+    const result = await provider.inpaintImage({
+      image: await nodeCodec.encodePng(source),
+      mimeType: 'image/png',
+      instruction: '',
+      // Covers the top-left quarter once scaled up.
+      mask: await nodeCodec.encodePng(paintedMask(8, 8, 0, 0, 4, 4)),
+    });
+    const out = await nodeCodec.decode(result!);
+    expect(out.width).toBe(32);
+    const corner = (31 * 32 + 31) * 4;
+    expect(Array.from(out.data.subarray(corner, corner + 4))).toEqual(Array.from(source.data.subarray(corner, corner + 4)));
+  });
+
+  it('gives the same result for the same input', async () => {
+    const request = {
+      image: await nodeCodec.encodePng(checkerboard(20, 20)),
+      mimeType: 'image/png',
+      instruction: '',
+      mask: await nodeCodec.encodePng(paintedMask(20, 20, 6, 6, 8, 8)),
+    };
+    expect(await provider.inpaintImage(request)).toBe(await provider.inpaintImage(request));
+  });
+});
@@ -0,0 +1,97 @@
+import { inpaintTelea } from "./telea";
+import { canvasCodec } from "./mask";
+import { compositeRasters, ImageCodec, maskHole, resizeRaster } from "./raster";
+import type { InpaintingProvider } from "./inpainting";
+import type { InpaintWorkerRequest, InpaintWorkerResponse } from "./inpaint.worker";
+
+const DEFAULT_RADIUS = 6;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextJobId = 0;
+const pending = new Map<number, { resolve: (pixels: Uint8ClampedArray) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+  try {
+    worker = new Worker(new URL('./inpaint.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<InpaintWorkerResponse>) => {
+      const job = pending.get(e.data.id);
+      if (!job) return;
+      pending.delete(e.data.id);
+      if (e.data.pixels) job.resolve(e.data.pixels);
+      else job.reject(new Error(e.data.error || 'Local inpainting failed.'));
+    };
+    worker.onerror = () => {
+      // Hosts that can't serve module workers get the main-thread path from now on.
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pending.forEach(job => job.reject(new Error('The local inpainting worker crashed.')));
+      pending.clear();
+    };
+  } catch (error) {
+    console.warn("Falling back to main-thread inpainting:", error);
+    workerFailed = true;
+  }
+  return worker;
+};
+
+const runInpaint = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  radius: number
+): Promise<Uint8ClampedArray> => {
+  const target = getWorker();
+  if (!target) return Promise.resolve(inpaintTelea(pixels, width, height, mask, radius));
+
+  return new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    pending.set(id, { resolve, reject });
+    const request: InpaintWorkerRequest = { id, pixels, width, height, mask, radius };
+    target.postMessage(request, [pixels.buffer, mask.buffer]);
+  });
+};
+
+/**
+ * Offline inpainting: fills the painted mask region from its surroundings.
+ * No network, no model, same output for the same input.
+ */
+export async function inpaintLocally(
+  base64Image: string,
+  mask: string,
+  radius: number = DEFAULT_RADIUS,
+  codec: ImageCodec = canvasCodec
+): Promise<string> {
+  const [image, maskRaster] = await Promise.all([codec.decode(base64Image), codec.decode(mask)]);
+  const { width, height } = image;
+  const scaledMask = resizeRaster(maskRaster, width, height);
+
+  const filled = await runInpaint(new Uint8ClampedArray(image.data), width, height, maskHole(scaledMask), radius);
+
+  // Reuse the mask compositor so soft brush edges blend the same way as cloud results.
+  return codec.encodePng(compositeRasters(image, { width, height, data: filled }, scaledMask));
+}
+
+/** The offline engine; pass a Node codec (lib/codec.ts) to use it outside the browser. */
+export function createLocalProvider(codec: ImageCodec = canvasCodec): InpaintingProvider {
+  return {
+    id: 'local',
+    label: 'Local engine (offline)',
+    description: 'Classical fast-marching inpainting on this device. Works without network access but needs a painted mask and ignores the instruction text.',
+    requiresNetwork: false,
+    requiresMask: true,
+    imageModel: 'telea-fmm',
+    inpaintImage: async ({ image, mask, signal }) => {
+      signal?.throwIfAborted();
+      if (!mask) {
+        throw new Error("The local engine needs a mask. Paint or draw a box over the area to remove.");
+      }
+      return inpaintLocally(image, mask, DEFAULT_RADIUS, codec);
+    },
+  };
+}
+
+export const localProvider = createLocalProvider();
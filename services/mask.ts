@@ -0,0 +1,64 @@
+import { compositeRasters, ImageCodec, Raster, toBinaryMask } from "./raster";
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image."));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return { canvas, ctx };
+};
+
+/** Decodes and encodes through a 2D canvas; browser only. */
+export const canvasCodec: ImageCodec = {
+  async decode(dataUrl: string): Promise<Raster> {
+    const img = await loadImage(dataUrl);
+    const { ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const { width, height, data } = ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+    return { width, height, data };
+  },
+  encodePng(raster: Raster): Promise<string> {
+    return canvasCodec.encode(raster, 'image/png');
+  },
+  async encode({ width, height, data }: Raster, mimeType: string, quality?: number): Promise<string> {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+    const dataUrl = canvas.toDataURL(mimeType, quality);
+    // Browsers silently fall back to PNG for types they cannot encode.
+    if (!dataUrl.startsWith(`data:${mimeType}`)) throw new Error(`This browser cannot encode ${mimeType}.`);
+    return dataUrl;
+  },
+};
+
+/**
+ * Flattens a transparent editor mask into the black/white form sent to the model
+ * (white = region to inpaint).
+ */
+export async function maskToBinaryPng(mask: string, codec: ImageCodec = canvasCodec): Promise<string> {
+  return codec.encodePng(toBinaryMask(await codec.decode(mask)));
+}
+
+/**
+ * Pastes the model output back onto the original only where the mask is painted.
+ * Pixels with zero mask alpha are copied byte-for-byte from the original, so the
+ * rest of the image is guaranteed to be untouched.
+ */
+export async function compositeWithMask(
+  original: string,
+  edited: string,
+  mask: string,
+  codec: ImageCodec = canvasCodec
+): Promise<string> {
+  const [origRaster, editedRaster, maskRaster] = await Promise.all([original, edited, mask].map(src => codec.decode(src)));
+  return codec.encodePng(compositeRasters(origRaster, editedRaster, maskRaster));
+}
@@ -0,0 +1,86 @@
+import { generateId } from "./ids";
+import { isTransientError } from "./errors";
+import { deleteQueuedCleanup, listQueuedCleanups, putQueuedCleanup } from "./historyStore";
+import type { QueuedCleanup } from "../types";
+
+export type QueuedCleanupInput = Omit<QueuedCleanup, 'id' | 'status' | 'error' | 'createdAt'>;
+
+/**
+ * Whether the browser knows it has no connection. It can also claim one that
+ * does not work; requests then fail as network errors and are retried as usual.
+ */
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** Calls `onChange` whenever the browser goes on- or offline. Returns the unsubscribe function. */
+export function watchConnectivity(onChange: (online: boolean) => void): () => void {
+  const online = () => onChange(true);
+  const offline = () => onChange(false);
+  window.addEventListener('online', online);
+  window.addEventListener('offline', offline);
+  return () => {
+    window.removeEventListener('online', online);
+    window.removeEventListener('offline', offline);
+  };
+}
+
+export async function enqueueCleanup(input: QueuedCleanupInput): Promise<QueuedCleanup> {
+  const job: QueuedCleanup = { ...input, id: generateId(), status: 'queued', createdAt: Date.now() };
+  await putQueuedCleanup(job);
+  return job;
+}
+
+export interface FlushOptions {
+  /** Runs one job and files its result; rejects when the job failed. */
+  run: (job: QueuedCleanup) => Promise<void>;
+  /** Called with the whole queue after every change. */
+  onUpdate?: (jobs: QueuedCleanup[]) => void;
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Runs the queued jobs one after another, oldest first, including any queued
+ * while it runs, and resolves with how many finished. Finished jobs are removed.
+ * Jobs that fail for good stay in the queue as failed, with the error, until
+ * the user removes them. A transient failure, such as the connection dropping
+ * again, puts the job back and ends the flush; the next one picks it up.
+ * Calls made while a flush is running share it.
+ */
+export function flushQueue(options: FlushOptions): Promise<number> {
+  if (!flushing) flushing = runFlush(options).finally(() => { flushing = null; });
+  return flushing;
+}
+
+const runFlush = async ({ run, onUpdate }: FlushOptions): Promise<number> => {
+  const update = async (job: QueuedCleanup) => {
+    await putQueuedCleanup(job);
+    onUpdate?.(await listQueuedCleanups());
+  };
+
+  // A job still marked running was cut off by a reload or a closed tab.
+  for (const job of await listQueuedCleanups()) {
+    if (job.status === 'running') await update({ ...job, status: 'queued' });
+  }
+
+  let completed = 0;
+  while (!isOffline()) {
+    // Read again each time: jobs may have been added or removed meanwhile.
+    const next = (await listQueuedCleanups()).find(job => job.status === 'queued');
+    if (!next) break;
+    const job: QueuedCleanup = { ...next, status: 'running' };
+    await update(job);
+    try {
+      await run(job);
+      await deleteQueuedCleanup(job.id);
+      onUpdate?.(await listQueuedCleanups());
+      completed++;
+    } catch (err: any) {
+      if (isTransientError(err)) {
+        await update({ ...job, status: 'queued' });
+        break;
+      }
+      await update({ ...job, status: 'failed', error: err?.message || String(err) });
+    }
+  }
+  return completed;
+};
@@ -0,0 +1,41 @@
+import { canvasCodec } from "./mask";
+import { dataUrlToBytes, fileToBase64, mimeTypeOfDataUrl } from "./files";
+import { exportWithProvenance } from "./provenance";
+import type { EditGraph } from "../types";
+import type { ImageCodec } from "./raster";
+
+export type OutputMimeType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface OutputFormat {
+  mimeType: OutputMimeType;
+  /** 0-1, used by JPEG and WebP. */
+  quality: number;
+}
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { mimeType: 'image/png', quality: 0.92 };
+
+export const OUTPUT_FORMATS: { mimeType: OutputMimeType; label: string }[] = [
+  { mimeType: 'image/png', label: 'PNG (lossless)' },
+  { mimeType: 'image/jpeg', label: 'JPEG' },
+  { mimeType: 'image/webp', label: 'WebP' },
+];
+
+/** Re-encodes an image in the chosen format. PNG results are passed through untouched. */
+export async function convertImage(image: Blob, { mimeType, quality }: OutputFormat, codec: ImageCodec = canvasCodec): Promise<Blob> {
+  if (image.type === mimeType && mimeType === 'image/png') return image;
+  const raster = await codec.decode(await fileToBase64(image));
+  const encoded = await codec.encode(raster, mimeType, quality);
+  return new Blob([dataUrlToBytes(encoded)], { type: mimeTypeOfDataUrl(encoded) });
+}
+
+/** The graph with its current version converted to `format`, so provenance hashes the bytes actually saved. */
+export async function withOutputFormat(graph: EditGraph<Blob>, format: OutputFormat, codec: ImageCodec = canvasCodec): Promise<EditGraph<Blob>> {
+  const current = graph.nodes[graph.currentId];
+  const media = await convertImage(current.media, format, codec);
+  return { ...graph, nodes: { ...graph.nodes, [current.id]: { ...current, media } } };
+}
+
+/** Like exportWithProvenance, with the current version converted to `format` first. */
+export async function exportImage(graph: EditGraph<Blob>, format: OutputFormat, codec: ImageCodec = canvasCodec): Promise<Blob> {
+  return exportWithProvenance(await withOutputFormat(graph, format, codec));
+}
@@ -0,0 +1,160 @@
+
+/**
+ * Offline overlay detector. Watermarks, captions and stamps are dense clusters
+ * of sharp, mostly colourless edges that stand out against the rest of the
+ * frame; when several frames are given, only marks present in all of them
+ * survive, which is what separates a burned-in overlay from moving content.
+ */
+
+export interface HeuristicBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  kind: 'text' | 'logo' | 'stamp';
+  confidence: number;
+}
+
+export interface CellGrid {
+  cols: number;
+  rows: number;
+  cellSize: number;
+  /** Per-cell overlay score, 0..1. */
+  scores: Float32Array;
+  /** Share of strong edges in the cell that sit on near-neutral (white/grey/black) pixels. */
+  neutral: Float32Array;
+}
+
+const EDGE_THRESHOLD = 48;
+const NEUTRAL_SATURATION = 40;
+const MAX_AREA_RATIO = 0.2;
+const MIN_CONFIDENCE = 0.25;
+const MAX_BOXES = 6;
+
+export function scoreCells(pixels: Uint8ClampedArray, width: number, height: number, cellSize?: number): CellGrid {
+  const size = cellSize || Math.max(4, Math.round(Math.min(width, height) / 32));
+  const cols = Math.ceil(width / size);
+  const rows = Math.ceil(height / size);
+  const edges = new Float32Array(cols * rows);
+  const neutralEdges = new Float32Array(cols * rows);
+  const counts = new Float32Array(cols * rows);
+
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    lum[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+  }
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const cell = Math.floor(y / size) * cols + Math.floor(x / size);
+      counts[cell]++;
+      const gradient = Math.abs(lum[i + 1] - lum[i - 1]) + Math.abs(lum[i + width] - lum[i - width]);
+      if (gradient < EDGE_THRESHOLD) continue;
+      edges[cell]++;
+      const p = i * 4;
+      const saturation = Math.max(pixels[p], pixels[p + 1], pixels[p + 2]) - Math.min(pixels[p], pixels[p + 1], pixels[p + 2]);
+      if (saturation < NEUTRAL_SATURATION) neutralEdges[cell]++;
+    }
+  }
+
+  const scores = new Float32Array(cols * rows);
+  const neutral = new Float32Array(cols * rows);
+  for (let c = 0; c < scores.length; c++) {
+    if (!counts[c]) continue;
+    const density = edges[c] / counts[c];
+    neutral[c] = edges[c] ? neutralEdges[c] / edges[c] : 0;
+    // Colourless edges are weighted up: most overlays are white or grey.
+    scores[c] = Math.min(1, density * (0.5 + 0.5 * neutral[c]) * 2);
+  }
+  return { cols, rows, cellSize: size, scores, neutral };
+}
+
+/** Keeps the weakest score per cell, so only marks repeated in every frame remain. */
+export function intersectGrids(grids: CellGrid[]): CellGrid {
+  const [first, ...rest] = grids;
+  const scores = Float32Array.from(first.scores);
+  const neutral = Float32Array.from(first.neutral);
+  for (const grid of rest) {
+    for (let c = 0; c < scores.length; c++) {
+      scores[c] = Math.min(scores[c], grid.scores[c]);
+      neutral[c] = Math.min(neutral[c], grid.neutral[c]);
+    }
+  }
+  return { ...first, scores, neutral };
+}
+
+const median = (values: Float32Array) => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+/** Corners and edges are where overlays usually live; the centre gets a lower prior. */
+const positionWeight = (cx: number, cy: number) => {
+  const nearX = cx < 0.25 || cx > 0.75;
+  const nearY = cy < 0.25 || cy > 0.75;
+  if (nearX && nearY) return 1;
+  if (nearX || nearY) return 0.85;
+  return 0.7;
+};
+
+export function findOverlayBoxes(grid: CellGrid, width: number, height: number): HeuristicBox[] {
+  const { cols, rows, cellSize, scores, neutral } = grid;
+  const baseline = median(scores);
+  const threshold = Math.max(0.12, baseline * 3);
+  const flagged = new Uint8Array(cols * rows);
+  for (let c = 0; c < scores.length; c++) flagged[c] = scores[c] > threshold ? 1 : 0;
+
+  const visited = new Uint8Array(cols * rows);
+  const boxes: HeuristicBox[] = [];
+
+  for (let start = 0; start < flagged.length; start++) {
+    if (!flagged[start] || visited[start]) continue;
+    let minX = cols, minY = rows, maxX = -1, maxY = -1;
+    let total = 0, neutralTotal = 0, cells = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length) {
+      const c = stack.pop()!;
+      const cx = c % cols;
+      const cy = (c - cx) / cols;
+      minX = Math.min(minX, cx); maxX = Math.max(maxX, cx);
+      minY = Math.min(minY, cy); maxY = Math.max(maxY, cy);
+      total += scores[c];
+      neutralTotal += neutral[c];
+      cells++;
+      const neighbours = [
+        cx > 0 ? c - 1 : -1,
+        cx < cols - 1 ? c + 1 : -1,
+        cy > 0 ? c - cols : -1,
+        cy < rows - 1 ? c + cols : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && flagged[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    // One cell of padding so the box covers anti-aliased glyph edges and soft shadows.
+    const x = Math.max(0, (minX - 1) * cellSize);
+    const y = Math.max(0, (minY - 1) * cellSize);
+    const boxWidth = Math.min(width, (maxX + 2) * cellSize) - x;
+    const boxHeight = Math.min(height, (maxY + 2) * cellSize) - y;
+    if ((boxWidth * boxHeight) / (width * height) > MAX_AREA_RATIO) continue;
+
+    const mean = total / cells;
+    const weight = positionWeight((x + boxWidth / 2) / width, (y + boxHeight / 2) / height);
+    // Isolated single cells are mostly texture noise unless they are very strong.
+    const sizePenalty = cells === 1 ? 0.6 : 1;
+    const confidence = Math.min(1, Math.max(0, 1 - baseline / mean) * weight * sizePenalty);
+    if (confidence < MIN_CONFIDENCE) continue;
+
+    const aspect = boxWidth / boxHeight;
+    const kind = aspect > 2.5 ? 'text' : neutralTotal / cells > 0.8 && mean < 0.5 ? 'stamp' : 'logo';
+    boxes.push({ x, y, width: boxWidth, height: boxHeight, kind, confidence });
+  }
+
+  return boxes.sort((a, b) => b.confidence - a.confidence).slice(0, MAX_BOXES);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createI18n } from "./i18n";
+import { InputError, uploadHint, validateInput } from "./preprocess";
+
+const file = (name: string, type: string, size: number) => new File([new Uint8Array(size)], name, { type });
+
+describe('validateInput', () => {
+  const de = createI18n('de');
+
+  it('accepts supported files within the limit', () => {
+    expect(() => validateInput(file('shot.png', 'image/png', 10), 'image', de)).not.toThrow();
+    // HEIC often arrives without a type; the extension decides.
+    expect(() => validateInput(file('shot.heic', '', 10), 'image', de)).not.toThrow();
+  });
+
+  it('explains an unsupported type in the UI language', () => {
+    expect(() => validateInput(file('notes.txt', 'text/plain', 10), 'image', de))
+      .toThrow(new InputError('notes.txt ist kein unterstütztes Bild. Verwenden Sie PNG, JPG, WebP, HEIC, TIFF, AVIF.'));
+    expect(() => validateInput(file('clip.avi', 'video/x-msvideo', 10), 'video', de)).toThrow(/kein unterstütztes Video/);
+  });
+
+  it('formats the size and the limit for the locale', () => {
+    const big = { name: 'huge.png', type: 'image/png', size: 30 * 1024 * 1024 } as File;
+    expect(() => validateInput(big, 'image', de)).toThrow(`huge.png ist ${de.formatBytes(big.size)} groß; das Limit liegt bei ${de.formatBytes(25 * 1024 * 1024)}.`);
+  });
+});
+
+describe('uploadHint', () => {
+  it('lists the types and the limit', () => {
+    const en = createI18n('en');
+    expect(uploadHint('video', en)).toBe(`Supports MP4, MOV, WebM up to ${en.formatBytes(50 * 1024 * 1024)}`);
+  });
+});
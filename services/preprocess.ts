@@ -0,0 +1,159 @@
+import { canvasCodec, createCanvas, loadImage } from "./mask";
+import { fileToBase64, mimeTypeForFileName } from "./files";
+import type { I18n } from "./i18n";
+import type { MediaType } from "../types";
+
+export interface InputLimits {
+  maxBytes: number;
+  types: string[];
+  /** Names shown in the upload hint. */
+  labels: string[];
+}
+
+export const INPUT_LIMITS: Record<MediaType, InputLimits> = {
+  image: {
+    maxBytes: 25 * 1024 * 1024,
+    types: ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/bmp', 'image/avif', 'image/heic', 'image/heif', 'image/tiff'],
+    labels: ['PNG', 'JPG', 'WebP', 'HEIC', 'TIFF', 'AVIF'],
+  },
+  video: {
+    maxBytes: 50 * 1024 * 1024,
+    types: ['video/mp4', 'video/quicktime', 'video/webm'],
+    labels: ['MP4', 'MOV', 'WebM'],
+  },
+};
+
+// What the cloud models accept as-is; everything else is converted to PNG first.
+const MODEL_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Beyond this a decoded RGBA copy alone runs into hundreds of megabytes.
+export const MAX_IMAGE_PIXELS = 40_000_000;
+// Largest canvas every mainstream browser will allocate.
+export const MAX_IMAGE_SIDE = 16384;
+
+export class InputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputError';
+  }
+}
+
+/** HEIC and TIFF often arrive with an empty `type`, so fall back to the extension. */
+export const inputTypeOf = (file: File): string => file.type || mimeTypeForFileName(file.name);
+
+export const uploadHint = (type: MediaType, { t, formatBytes }: I18n): string => {
+  const { labels, maxBytes } = INPUT_LIMITS[type];
+  return t('input.hint', { types: labels.join(', '), size: formatBytes(maxBytes) });
+};
+
+/** For the file input's `accept`; extensions cover browsers that don't know the HEIC/TIFF types. */
+export const acceptFor = (type: MediaType): string =>
+  type === 'image' ? 'image/*,.heic,.heif,.tif,.tiff,.avif' : INPUT_LIMITS.video.types.join(',');
+
+/** Throws an InputError describing, in the UI language, why the file cannot be used. */
+export function validateInput(file: File, type: MediaType, { t, formatBytes }: I18n) {
+  const limits = INPUT_LIMITS[type];
+  const fileType = inputTypeOf(file);
+  if (!limits.types.includes(fileType)) {
+    throw new InputError(t(type === 'image' ? 'input.error.type.image' : 'input.error.type.video', { name: file.name, types: limits.labels.join(', ') }));
+  }
+  if (file.size > limits.maxBytes) {
+    throw new InputError(t('input.error.size', { name: file.name, size: formatBytes(file.size), limit: formatBytes(limits.maxBytes) }));
+  }
+}
+
+/** EXIF orientation (1-8) of a JPEG, or 1 when it has none. */
+export function readJpegOrientation(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 "Exif\0\0" followed by a TIFF header.
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+export interface PreparedImage {
+  /** What the editor and the models work on. */
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** Set when the upload had to be decoded or re-oriented, e.g. HEIC to PNG. */
+  convertedFrom: string | null;
+}
+
+const decodeHeic = async (file: Blob): Promise<string> => {
+  // Loaded on demand: the HEIF decoder is large and most uploads never need it.
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/png' });
+  return fileToBase64(Array.isArray(result) ? result[0] : result);
+};
+
+const decodeTiff = async (file: Blob, { t }: I18n): Promise<string> => {
+  const UTIF = await import('utif');
+  const buffer = await file.arrayBuffer();
+  const [page] = UTIF.decode(buffer);
+  if (!page) throw new InputError(t('input.error.emptyTiff'));
+  UTIF.decodeImage(buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  return canvasCodec.encodePng({ width: page.width, height: page.height, data: new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.length) });
+};
+
+/**
+ * Validates an upload and turns it into something every provider can read:
+ * HEIC and TIFF are decoded to PNG, and JPEGs with an EXIF rotation are redrawn
+ * upright so the model, the mask and the result all share one orientation.
+ */
+export async function prepareImage(file: File, i18n: I18n): Promise<PreparedImage> {
+  validateInput(file, 'image', i18n);
+  const type = inputTypeOf(file);
+
+  let dataUrl: string;
+  let convertedFrom: string | null = null;
+  if (type === 'image/heic' || type === 'image/heif') {
+    dataUrl = await decodeHeic(file);
+    convertedFrom = type;
+  } else if (type === 'image/tiff') {
+    dataUrl = await decodeTiff(file, i18n);
+    convertedFrom = type;
+  } else {
+    dataUrl = await fileToBase64(new Blob([file], { type }));
+  }
+
+  const img = await loadImage(dataUrl).catch(() => {
+    throw new InputError(i18n.t('input.error.decode', { name: file.name }));
+  });
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  if (Math.max(width, height) > MAX_IMAGE_SIDE || width * height > MAX_IMAGE_PIXELS) {
+    throw new InputError(i18n.t('input.error.dimensions', { name: file.name, width, height, megapixels: Math.round(MAX_IMAGE_PIXELS / 1e6), side: MAX_IMAGE_SIDE }));
+  }
+
+  if (convertedFrom) return { dataUrl, mimeType: 'image/png', width, height, convertedFrom };
+
+  const rotated = type === 'image/jpeg' && readJpegOrientation(new Uint8Array(await file.arrayBuffer())) !== 1;
+  if (rotated || !MODEL_TYPES.includes(type)) {
+    // <img> has already applied any EXIF rotation, so drawing it bakes the orientation into the pixels.
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0);
+    return { dataUrl: canvas.toDataURL('image/png'), mimeType: 'image/png', width, height, convertedFrom: type };
+  }
+  return { dataUrl, mimeType: type, width, height, convertedFrom: null };
+}
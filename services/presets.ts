@@ -0,0 +1,130 @@
+import { generateId } from "./ids";
+import type { InstructionPreset, MediaType, PresetUse } from "../types";
+
+const PRESETS_STORAGE_KEY = 'clearcast.presets';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_INSTRUCTION = "Please remove the watermark and any logos or branding text from this image. Seamlessly inpaint the area to match the surrounding texture and background as if the object was never there.";
+
+export const BUILT_IN_PRESETS: InstructionPreset[] = [
+  { id: 'watermark', name: 'Watermarks and logos', template: DEFAULT_INSTRUCTION, types: ['image', 'video'], builtIn: true },
+  {
+    id: 'watermark-region',
+    name: 'Watermark in one spot',
+    template: "Remove the {color} watermark in the {region} of the image. Seamlessly inpaint the area to match the surrounding texture and background.",
+    types: ['image', 'video'],
+    builtIn: true,
+  },
+  {
+    id: 'object',
+    name: 'Remove an object',
+    template: "Remove the {objectType} in the {region}. Fill the area so it looks as if the {objectType} was never there, keeping lighting and perspective consistent.",
+    types: ['image'],
+    builtIn: true,
+  },
+  {
+    id: 'sticker',
+    name: 'Price tag or sticker',
+    template: "Remove the {color} price tag or sticker from the {objectType}. Restore the printed packaging underneath without changing its colours or text.",
+    types: ['image'],
+    builtIn: true,
+  },
+  {
+    id: 'glare',
+    name: 'Glare on a surface',
+    template: "Remove the glare and reflections on the {objectType} in the {region}. Recover the detail underneath without changing colours elsewhere.",
+    types: ['image'],
+    builtIn: true,
+  },
+  {
+    id: 'caption',
+    name: 'Burned-in captions',
+    template: "Remove the {color} captions and text overlays in the {region} of every frame, keeping the background seamless.",
+    types: ['video'],
+    builtIn: true,
+  },
+];
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetError';
+  }
+}
+
+/** Distinct `{name}` placeholders in order of first appearance. */
+export const templateVariables = (template: string): string[] =>
+  [...new Set(Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1]))];
+
+export const missingVariables = (template: string, values: Record<string, string>): string[] =>
+  templateVariables(template).filter(name => !values[name]?.trim());
+
+/** Replaces every placeholder that has a value; unfilled ones are left as written. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name) => values[name]?.trim() || placeholder);
+
+/** "objectType" -> "Object type", for labelling variable inputs. */
+export const variableLabel = (name: string): string => {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const presetsFor = (type: MediaType, presets: InstructionPreset[]): InstructionPreset[] =>
+  presets.filter(preset => preset.types.includes(type));
+
+/** The instruction a preset use stands for, or null when the preset no longer exists. */
+export function instructionFor(use: PresetUse, presets: InstructionPreset[]): string | null {
+  const preset = presets.find(p => p.id === use.id);
+  return preset ? fillTemplate(preset.template, use.values) : null;
+}
+
+const isPreset = (value: any): value is InstructionPreset =>
+  !!value &&
+  typeof value.name === 'string' && value.name.trim() !== '' &&
+  typeof value.template === 'string' && value.template.trim() !== '' &&
+  Array.isArray(value.types) && value.types.length > 0 && value.types.every((t: any) => t === 'image' || t === 'video');
+
+/** User-defined presets from this browser. Built-ins are never stored. */
+export function loadUserPresets(): InstructionPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: InstructionPreset[]) {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+}
+
+export const createPreset = (name: string, template: string, types: MediaType[]): InstructionPreset => ({
+  id: generateId(),
+  name: name.trim(),
+  template: template.trim(),
+  types,
+});
+
+export const exportPresets = (presets: InstructionPreset[]): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.filter(preset => !preset.builtIn).map(({ id, name, template, types }) => ({ id, name, template, types })),
+  }, null, 2);
+
+/**
+ * Reads a file written by exportPresets (or a bare array of presets). Imported
+ * presets get fresh ids so they never overwrite built-ins or each other.
+ */
+export function parsePresetFile(text: string): InstructionPreset[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetError("The file is not valid JSON.");
+  }
+  const list = Array.isArray(data) ? data : data?.presets;
+  if (!Array.isArray(list)) throw new PresetError("The file does not contain any presets.");
+  const presets = list.filter(isPreset);
+  if (presets.length === 0) throw new PresetError("None of the presets in the file have a name, a template and a type.");
+  return presets.map(({ name, template, types }) => createPreset(name, template, types));
+}
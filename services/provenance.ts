@@ -0,0 +1,239 @@
+import { pathTo } from "./editGraph";
+import { generateId } from "./ids";
+import type { AuditRecord, EditGraph, EditNode } from "../types";
+
+export const SOFTWARE_AGENT = 'ClearCast AI';
+
+/** What gets written into an exported file: who edited it, how, and from what. */
+export interface ProvenanceRecord {
+  /** SHA-256 of the uploaded asset and of the result before metadata was embedded. */
+  originalHash: string;
+  resultHash: string;
+  /** Every edit step from the upload to this result, oldest first. */
+  steps: Pick<EditNode, 'instruction' | 'provider' | 'model' | 'timestamp' | 'attestedBy'>[];
+}
+
+// IPTC digital source types: cloud models are "trained algorithmic media"; the offline Telea fill is not.
+const SOURCE_TYPE_AI = 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+const SOURCE_TYPE_COMPOSITE = 'http://cv.iptc.org/newscodes/digitalsourcetype/composite';
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_MP4_UUID = [0xbe, 0x7a, 0xcf, 0xcb, 0x97, 0xa9, 0x42, 0xe8, 0x9c, 0x71, 0x99, 0x94, 0x91, 0xe3, 0xaf, 0xac];
+
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Provenance of the graph's current node, i.e. the result the user is about to export. */
+export async function provenanceOf(graph: EditGraph<Blob>): Promise<ProvenanceRecord> {
+  const [root, ...steps] = pathTo(graph, graph.currentId);
+  const result = steps.length ? steps[steps.length - 1] : root;
+  const [originalHash, resultHash] = await Promise.all([sha256Hex(root.media), sha256Hex(result.media)]);
+  return {
+    originalHash,
+    resultHash,
+    steps: steps.map(({ instruction, provider, model, timestamp, attestedBy }) => ({ instruction, provider, model, timestamp, attestedBy })),
+  };
+}
+
+export function buildXmp(record: ProvenanceRecord): string {
+  const usedModel = record.steps.some(step => step.provider && step.provider !== 'local');
+  // Steps saved before attestation existed carry no name and make the whole chain unattested.
+  const attested = record.steps.length > 0 && record.steps.every(step => !!step.attestedBy);
+  const last = record.steps[record.steps.length - 1];
+  const events = record.steps.map(step => `
+      <rdf:li rdf:parseType="Resource">
+       <stEvt:action>edited</stEvt:action>
+       <stEvt:when>${new Date(step.timestamp).toISOString()}</stEvt:when>
+       <stEvt:softwareAgent>${escapeXml(`${SOFTWARE_AGENT} (${step.model || 'unknown model'})`)}</stEvt:softwareAgent>
+       <stEvt:parameters>${escapeXml(`AI inpainting: ${step.instruction || 'masked region'}`)}</stEvt:parameters>
+       <clearcast:AttestedBy>${escapeXml(step.attestedBy || '')}</clearcast:AttestedBy>
+      </rdf:li>`).join('');
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+    xmlns:stEvt="http://ns.adobe.com/xap/1.0/sType/ResourceEvent#"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    xmlns:clearcast="https://clearcast.ai/ns/provenance/1.0/"
+    xmp:CreatorTool="${SOFTWARE_AGENT}"
+    xmp:ModifyDate="${new Date(last?.timestamp || Date.now()).toISOString()}"
+    Iptc4xmpExt:DigitalSourceType="${usedModel ? SOURCE_TYPE_AI : SOURCE_TYPE_COMPOSITE}"
+    clearcast:OwnershipAttested="${attested ? 'True' : 'False'}"
+    clearcast:OriginalSHA256="${record.originalHash}"
+    clearcast:ResultSHA256="${record.resultHash}">
+   <xmpMM:History>
+    <rdf:Seq>${events}
+    </rdf:Seq>
+   </xmpMM:History>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+// RIFF (WebP) sizes are little-endian, unlike PNG and MP4.
+const uint32le = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+};
+
+const uint24le = (value: number) => new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff]);
+
+/** Adds an uncompressed iTXt chunk with the XMP packet just before IEND. */
+export function embedPngXmp(png: Uint8Array, xmp: string): Uint8Array {
+  const body = concat(ascii(XMP_PNG_KEYWORD), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(xmp));
+  const typeAndBody = concat(ascii('iTXt'), body);
+  const chunk = concat(uint32(body.length), typeAndBody, uint32(crc32(typeAndBody)));
+  // IEND is always the last 12 bytes of a well-formed PNG.
+  const iend = png.length - 12;
+  return concat(png.subarray(0, iend), chunk, png.subarray(iend));
+}
+
+/** Adds an APP1 XMP segment after SOI (and after a JFIF APP0 when present). */
+export function embedJpegXmp(jpeg: Uint8Array, xmp: string): Uint8Array {
+  const payload = concat(ascii(XMP_NAMESPACE), new TextEncoder().encode(xmp));
+  if (payload.length + 2 > 0xffff) throw new Error("Provenance metadata is too large for a JPEG segment.");
+  const segment = concat(new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload);
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  return concat(jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt));
+}
+
+/**
+ * Adds an "XMP " chunk. Simple (VP8/VP8L) files cannot carry metadata, so they
+ * are first rewritten to the extended layout with a VP8X header.
+ */
+export function embedWebpXmp(webp: Uint8Array, xmp: string): Uint8Array {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const payload = new TextEncoder().encode(xmp);
+  // Chunks are padded to an even length.
+  const xmpChunk = concat(ascii('XMP '), uint32le(payload.length), payload, new Uint8Array(payload.length % 2));
+  const first = String.fromCharCode(...webp.subarray(12, 16));
+  let chunks = webp.subarray(12);
+
+  if (first === 'VP8X') {
+    chunks = chunks.slice();
+    chunks[8] |= 0x04;
+  } else {
+    let width: number;
+    let height: number;
+    let alpha = false;
+    if (first === 'VP8 ') {
+      width = view.getUint16(26, true) & 0x3fff;
+      height = view.getUint16(28, true) & 0x3fff;
+    } else if (first === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      alpha = ((bits >>> 28) & 1) === 1;
+    } else {
+      throw new Error("Unrecognised WebP layout.");
+    }
+    const header = concat(ascii('VP8X'), uint32le(10), new Uint8Array([(alpha ? 0x10 : 0) | 0x04, 0, 0, 0]), uint24le(width - 1), uint24le(height - 1));
+    chunks = concat(header, chunks);
+  }
+
+  const body = concat(ascii('WEBP'), chunks, xmpChunk);
+  return concat(ascii('RIFF'), uint32le(body.length), body);
+}
+
+/** Appends a top-level XMP `uuid` box, which MP4 readers locate by UUID rather than position. */
+export function embedMp4Xmp(mp4: Uint8Array, xmp: string): Uint8Array {
+  const payload = new TextEncoder().encode(xmp);
+  const box = concat(uint32(8 + 16 + payload.length), ascii('uuid'), new Uint8Array(XMP_MP4_UUID), payload);
+  return concat(mp4, box);
+}
+
+/**
+ * Returns a copy of `blob` carrying the provenance record as XMP. PNG, JPEG,
+ * WebP and MP4 are supported; other formats are returned unchanged.
+ */
+export async function embedProvenance(blob: Blob, record: ProvenanceRecord): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const xmp = buildXmp(record);
+  const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+  const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+  const isMp4 = String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp';
+  const isWebp = String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP';
+
+  if (isPng) return new Blob([embedPngXmp(bytes, xmp)], { type: 'image/png' });
+  if (isJpeg) return new Blob([embedJpegXmp(bytes, xmp)], { type: 'image/jpeg' });
+  if (isWebp) return new Blob([embedWebpXmp(bytes, xmp)], { type: 'image/webp' });
+  if (isMp4) return new Blob([embedMp4Xmp(bytes, xmp)], { type: 'video/mp4' });
+  return blob;
+}
+
+/** The graph's current media with its provenance embedded, ready to download. */
+export async function exportWithProvenance(graph: EditGraph<Blob>): Promise<Blob> {
+  return embedProvenance(graph.nodes[graph.currentId].media, await provenanceOf(graph));
+}
+
+/** Audit log line for the step that produced the graph's current node. */
+export async function createAuditRecord(
+  graph: EditGraph<Blob>,
+  context: Pick<AuditRecord, 'entryId' | 'projectId' | 'type'>
+): Promise<AuditRecord> {
+  const node = graph.nodes[graph.currentId];
+  const source = node.parentId ? graph.nodes[node.parentId] : node;
+  const [originalHash, sourceHash, resultHash] = await Promise.all(
+    [graph.nodes[graph.rootId], source, node].map(n => sha256Hex(n.media))
+  );
+  return {
+    ...context,
+    id: generateId(),
+    timestamp: node.timestamp,
+    operator: node.attestedBy || '',
+    ownershipAttested: !!node.attestedBy,
+    nodeId: node.id,
+    provider: node.provider,
+    model: node.model || '',
+    instruction: node.instruction,
+    originalHash,
+    sourceHash,
+    resultHash,
+  };
+}
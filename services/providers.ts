@@ -0,0 +1,27 @@
+import type { InpaintingProvider, ProviderId } from './inpainting';
+import { createGeminiProvider, createProxyClient } from './gemini';
+import { localProvider } from './local';
+import type { KeyAdapter } from './aistudio';
+
+export interface ProviderConfig {
+  /** Origin of the ClearCast server the cloud engine goes through; empty means same origin. */
+  serverUrl?: string;
+  /** Identifies this browser to the server's rate limits; a random id kept in localStorage by default. */
+  clientId?: () => string;
+  /** Calls Gemini with a key the host hands out instead of through a server, e.g. inside AI Studio. */
+  keyAdapter?: KeyAdapter | null;
+  /** Engines to offer, in this order. All of them by default. */
+  enabled?: ProviderId[];
+}
+
+export function createProviders({ serverUrl = '', clientId, keyAdapter, enabled }: ProviderConfig = {}): InpaintingProvider[] {
+  const client = keyAdapter?.client || createProxyClient({ baseUrl: serverUrl.replace(/\/$/, ''), clientId });
+  const all = [createGeminiProvider({ api: client, downloadUrl: client.downloadUrl }), localProvider];
+  return enabled ? all.filter(provider => enabled.includes(provider.id)).sort((a, b) => enabled.indexOf(a.id) - enabled.indexOf(b.id)) : all;
+}
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+export const getProvider = (providers: InpaintingProvider[], id: ProviderId): InpaintingProvider => {
+  return providers.find(provider => provider.id === id) || providers[0];
+};
@@ -0,0 +1,113 @@
+/**
+ * Contract between the browser and the ClearCast server (server/index.ts).
+ * Shared by both sides, so it must stay free of browser- or Node-only imports.
+ */
+
+export const IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+export const DETECTION_MODEL = 'gemini-2.5-flash';
+export const JUDGE_MODEL = 'gemini-2.5-flash';
+
+export const API_ROUTES = {
+  inpaint: '/api/image/inpaint',
+  detect: '/api/image/detect',
+  judge: '/api/image/judge',
+  startVideo: '/api/video/jobs',
+  videoOperation: '/api/video/operation',
+  videoDownload: '/api/video/download',
+} as const;
+
+/** Anonymous per-browser id the server uses for rate limits and quotas. */
+export const CLIENT_ID_HEADER = 'x-clearcast-client';
+
+/** Images travel as bare base64 (no data: prefix). */
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface InpaintBody {
+  image: InlineImage;
+  instruction: string;
+  /** Black/white PNG, white = region to change. */
+  mask?: InlineImage | null;
+  /**
+   * Shared by the tile or frame requests of one cleanup. The server counts the
+   * first request of a job against the image limit and the rest against the part limit.
+   */
+  job?: string | null;
+}
+
+export interface InpaintResponse {
+  image: InlineImage | null;
+  /** Why no image came back: the candidate's finish reason, or the prompt's block reason. */
+  finishReason?: string | null;
+  /** Any text the model returned alongside (or instead of) the image. */
+  text?: string | null;
+}
+
+export interface DetectBody {
+  image: InlineImage;
+}
+
+export interface RawDetection {
+  kind: 'text' | 'logo' | 'stamp';
+  label: string;
+  confidence: number;
+  /** [ymin, xmin, ymax, xmax] normalised to 0-1000. */
+  box_2d: [number, number, number, number];
+}
+
+export interface DetectResponse {
+  detections: RawDetection[];
+}
+
+export interface JudgeBody {
+  /** The image the candidates were made from. */
+  original: InlineImage;
+  candidates: InlineImage[];
+  instruction: string;
+}
+
+export interface JudgeResponse {
+  /** 0-10 per candidate, in the order they were sent. */
+  scores: number[];
+}
+
+export interface StartVideoBody {
+  prompt: string;
+  aspectRatio: "16:9" | "9:16";
+}
+
+export interface StartVideoResponse {
+  operationName: string;
+}
+
+export interface VideoOperationResponse {
+  done: boolean;
+  videoUri?: string | null;
+  error?: string | null;
+}
+
+/** Set on errors the client should handle specifically; see services/errors.ts. */
+export type ApiErrorKind = 'auth' | 'rate-limit' | 'quota' | 'timeout';
+
+export interface ApiErrorBody {
+  error: string;
+  kind?: ApiErrorKind;
+  /** Seconds until the limit that rejected the request resets. */
+  retryAfter?: number;
+}
+
+/**
+ * The server's Gemini calls. Implemented over HTTP by the browser client
+ * (services/gemini.ts) and directly, with the key, by services/geminiBackend.ts.
+ */
+export interface GeminiApi {
+  /** `signal` only stops waiting; the model may still finish the request on its side. */
+  inpaint(body: InpaintBody, signal?: AbortSignal): Promise<InpaintResponse>;
+  detect(body: DetectBody): Promise<DetectResponse>;
+  judge(body: JudgeBody): Promise<JudgeResponse>;
+  startVideo(body: StartVideoBody): Promise<StartVideoResponse>;
+  getVideoOperation(operationName: string): Promise<VideoOperationResponse>;
+}
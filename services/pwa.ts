@@ -0,0 +1,49 @@
+/// <reference types="vite/client" />
+// The installable app: service worker registration (public/sw.js) and system
+// notifications for work that finishes while the user is looking elsewhere.
+
+/** Work shorter than this is done before anyone looks away, so it never notifies. */
+export const NOTIFY_AFTER = 20_000;
+
+/**
+ * Registers the service worker that caches the app shell. Skipped on the dev
+ * server, where a cached module would hide the next edit.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service Worker Error:", err));
+  });
+}
+
+const notificationsSupported = () => typeof Notification !== 'undefined';
+
+/** Asks for permission the first time; call it from a click so browsers show the prompt. */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return 'denied';
+  }
+}
+
+/**
+ * Tells the user that work started at `startedAt` has finished, when it ran for
+ * at least NOTIFY_AFTER and the page does not have focus; someone looking at the
+ * editor already sees the result. Goes through the service worker when there is
+ * one, as mobile browsers only show notifications from there.
+ */
+export async function notifyFinished(startedAt: number, title: string, body: string): Promise<void> {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  if (Date.now() - startedAt < NOTIFY_AFTER || document.hasFocus()) return;
+  const options: NotificationOptions = { body, icon: '/icon-192.png', tag: 'clearcast-finished' };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) await registration.showNotification(title, options);
+    else new Notification(title, options);
+  } catch (err) {
+    console.error("Notification Error:", err);
+  }
+}
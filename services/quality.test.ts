@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { combineScores, consistencyScore, rankByScore, removalScore, scoreResult, ssim } from "./quality";
+import { createRaster, Raster } from "./raster";
+
+const SIZE = 32;
+
+/** Grey levels from a function of the pixel position. */
+const raster = (value: (x: number, y: number) => number, size: number = SIZE): Raster => {
+  const out = createRaster(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = value(x, y);
+      out.data.set([v, v, v, 255], (y * size + x) * 4);
+    }
+  }
+  return out;
+};
+
+/** Fixed-seed texture with structure at every scale. */
+const texture = (seed: number = 3) => raster((x, y) => ((x * 73 + y * 151 + seed * 29) * (x + 7) * (y + 11)) % 256);
+const flat = (v: number) => raster(() => v);
+
+/** 1 inside the square from `start` to `end` (exclusive) on both axes. */
+const square = (start: number, end: number): Uint8Array => {
+  const region = new Uint8Array(SIZE * SIZE);
+  for (let y = start; y < end; y++) region.fill(1, y * SIZE + start, y * SIZE + end);
+  return region;
+};
+
+/** `base` with the pixels inside `region` taken from `patch`. */
+const paste = (base: Raster, patch: Raster, region: Uint8Array): Raster => {
+  const out = { ...base, data: new Uint8ClampedArray(base.data) };
+  region.forEach((v, i) => { if (v) out.data.set(patch.data.subarray(i * 4, i * 4 + 4), i * 4); });
+  return out;
+};
+
+describe('ssim', () => {
+  it('is 1 for identical images', () => {
+    const image = texture();
+    expect(ssim(image, image)).toBeCloseTo(1, 6);
+  });
+
+  it('drops as noise is added', () => {
+    const image = texture();
+    const slightly = raster((x, y) => image.data[(y * SIZE + x) * 4] + ((x + y) % 2 ? 6 : -6));
+    const heavily = texture(11);
+    const a = ssim(image, slightly)!;
+    const b = ssim(image, heavily)!;
+    expect(a).toBeLessThan(1);
+    expect(b).toBeLessThan(a);
+  });
+
+  it('only counts windows made mostly of included pixels', () => {
+    const image = texture();
+    const region = square(8, 24);
+    const edited = paste(image, flat(0), region);
+    const outside = region.map(v => (v ? 0 : 1));
+    expect(ssim(image, edited, outside)).toBeCloseTo(1, 6);
+    expect(ssim(image, edited)!).toBeLessThan(0.9);
+  });
+
+  it('returns null when no window qualifies', () => {
+    expect(ssim(texture(), texture(), new Uint8Array(SIZE * SIZE))).toBeNull();
+  });
+
+  it('refuses images of different sizes', () => {
+    expect(() => ssim(texture(), raster(() => 0, 16))).toThrow(/Cannot compare/);
+  });
+});
+
+describe('removalScore', () => {
+  const region = square(8, 24);
+  // A "watermark": a bright grid inside the region.
+  const marked = paste(flat(100), raster((x, y) => (x % 4 === 0 || y % 4 === 0 ? 250 : 100)), region);
+
+  it('is low when the watermark is left in place', () => {
+    expect(removalScore(marked, marked, region)).toBeCloseTo(0, 6);
+  });
+
+  it('is high when the region was filled flat', () => {
+    expect(removalScore(marked, flat(100), region)).toBe(1);
+  });
+
+  it('stays low when the watermark was only dimmed', () => {
+    const dimmed = paste(flat(100), raster((x, y) => (x % 4 === 0 || y % 4 === 0 ? 140 : 100)), region);
+    expect(removalScore(marked, dimmed, region)).toBeLessThan(0.1);
+  });
+
+  it('is 0 for an empty region', () => {
+    expect(removalScore(marked, flat(100), new Uint8Array(SIZE * SIZE))).toBe(0);
+  });
+});
+
+describe('consistencyScore', () => {
+  const region = square(10, 22);
+
+  it('is 1 when the region has the texture of its surroundings', () => {
+    expect(consistencyScore(flat(90), region)).toBe(1);
+    expect(consistencyScore(texture(), region)).toBeGreaterThan(0.8);
+  });
+
+  it('is low for a smear in a textured area', () => {
+    expect(consistencyScore(paste(texture(), flat(128), region), region)).toBeLessThan(0.2);
+  });
+
+  it('is low for a noisy patch in a flat area', () => {
+    expect(consistencyScore(paste(flat(128), texture(), region), region)).toBeLessThan(0.2);
+  });
+});
+
+describe('scoring and ranking', () => {
+  it('ranks a clean fill above a leftover watermark and a smear', () => {
+    const region = square(8, 24);
+    const background = raster((x, y) => 80 + ((x * 7 + y * 3) % 20));
+    const original = paste(background, raster((x, y) => (x % 4 === 0 ? 250 : 60)), region);
+    const candidates = [
+      { name: 'leftover', score: scoreResult(original, original, region) },
+      { name: 'clean', score: scoreResult(original, background, region) },
+      { name: 'smear', score: scoreResult(original, paste(background, flat(255), region), region) },
+    ];
+    expect(rankByScore(candidates).map(c => c.name)).toEqual(['clean', 'smear', 'leftover']);
+  });
+
+  it('keeps the order of ties and does not sort in place', () => {
+    const score = combineScores({ preservation: 1, removal: 1, consistency: 1, judge: null });
+    const items = [{ id: 'a', score }, { id: 'b', score: { ...score, overall: 0.5 } }, { id: 'c', score }];
+    expect(rankByScore(items).map(i => i.id)).toEqual(['a', 'c', 'b']);
+    expect(items.map(i => i.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('gives the judge a share of the overall score', () => {
+    const parts = { preservation: 1, removal: 1, consistency: 1 };
+    expect(combineScores({ ...parts, judge: null }).overall).toBe(1);
+    expect(combineScores({ ...parts, judge: 0 }).overall).toBeCloseTo(0.7, 6);
+  });
+});
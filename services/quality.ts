@@ -0,0 +1,234 @@
+// Automatic scoring of cleanup results. Works on plain rasters (services/raster.ts),
+// so the same numbers come out in the browser, in Node and in a test runner.
+// Every score is 0-1, higher is better.
+
+import type { Raster } from "./raster";
+
+export interface QualityScore {
+  /** Weighted blend of the scores below; what candidates are ranked by. */
+  overall: number;
+  /** Structural similarity (SSIM) to the original outside the edit region. */
+  preservation: number;
+  /** How little of the original's structure is left inside the region. Low means the watermark still shows. */
+  removal: number;
+  /** How closely the region's texture matches a band around it. Low means a smear or a patch of artifacts. */
+  consistency: number;
+  /** The model judge's rating, when one was asked. */
+  judge: number | null;
+}
+
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+// A window takes part in SSIM when at least this share of it is included.
+const MIN_WINDOW_COVERAGE = 0.75;
+// Brightness change that marks a pixel as edited when there is no mask.
+export const CHANGE_THRESHOLD = 24;
+// Grown around detected changes so the soft edge of an edit counts as part of it.
+const CHANGE_PADDING = 4;
+// Width of the band around the region its texture is compared with.
+const RING_WIDTH = 12;
+
+const WEIGHTS = { preservation: 0.4, removal: 0.4, consistency: 0.2 };
+// Share of the overall score given to the judge when there is one.
+const JUDGE_WEIGHT = 0.3;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const assertSameSize = (a: Raster, b: Raster) => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Cannot compare a ${a.width}x${a.height} image with a ${b.width}x${b.height} one.`);
+  }
+};
+
+/** Rec. 601 brightness, one value per pixel. */
+export function toLuma(raster: Raster): Float32Array {
+  const luma = new Float32Array(raster.width * raster.height);
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    luma[i] = 0.299 * raster.data[o] + 0.587 * raster.data[o + 1] + 0.114 * raster.data[o + 2];
+  }
+  return luma;
+}
+
+/** Central-difference gradient magnitude; border pixels are 0. */
+export function gradientMagnitude(luma: Float32Array, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const dx = luma[i + 1] - luma[i - 1];
+      const dy = luma[i + width] - luma[i - width];
+      out[i] = Math.sqrt(dx * dx + dy * dy) / 2;
+    }
+  }
+  return out;
+}
+
+/** Grows a 0/1 region by `radius` pixels in every direction (square structuring element). */
+export function dilate(region: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  if (radius <= 0) return region;
+  const rows = new Uint8Array(region.length);
+  for (let y = 0; y < height; y++) {
+    let last = -Infinity;
+    // Two sweeps per row: distance to the nearest set pixel on the left, then on the right.
+    for (let x = 0; x < width; x++) {
+      if (region[y * width + x]) last = x;
+      if (x - last <= radius) rows[y * width + x] = 1;
+    }
+    last = Infinity;
+    for (let x = width - 1; x >= 0; x--) {
+      if (region[y * width + x]) last = x;
+      if (last - x <= radius) rows[y * width + x] = 1;
+    }
+  }
+  const out = new Uint8Array(region.length);
+  for (let x = 0; x < width; x++) {
+    let last = -Infinity;
+    for (let y = 0; y < height; y++) {
+      if (rows[y * width + x]) last = y;
+      if (y - last <= radius) out[y * width + x] = 1;
+    }
+    last = Infinity;
+    for (let y = height - 1; y >= 0; y--) {
+      if (rows[y * width + x]) last = y;
+      if (last - y <= radius) out[y * width + x] = 1;
+    }
+  }
+  return out;
+}
+
+/** Pixels whose brightness differs by more than `threshold`, padded a little: the edit region when there is no mask. */
+export function changedRegion(original: Raster, result: Raster, threshold: number = CHANGE_THRESHOLD): Uint8Array {
+  assertSameSize(original, result);
+  const a = toLuma(original);
+  const b = toLuma(result);
+  const region = new Uint8Array(a.length);
+  for (let i = 0; i < a.length; i++) region[i] = Math.abs(a[i] - b[i]) > threshold ? 1 : 0;
+  return dilate(region, original.width, original.height, CHANGE_PADDING);
+}
+
+/**
+ * Mean SSIM over 8x8 luminance windows. With `include`, only windows mostly made
+ * of included pixels count, and only those pixels enter the statistics. Returns
+ * null when no window qualifies.
+ */
+export function ssim(a: Raster, b: Raster, include?: Uint8Array): number | null {
+  assertSameSize(a, b);
+  const { width, height } = a;
+  const la = toLuma(a);
+  const lb = toLuma(b);
+  const minCount = SSIM_WINDOW * SSIM_WINDOW * MIN_WINDOW_COVERAGE;
+  let total = 0;
+  let windows = 0;
+
+  for (let y0 = 0; y0 + SSIM_WINDOW <= height; y0 += SSIM_STEP) {
+    for (let x0 = 0; x0 + SSIM_WINDOW <= width; x0 += SSIM_STEP) {
+      let n = 0, sa = 0, sb = 0, saa = 0, sbb = 0, sab = 0;
+      for (let y = y0; y < y0 + SSIM_WINDOW; y++) {
+        for (let x = x0; x < x0 + SSIM_WINDOW; x++) {
+          const i = y * width + x;
+          if (include && !include[i]) continue;
+          const va = la[i];
+          const vb = lb[i];
+          n++;
+          sa += va;
+          sb += vb;
+          saa += va * va;
+          sbb += vb * vb;
+          sab += va * vb;
+        }
+      }
+      if (n < minCount) continue;
+      const ma = sa / n;
+      const mb = sb / n;
+      const va = saa / n - ma * ma;
+      const vb = sbb / n - mb * mb;
+      const cov = sab / n - ma * mb;
+      total += ((2 * ma * mb + SSIM_C1) * (2 * cov + SSIM_C2)) / ((ma * ma + mb * mb + SSIM_C1) * (va + vb + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows ? total / windows : null;
+}
+
+/**
+ * Residual detection: correlates the original's edges with the result's inside
+ * the region. A watermark that was only dimmed or partly painted over keeps its
+ * outline, so the correlation stays high.
+ */
+export function removalScore(original: Raster, result: Raster, region: Uint8Array): number {
+  assertSameSize(original, result);
+  const { width, height } = original;
+  const ga = gradientMagnitude(toLuma(original), width, height);
+  const gb = gradientMagnitude(toLuma(result), width, height);
+  let n = 0, sa = 0, sb = 0, saa = 0, sbb = 0, sab = 0;
+  for (let i = 0; i < region.length; i++) {
+    if (!region[i]) continue;
+    n++;
+    sa += ga[i];
+    sb += gb[i];
+    saa += ga[i] * ga[i];
+    sbb += gb[i] * gb[i];
+    sab += ga[i] * gb[i];
+  }
+  // Nothing was changed, so nothing was removed.
+  if (n === 0) return 0;
+  const va = saa / n - (sa / n) ** 2;
+  const vb = sbb / n - (sb / n) ** 2;
+  // A flat original region has no structure that could survive; a flat result kept none of it.
+  if (va < 1e-6 || vb < 1e-6) return 1;
+  const correlation = (sab / n - (sa / n) * (sb / n)) / Math.sqrt(va * vb);
+  return clamp01(1 - correlation);
+}
+
+/** Ratio of the region's mean edge strength to that of the band around it, folded so 1 is a match. */
+export function consistencyScore(result: Raster, region: Uint8Array): number {
+  const { width, height } = result;
+  const gradient = gradientMagnitude(toLuma(result), width, height);
+  const ring = dilate(region, width, height, RING_WIDTH);
+  let inside = 0, insideCount = 0, around = 0, aroundCount = 0;
+  for (let i = 0; i < region.length; i++) {
+    if (region[i]) {
+      inside += gradient[i];
+      insideCount++;
+    } else if (ring[i]) {
+      around += gradient[i];
+      aroundCount++;
+    }
+  }
+  if (!insideCount || !aroundCount) return 1;
+  // +1 keeps near-flat surroundings from turning sensor noise into a large ratio.
+  const ratio = (inside / insideCount + 1) / (around / aroundCount + 1);
+  return Math.min(ratio, 1 / ratio);
+}
+
+/** Blends the individual scores into `overall`; the judge, when present, takes JUDGE_WEIGHT of it. */
+export function combineScores(parts: Omit<QualityScore, 'overall'>): QualityScore {
+  const pixels = WEIGHTS.preservation * parts.preservation + WEIGHTS.removal * parts.removal + WEIGHTS.consistency * parts.consistency;
+  const overall = parts.judge === null ? pixels : (1 - JUDGE_WEIGHT) * pixels + JUDGE_WEIGHT * parts.judge;
+  return { ...parts, overall: clamp01(overall) };
+}
+
+/**
+ * Scores one result against the original. `region` has one byte per pixel, 1
+ * inside the edit (maskHole of the mask, or changedRegion without one). Both
+ * rasters must be the same size.
+ */
+export function scoreResult(original: Raster, result: Raster, region: Uint8Array, judge: number | null = null): QualityScore {
+  assertSameSize(original, result);
+  const outside = region.map(v => (v ? 0 : 1));
+  // An edit that covers nearly everything leaves no clean windows; compare the whole frame instead.
+  const preservation = ssim(original, result, outside) ?? ssim(original, result) ?? 1;
+  return combineScores({
+    preservation: clamp01(preservation),
+    removal: removalScore(original, result, region),
+    consistency: consistencyScore(result, region),
+    judge: judge === null ? null : clamp01(judge),
+  });
+}
+
+/** Best first. The sort is stable, so ties keep their original order. */
+export const rankByScore = <T extends { score: QualityScore }>(items: T[]): T[] =>
+  [...items].sort((a, b) => b.score.overall - a.score.overall);
@@ -0,0 +1,126 @@
+// Pixel operations on plain RGBA buffers. Nothing here touches the DOM, so the
+// same code runs in the browser, in a worker and in Node (see lib/).
+
+export interface Raster {
+  width: number;
+  height: number;
+  /** RGBA, 4 bytes per pixel, row-major. */
+  data: Uint8ClampedArray;
+}
+
+/** Turns data URLs into rasters and back. The browser uses a canvas, Node uses pngjs/jpeg-js. */
+export interface ImageCodec {
+  decode(dataUrl: string): Promise<Raster>;
+  /** Always lossless: a lossy encoder would disturb pixels that are meant to be untouched. */
+  encodePng(raster: Raster): Promise<string>;
+  /** Final output in a chosen format; `quality` (0-1) is ignored for PNG. Throws for unsupported types. */
+  encode(raster: Raster, mimeType: string, quality?: number): Promise<string>;
+}
+
+export const createRaster = (width: number, height: number): Raster => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+/** Copies a rectangle out of `source`; the rectangle must lie inside it. */
+export function cropRaster(source: Raster, x: number, y: number, width: number, height: number): Raster {
+  const out = createRaster(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * source.width + x) * 4;
+    out.data.set(source.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return out;
+}
+
+/** Bilinear resample; returns the input unchanged when the size already matches. */
+export function resizeRaster(source: Raster, width: number, height: number): Raster {
+  if (source.width === width && source.height === height) return source;
+  const out = createRaster(width, height);
+  const sx = source.width / width;
+  const sy = source.height / height;
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(source.height - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(source.height - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(source.width - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(source.width - 1, x0 + 1);
+      const tx = fx - x0;
+      const a = (y0 * source.width + x0) * 4;
+      const b = (y0 * source.width + x1) * 4;
+      const c = (y1 * source.width + x0) * 4;
+      const d = (y1 * source.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let k = 0; k < 4; k++) {
+        const top = source.data[a + k] + (source.data[b + k] - source.data[a + k]) * tx;
+        const bottom = source.data[c + k] + (source.data[d + k] - source.data[c + k]) * tx;
+        out.data[o + k] = Math.round(top + (bottom - top) * ty);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Pastes `edited` onto `original` weighted by the mask's alpha. Pixels with zero
+ * mask alpha are copied byte-for-byte from the original. The edited image and the
+ * mask are scaled to the original's size first, since models may change resolution.
+ */
+export function compositeRasters(original: Raster, edited: Raster, mask: Raster): Raster {
+  const { width, height } = original;
+  const fill = resizeRaster(edited, width, height).data;
+  const alpha = resizeRaster(mask, width, height).data;
+  const px = new Uint8ClampedArray(original.data);
+  for (let i = 0; i < px.length; i += 4) {
+    const a = alpha[i + 3];
+    if (a === 0) continue;
+    const t = a / 255;
+    px[i] = Math.round(px[i] + (fill[i] - px[i]) * t);
+    px[i + 1] = Math.round(px[i + 1] + (fill[i + 1] - px[i + 1]) * t);
+    px[i + 2] = Math.round(px[i + 2] + (fill[i + 2] - px[i + 2]) * t);
+    px[i + 3] = Math.round(px[i + 3] + (fill[i + 3] - px[i + 3]) * t);
+  }
+  return { width, height, data: px };
+}
+
+/** Editor mask (painted alpha) to the opaque black/white form sent to models; white = inpaint. */
+export function toBinaryMask(mask: Raster): Raster {
+  const out = createRaster(mask.width, mask.height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const value = mask.data[i + 3];
+    out.data[i] = out.data[i + 1] = out.data[i + 2] = value;
+    out.data[i + 3] = 255;
+  }
+  return out;
+}
+
+/**
+ * Accepts either mask convention and returns the editor's: coverage in alpha.
+ * Files with any transparency are taken as painted masks; fully opaque ones
+ * as black/white masks where brightness is coverage.
+ */
+export function normalizeMask(mask: Raster): Raster {
+  const { data } = mask;
+  let transparent = false;
+  for (let i = 3; i < data.length && !transparent; i += 4) transparent = data[i] < 255;
+  if (transparent) return mask;
+
+  const out = createRaster(mask.width, mask.height);
+  for (let i = 0; i < data.length; i += 4) {
+    out.data[i] = out.data[i + 1] = out.data[i + 2] = 255;
+    out.data[i + 3] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return out;
+}
+
+/** One byte per pixel, 1 where the mask has any coverage: the hole the local engine fills. */
+export function maskHole(mask: Raster): Uint8Array {
+  const hole = new Uint8Array(mask.width * mask.height);
+  for (let i = 0; i < hole.length; i++) {
+    hole[i] = mask.data[i * 4 + 3] > 0 ? 1 : 0;
+  }
+  return hole;
+}
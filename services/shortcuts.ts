@@ -0,0 +1,78 @@
+// Editor-wide keyboard shortcuts. Ctrl stands for Cmd on macOS throughout.
+
+import type { MessageKey } from "./i18n";
+
+export type ShortcutAction = 'process' | 'download' | 'discard' | 'undo' | 'redo';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  /** As shown in tooltips and the shortcut list. */
+  keys: string;
+  /** The same keys in aria-keyshortcuts syntax. */
+  aria: string;
+  /** Catalog key of what it does. */
+  description: MessageKey;
+  /** Also fires while typing in a text field. The others leave text fields to the browser. */
+  inTextFields: boolean;
+  matches: (e: KeyboardEvent) => boolean;
+}
+
+const withCtrl = (e: KeyboardEvent) => (e.ctrlKey || e.metaKey) && !e.altKey;
+
+export const SHORTCUTS: Shortcut[] = [
+  {
+    action: 'process',
+    keys: 'Ctrl+Enter',
+    aria: 'Control+Enter',
+    description: 'shortcut.process',
+    inTextFields: true,
+    matches: e => withCtrl(e) && !e.shiftKey && e.key === 'Enter',
+  },
+  {
+    action: 'download',
+    keys: 'Ctrl+S',
+    aria: 'Control+S',
+    description: 'shortcut.download',
+    inTextFields: true,
+    matches: e => withCtrl(e) && !e.shiftKey && e.key.toLowerCase() === 's',
+  },
+  {
+    action: 'discard',
+    keys: 'Ctrl+Shift+Backspace',
+    aria: 'Control+Shift+Backspace',
+    description: 'shortcut.discard',
+    inTextFields: false,
+    matches: e => withCtrl(e) && e.shiftKey && e.key === 'Backspace',
+  },
+  {
+    action: 'undo',
+    keys: 'Ctrl+Z',
+    aria: 'Control+Z',
+    description: 'shortcut.undo',
+    inTextFields: false,
+    matches: e => withCtrl(e) && !e.shiftKey && e.key.toLowerCase() === 'z',
+  },
+  {
+    action: 'redo',
+    keys: 'Ctrl+Shift+Z',
+    aria: 'Control+Shift+Z Control+Y',
+    description: 'shortcut.redo',
+    inTextFields: false,
+    matches: e => withCtrl(e) && ((e.shiftKey && e.key.toLowerCase() === 'z') || e.key.toLowerCase() === 'y'),
+  },
+];
+
+export const shortcutFor = (action: ShortcutAction): Shortcut => SHORTCUTS.find(s => s.action === action)!;
+
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** The shortcut a keydown triggers, or null. */
+export function matchShortcut(e: KeyboardEvent): Shortcut | null {
+  const shortcut = SHORTCUTS.find(s => s.matches(e));
+  if (!shortcut || (!shortcut.inTextFields && isEditableTarget(e.target))) return null;
+  return shortcut;
+}
+
+/** `label (keys)`, for a button's title. */
+export const withKeys = (label: string, action: ShortcutAction) => `${label} (${shortcutFor(action).keys})`;
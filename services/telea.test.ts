@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { inpaintTelea } from "./telea";
+
+const WIDTH = 24;
+const HEIGHT = 16;
+
+/** Pseudo-random but fixed RGBA pixels, so every run sees the same input. */
+const noise = (width: number, height: number): Uint8ClampedArray => {
+  const px = new Uint8ClampedArray(width * height * 4);
+  let seed = 7;
+  for (let i = 0; i < px.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    px[i] = i % 4 === 3 ? 255 : seed % 256;
+  }
+  return px;
+};
+
+const solid = (width: number, height: number, rgba: number[]): Uint8ClampedArray => {
+  const px = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < px.length; i++) px[i] = rgba[i % 4];
+  return px;
+};
+
+/** A rectangular hole of 1s. */
+const box = (x: number, y: number, w: number, h: number): Uint8Array => {
+  const mask = new Uint8Array(WIDTH * HEIGHT);
+  for (let row = y; row < y + h; row++) mask.fill(1, row * WIDTH + x, row * WIDTH + x + w);
+  return mask;
+};
+
+describe('inpaintTelea', () => {
+  it('leaves every pixel outside the mask unchanged', () => {
+    const pixels = noise(WIDTH, HEIGHT);
+    const mask = box(8, 4, 6, 5);
+    const out = inpaintTelea(pixels, WIDTH, HEIGHT, mask);
+    for (let p = 0; p < WIDTH * HEIGHT; p++) {
+      if (mask[p]) continue;
+      expect(Array.from(out.subarray(p * 4, p * 4 + 4))).toEqual(Array.from(pixels.subarray(p * 4, p * 4 + 4)));
+    }
+  });
+
+  it('fills a hole in a flat colour with that colour', () => {
+    const colour = [40, 120, 200, 255];
+    const out = inpaintTelea(solid(WIDTH, HEIGHT, colour), WIDTH, HEIGHT, box(5, 5, 7, 4));
+    for (let p = 0; p < WIDTH * HEIGHT; p++) {
+      expect(Array.from(out.subarray(p * 4, p * 4 + 4))).toEqual(colour);
+    }
+  });
+
+  it('fills a hole in a gradient with values from the surrounding range', () => {
+    const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+    for (let p = 0; p < WIDTH * HEIGHT; p++) {
+      const value = Math.round(((p % WIDTH) / (WIDTH - 1)) * 255);
+      pixels.set([value, value, value, 255], p * 4);
+    }
+    const mask = box(10, 6, 4, 4);
+    const out = inpaintTelea(pixels, WIDTH, HEIGHT, mask);
+    const left = pixels[(6 * WIDTH + 9) * 4];
+    const right = pixels[(6 * WIDTH + 14) * 4];
+    for (let p = 0; p < WIDTH * HEIGHT; p++) {
+      if (!mask[p]) continue;
+      expect(out[p * 4]).toBeGreaterThanOrEqual(left);
+      expect(out[p * 4]).toBeLessThanOrEqual(right);
+    }
+  });
+
+  it('returns the same pixels on every run and does not modify its input', () => {
+    const pixels = noise(WIDTH, HEIGHT);
+    const copy = new Uint8ClampedArray(pixels);
+    const mask = box(3, 2, 9, 9);
+    const first = inpaintTelea(pixels, WIDTH, HEIGHT, mask);
+    const second = inpaintTelea(pixels, WIDTH, HEIGHT, mask);
+    expect(second).toEqual(first);
+    expect(pixels).toEqual(copy);
+  });
+
+  it('returns an unchanged copy when the mask is empty', () => {
+    const pixels = noise(WIDTH, HEIGHT);
+    const out = inpaintTelea(pixels, WIDTH, HEIGHT, new Uint8Array(WIDTH * HEIGHT));
+    expect(out).toEqual(pixels);
+    expect(out).not.toBe(pixels);
+  });
+});
@@ -0,0 +1,209 @@
+
+// Fast-marching inpainting after Telea (2004), operating on raw RGBA pixel buffers.
+// Pure and synchronous so it can run in a worker and produce identical output on every run.
+
+const KNOWN = 0;
+const BAND = 1;
+const INSIDE = 2;
+const OUTSIDE = 3;
+
+const FAR = 1e6;
+
+class MinHeap {
+  private keys: number[] = [];
+  private values: number[] = [];
+
+  get size() {
+    return this.values.length;
+  }
+
+  push(key: number, value: number) {
+    this.keys.push(key);
+    this.values.push(value);
+    let i = this.values.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      // Ties are broken on the pixel index so the marching order never depends on insertion order.
+      if (this.less(i, parent)) {
+        this.swap(i, parent);
+        i = parent;
+      } else {
+        break;
+      }
+    }
+  }
+
+  pop(): number {
+    const top = this.values[0];
+    const lastKey = this.keys.pop()!;
+    const lastValue = this.values.pop()!;
+    if (this.values.length > 0) {
+      this.keys[0] = lastKey;
+      this.values[0] = lastValue;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.values.length && this.less(left, smallest)) smallest = left;
+        if (right < this.values.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private less(a: number, b: number) {
+    return this.keys[a] < this.keys[b] || (this.keys[a] === this.keys[b] && this.values[a] < this.values[b]);
+  }
+
+  private swap(a: number, b: number) {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.values[a], this.values[b]] = [this.values[b], this.values[a]];
+  }
+}
+
+/**
+ * Fills every pixel whose mask value is non-zero by marching inwards from the
+ * hole boundary, estimating each pixel from a weighted average of already known
+ * neighbours within `radius`. Returns a new buffer; the input is not modified.
+ */
+export function inpaintTelea(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  radius: number = 5
+): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(pixels);
+  const size = width * height;
+  const flags = new Uint8Array(size);
+  const T = new Float32Array(size);
+  const heap = new MinHeap();
+
+  for (let i = 0; i < size; i++) {
+    if (mask[i]) {
+      flags[i] = INSIDE;
+      T[i] = FAR;
+    }
+  }
+
+  // Seed the narrow band with known pixels that touch the hole.
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (flags[i] !== KNOWN) continue;
+      if (
+        (x > 0 && flags[i - 1] === INSIDE) ||
+        (x < width - 1 && flags[i + 1] === INSIDE) ||
+        (y > 0 && flags[i - width] === INSIDE) ||
+        (y < height - 1 && flags[i + width] === INSIDE)
+      ) {
+        flags[i] = BAND;
+        heap.push(0, i);
+      }
+    }
+  }
+
+  const flagAt = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? OUTSIDE : flags[y * width + x];
+
+  const solve = (x1: number, y1: number, x2: number, y2: number) => {
+    const f1 = flagAt(x1, y1) === KNOWN;
+    const f2 = flagAt(x2, y2) === KNOWN;
+    if (f1 && f2) {
+      const t1 = T[y1 * width + x1];
+      const t2 = T[y2 * width + x2];
+      const d = 2 - (t1 - t2) * (t1 - t2);
+      if (d > 0) {
+        const r = Math.sqrt(d);
+        let s = (t1 + t2 - r) / 2;
+        if (s >= t1 && s >= t2) return s;
+        s += r;
+        if (s >= t1 && s >= t2) return s;
+      }
+      return 1 + Math.min(t1, t2);
+    }
+    if (f1) return 1 + T[y1 * width + x1];
+    if (f2) return 1 + T[y2 * width + x2];
+    return FAR;
+  };
+
+  const hasT = (x: number, y: number) => {
+    const f = flagAt(x, y);
+    return f === KNOWN || f === BAND;
+  };
+
+  const gradient = (x: number, y: number, t: number) => {
+    let gx = 0;
+    let gy = 0;
+    const right = hasT(x + 1, y);
+    const left = hasT(x - 1, y);
+    if (right && left) gx = (T[y * width + x + 1] - T[y * width + x - 1]) * 0.5;
+    else if (right) gx = T[y * width + x + 1] - t;
+    else if (left) gx = t - T[y * width + x - 1];
+    const down = hasT(x, y + 1);
+    const up = hasT(x, y - 1);
+    if (down && up) gy = (T[(y + 1) * width + x] - T[(y - 1) * width + x]) * 0.5;
+    else if (down) gy = T[(y + 1) * width + x] - t;
+    else if (up) gy = t - T[(y - 1) * width + x];
+    return { gx, gy };
+  };
+
+  const fill = (x: number, y: number) => {
+    const i = y * width + x;
+    const t = T[i];
+    const { gx, gy } = gradient(x, y, t);
+    const sum = [0, 0, 0, 0];
+    let totalWeight = 0;
+
+    for (let ky = Math.max(0, y - radius); ky <= Math.min(height - 1, y + radius); ky++) {
+      for (let kx = Math.max(0, x - radius); kx <= Math.min(width - 1, x + radius); kx++) {
+        const k = ky * width + kx;
+        if (k === i || flags[k] === INSIDE) continue;
+        const rx = x - kx;
+        const ry = y - ky;
+        const dist2 = rx * rx + ry * ry;
+        if (dist2 > radius * radius) continue;
+        const len = Math.sqrt(dist2);
+        let dir = (rx * gx + ry * gy) / len;
+        if (Math.abs(dir) <= 0.01) dir = 1e-6;
+        const lev = 1 / (1 + Math.abs(T[k] - t));
+        const weight = Math.abs(dir * lev / dist2);
+        totalWeight += weight;
+        for (let c = 0; c < 4; c++) sum[c] += weight * out[k * 4 + c];
+      }
+    }
+
+    if (totalWeight > 0) {
+      for (let c = 0; c < 4; c++) out[i * 4 + c] = Math.round(sum[c] / totalWeight);
+    }
+  };
+
+  while (heap.size > 0) {
+    const p = heap.pop();
+    if (flags[p] === KNOWN) continue;
+    flags[p] = KNOWN;
+    const px = p % width;
+    const py = (p - px) / width;
+
+    const neighbours: [number, number][] = [[px - 1, py], [px + 1, py], [px, py - 1], [px, py + 1]];
+    for (const [qx, qy] of neighbours) {
+      if (flagAt(qx, qy) !== INSIDE) continue;
+      const q = qy * width + qx;
+      T[q] = Math.min(
+        solve(qx, qy - 1, qx - 1, qy),
+        solve(qx, qy + 1, qx - 1, qy),
+        solve(qx, qy - 1, qx + 1, qy),
+        solve(qx, qy + 1, qx + 1, qy)
+      );
+      fill(qx, qy);
+      flags[q] = BAND;
+      heap.push(T[q], q);
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,28 @@
+import { createCanvas, loadImage } from "./mask";
+import { captureVideoFrame } from "./video";
+import type { MediaType } from "../types";
+
+const THUMBNAIL_SIZE = 160;
+
+/**
+ * Renders a small square JPEG preview for the history list. Returns null when
+ * the media can't be decoded, so a broken thumbnail never blocks saving the entry.
+ */
+export async function createThumbnail(source: Blob, type: MediaType, size: number = THUMBNAIL_SIZE): Promise<Blob | null> {
+  const url = URL.createObjectURL(source);
+  try {
+    const img = await loadImage(type === 'image' ? url : await captureVideoFrame(url, 0));
+    const { canvas, ctx } = createCanvas(size, size);
+    // Centre-crop to a square, like `object-cover` does in the list.
+    const scale = Math.max(size / img.naturalWidth, size / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    ctx.drawImage(img, (size - w) / 2, (size - h) / 2, w, h);
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch (error) {
+    console.warn("Thumbnail generation failed:", error);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,119 @@
+import { canvasCodec } from "./mask";
+import { generateId } from "./ids";
+import { compositeRasters, cropRaster, ImageCodec, Raster, resizeRaster } from "./raster";
+import type { InpaintingProvider, InpaintRequest } from "./inpainting";
+
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TiledInpaintOptions {
+  codec?: ImageCodec;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Wide enough for the blend to hide differences in how neighbouring tiles were filled.
+export const TILE_OVERLAP = 128;
+
+/** Start offsets along one axis so that tiles of `size` cover `length` with at least `overlap` shared pixels. */
+const axisStarts = (length: number, size: number, overlap: number): number[] => {
+  if (length <= size) return [0];
+  const count = Math.ceil((length - overlap) / (size - overlap));
+  const stride = (length - size) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * stride));
+};
+
+/** Splits an image into overlapping tiles no larger than `size`, in row-major order. */
+export function planTiles(width: number, height: number, size: number, overlap: number = TILE_OVERLAP): Tile[] {
+  const tiles: Tile[] = [];
+  for (const y of axisStarts(height, size, overlap)) {
+    for (const x of axisStarts(width, size, overlap)) {
+      tiles.push({ x, y, width: Math.min(size, width), height: Math.min(size, height) });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Writes a tile into `target`, cross-fading linearly over the part it shares with
+ * tiles above and to the left. Tiles must be blended in planTiles order, so those
+ * neighbours are always already in place.
+ */
+export function blendTile(target: Raster, tile: Raster, at: Tile, previous: Tile[]) {
+  // How far this tile's left/top edge reaches into earlier tiles; 0 on the image border.
+  const left = previous.reduce((max, t) => t.y === at.y && t.x < at.x ? Math.max(max, t.x + t.width - at.x) : max, 0);
+  const top = previous.reduce((max, t) => t.x === at.x && t.y < at.y ? Math.max(max, t.y + t.height - at.y) : max, 0);
+  for (let row = 0; row < at.height; row++) {
+    const wy = top > 0 ? Math.min(1, row / top) : 1;
+    for (let col = 0; col < at.width; col++) {
+      const wx = left > 0 ? Math.min(1, col / left) : 1;
+      const w = wx * wy;
+      const src = (row * at.width + col) * 4;
+      const dst = ((at.y + row) * target.width + at.x + col) * 4;
+      for (let k = 0; k < 4; k++) {
+        target.data[dst + k] = Math.round(target.data[dst + k] * (1 - w) + tile.data[src + k] * w);
+      }
+    }
+  }
+}
+
+const hasCoverage = (mask: Raster) => {
+  for (let i = 3; i < mask.data.length; i += 4) if (mask.data[i] > 0) return true;
+  return false;
+};
+
+/**
+ * Runs a provider at the input's full resolution. Images larger than the
+ * provider's `maxInputSide` are cut into overlapping tiles, each tile is cleaned
+ * on its own and the results are stitched back with blended seams. Tiles the mask
+ * does not touch are skipped. Results that come back at a different size are
+ * scaled to the original, so the output always matches the input's dimensions.
+ */
+export async function inpaintAtFullResolution(
+  provider: InpaintingProvider,
+  request: InpaintRequest,
+  { codec = canvasCodec, onProgress }: TiledInpaintOptions = {}
+): Promise<string | null> {
+  const image = await codec.decode(request.image);
+  const { width, height } = image;
+  const limit = provider.maxInputSide;
+
+  if (!limit || Math.max(width, height) <= limit) {
+    const result = await provider.inpaintImage(request);
+    if (!result) return null;
+    const raster = await codec.decode(result);
+    return raster.width === width && raster.height === height ? result : codec.encodePng(resizeRaster(raster, width, height));
+  }
+
+  const mask = request.mask ? resizeRaster(await codec.decode(request.mask), width, height) : null;
+  const tiles = planTiles(width, height, limit);
+  const jobId = request.jobId || generateId();
+  const out: Raster = { width, height, data: new Uint8ClampedArray(image.data) };
+  onProgress?.(0, tiles.length);
+
+  for (let i = 0; i < tiles.length; i++) {
+    request.signal?.throwIfAborted();
+    const tile = tiles[i];
+    const tileMask = mask && cropRaster(mask, tile.x, tile.y, tile.width, tile.height);
+    let cleaned = cropRaster(image, tile.x, tile.y, tile.width, tile.height);
+    if (!tileMask || hasCoverage(tileMask)) {
+      const result = await provider.inpaintImage({
+        ...request,
+        jobId,
+        image: await codec.encodePng(cleaned),
+        mimeType: 'image/png',
+        mask: tileMask && await codec.encodePng(tileMask),
+      });
+      if (!result) return null;
+      cleaned = resizeRaster(await codec.decode(result), tile.width, tile.height);
+    }
+    blendTile(out, cleaned, tile, tiles.slice(0, i));
+    onProgress?.(i + 1, tiles.length);
+  }
+
+  // Seams may have pulled a little of a neighbour's fill outside the mask; restore those pixels exactly.
+  return codec.encodePng(mask ? compositeRasters(image, out, mask) : out);
+}
@@ -0,0 +1,254 @@
+import { Muxer, ArrayBufferTarget } from "mp4-muxer";
+import { createCanvas, loadImage } from "./mask";
+
+export interface VideoTimeRange {
+  start: number;
+  end: number;
+}
+
+export interface VideoCleanupOptions {
+  /** Static mask at the video's natural resolution, applied to every frame in `range`. */
+  mask: string;
+  range: VideoTimeRange;
+  fps: number;
+  /** 0 = no smoothing, 1 = freeze the first cleaned frame. Only applied inside the mask. */
+  temporalSmoothing: number;
+  /** Runs a single frame through the image cleanup path. */
+  inpaintFrame: (frame: string, mask: string) => Promise<string | null>;
+  onProgress?: (done: number, total: number) => void;
+  /** Called when the original sound could not be re-encoded; the clip is then written without it. */
+  onAudioError?: (error: Error) => void;
+  signal?: AbortSignal;
+}
+
+const AUDIO_CHUNK_FRAMES = 1024;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+// Files written by MediaRecorder (e.g. camera clips) report an infinite duration
+// until the browser has scanned to the end, so seek there once and back.
+const resolveDuration = (video: HTMLVideoElement): Promise<void> => {
+  if (Number.isFinite(video.duration)) return Promise.resolve();
+  return new Promise(resolve => {
+    video.onseeked = () => {
+      video.onseeked = () => {
+        video.onseeked = null;
+        resolve();
+      };
+      video.currentTime = 0;
+    };
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+};
+
+const loadVideo = async (src: string): Promise<HTMLVideoElement> => {
+  const video = await new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not decode video."));
+    video.src = src;
+  });
+  await resolveDuration(video);
+  return video;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Could not decode video frame."));
+    video.currentTime = time;
+  });
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Video cleanup was cancelled.", "AbortError");
+};
+
+export async function getVideoInfo(src: string): Promise<{ width: number; height: number; duration: number }> {
+  const video = await loadVideo(src);
+  return { width: video.videoWidth, height: video.videoHeight, duration: video.duration };
+}
+
+/**
+ * Grabs a single frame as a PNG data URL, e.g. to paint the mask on.
+ */
+export async function captureVideoFrame(src: string, time: number = 0): Promise<string> {
+  const video = await loadVideo(src);
+  await seekTo(video, Math.min(time, Math.max(0, video.duration - 0.001)));
+  const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+  ctx.drawImage(video, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+const pickVideoCodec = async (width: number, height: number, fps: number): Promise<VideoEncoderConfig> => {
+  // High profile first, then Baseline for older hardware encoders.
+  for (const codec of ['avc1.640028', 'avc1.42001f']) {
+    const config: VideoEncoderConfig = { codec, width, height, framerate: fps, bitrate: 8_000_000 };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  throw new Error(`This browser cannot encode ${width}x${height} H.264 video.`);
+};
+
+const decodeAudio = async (src: string): Promise<AudioBuffer | null> => {
+  try {
+    const bytes = await (await fetch(src)).arrayBuffer();
+    const audioContext = new OfflineAudioContext(1, 1, 44100);
+    return await audioContext.decodeAudioData(bytes);
+  } catch {
+    // No audio track, or a codec the browser can't decode: the output is simply silent.
+    return null;
+  }
+};
+
+type AudioChunk = [EncodedAudioChunk, EncodedAudioChunkMetadata | undefined];
+
+/**
+ * Encodes the whole track to AAC before any frame is cleaned, so a browser that
+ * cannot do it (Safari before 26 has no AudioEncoder) still gets a silent clip.
+ */
+const encodeAudio = async (buffer: AudioBuffer): Promise<AudioChunk[]> => {
+  const chunks: AudioChunk[] = [];
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => chunks.push([chunk, meta]),
+    error: (e) => { encodeError = e; },
+  });
+
+  try {
+    encoder.configure({
+      codec: 'mp4a.40.2',
+      sampleRate: buffer.sampleRate,
+      numberOfChannels: buffer.numberOfChannels,
+      bitrate: 128_000,
+    });
+
+    for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+      if (encodeError) throw encodeError;
+      const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+      const planar = new Float32Array(frames * buffer.numberOfChannels);
+      for (let c = 0; c < buffer.numberOfChannels; c++) {
+        planar.set(buffer.getChannelData(c).subarray(offset, offset + frames), c * frames);
+      }
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: buffer.numberOfChannels,
+        timestamp: Math.round((offset / buffer.sampleRate) * 1e6),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+    }
+
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+    return chunks;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+};
+
+/**
+ * Decodes the uploaded video frame by frame, inpaints every frame inside `range`
+ * through the image path, and re-encodes the result to MP4 with the original audio.
+ */
+export async function cleanVideoFrames(src: string, options: VideoCleanupOptions): Promise<Blob> {
+  const { mask, range, fps, temporalSmoothing, inpaintFrame, onProgress, onAudioError, signal } = options;
+
+  if (typeof VideoEncoder === 'undefined') {
+    throw new Error("Frame-by-frame cleanup needs a browser with WebCodecs support (Chrome, Edge or Safari 17+).");
+  }
+
+  const video = await loadVideo(src);
+  // H.264 requires even dimensions.
+  const width = video.videoWidth & ~1;
+  const height = video.videoHeight & ~1;
+  const totalFrames = Math.max(1, Math.floor(video.duration * fps));
+  const frameDuration = 1e6 / fps;
+
+  const track = await decodeAudio(src);
+  let audio: AudioChunk[] | null = null;
+  if (track) {
+    try {
+      audio = await encodeAudio(track);
+    } catch (err: any) {
+      onAudioError?.(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width, height, frameRate: fps },
+    audio: track && audio ? { codec: 'aac', numberOfChannels: track.numberOfChannels, sampleRate: track.sampleRate } : undefined,
+    fastStart: 'in-memory',
+  });
+
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; },
+  });
+  encoder.configure(await pickVideoCodec(width, height, fps));
+
+  const frame = createCanvas(width, height);
+  const cleaned = createCanvas(width, height);
+  const maskCanvas = createCanvas(width, height);
+  maskCanvas.ctx.drawImage(await loadImage(mask), 0, 0, width, height);
+  const maskAlpha = maskCanvas.ctx.getImageData(0, 0, width, height).data;
+
+  let previous: Uint8ClampedArray | null = null;
+
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      throwIfAborted(signal);
+      if (encodeError) throw encodeError;
+
+      const time = i / fps;
+      await seekTo(video, time);
+      frame.ctx.drawImage(video, 0, 0, width, height);
+
+      let output: HTMLCanvasElement = frame.canvas;
+      if (time >= range.start && time <= range.end) {
+        const result = await inpaintFrame(frame.canvas.toDataURL('image/png'), mask);
+        if (!result) throw new Error(`Frame ${i + 1} could not be cleaned.`);
+        cleaned.ctx.drawImage(await loadImage(result), 0, 0, width, height);
+
+        // Blend each masked pixel with the previous cleaned frame to suppress flicker between frames.
+        const current = cleaned.ctx.getImageData(0, 0, width, height);
+        if (previous && temporalSmoothing > 0) {
+          const px = current.data;
+          for (let p = 0; p < px.length; p += 4) {
+            if (maskAlpha[p + 3] === 0) continue;
+            for (let c = 0; c < 3; c++) {
+              px[p + c] = Math.round(px[p + c] * (1 - temporalSmoothing) + previous[p + c] * temporalSmoothing);
+            }
+          }
+          cleaned.ctx.putImageData(current, 0, 0);
+        }
+        previous = current.data;
+        output = cleaned.canvas;
+      } else {
+        previous = null;
+      }
+
+      const videoFrame = new VideoFrame(output, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(videoFrame, { keyFrame: i % Math.round(fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+      videoFrame.close();
+
+      onProgress?.(i + 1, totalFrames);
+    }
+
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+    audio?.forEach(([chunk, meta]) => muxer.addAudioChunk(chunk, meta));
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+    video.removeAttribute('src');
+  }
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createVideoJobManager, JobAbortedError, OperationSnapshot, VideoJob, VideoJobContext, VideoJobManagerOptions, VideoOperationsClient } from "./videoJobs";
+import { ProxyError } from "./gemini";
+
+const CONTEXT: VideoJobContext = {
+  entryId: 'entry-1',
+  parentNodeId: 'node-1',
+  type: 'video',
+  mimeType: 'video/mp4',
+  attestedBy: 'Ada',
+  preset: null,
+  provider: 'gemini',
+  model: 'veo',
+};
+const REQUEST = { prompt: 'A clean beach', aspectRatio: '16:9' as const };
+const INTERVAL = 1000;
+
+/** A storage that survives "reloads": managers created on it share their jobs. */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return { getItem: (key: string) => items.get(key) ?? null, setItem: (key: string, value: string) => { items.set(key, value); } };
+};
+
+/** An operations client that answers polls from a script, one entry per poll. */
+const scriptedClient = (script: (OperationSnapshot | Error)[]) => {
+  const client = {
+    start: vi.fn(async () => 'operations/op-1'),
+    poll: vi.fn(async () => {
+      const next = script.shift();
+      if (!next) throw new Error('Polled more often than scripted.');
+      if (next instanceof Error) throw next;
+      return next;
+    }),
+    downloadUrl: async (uri: string) => `/download?uri=${uri}`,
+  };
+  return client satisfies VideoOperationsClient;
+};
+
+let clock: number;
+let sleeps: number[];
+
+/** Advances the fake clock instead of waiting, and honours the abort signal like the real sleep. */
+const sleep = async (ms: number, signal?: AbortSignal) => {
+  if (signal?.aborted) throw new JobAbortedError();
+  sleeps.push(ms);
+  clock += ms;
+};
+
+const manager = (client: VideoOperationsClient, options: Partial<VideoJobManagerOptions> = {}) =>
+  createVideoJobManager({ client, storage: memoryStorage(), pollInterval: INTERVAL, now: () => clock, sleep, ...options });
+
+beforeEach(() => {
+  clock = 0;
+  sleeps = [];
+  // No jitter, so backoff delays are exact.
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('createVideoJobManager', () => {
+  it('polls at the interval until the operation is done', async () => {
+    const client = scriptedClient([{ done: false }, { done: false }, { done: true, videoUri: 'files/clip' }]);
+    const jobs = manager(client);
+    const updates: VideoJob[] = [];
+
+    const finished = await jobs.run(await jobs.start(REQUEST, CONTEXT), { onUpdate: job => updates.push(job) });
+
+    expect(finished.status).toBe('succeeded');
+    expect(finished.videoUri).toBe('files/clip');
+    expect(sleeps).toEqual([INTERVAL, INTERVAL, INTERVAL]);
+    expect(client.poll).toHaveBeenCalledWith('operations/op-1');
+    expect(updates.map(job => job.status)).toEqual(['running', 'running', 'succeeded']);
+  });
+
+  it('reports an operation that finished without a video as failed', async () => {
+    const jobs = manager(scriptedClient([{ done: true, error: 'Blocked by policy.' }]));
+    const finished = await jobs.run(await jobs.start(REQUEST, CONTEXT));
+    expect(finished.status).toBe('failed');
+    expect(finished.error).toBe('Blocked by policy.');
+  });
+
+  it('backs off exponentially on network errors and resets after a successful poll', async () => {
+    const offline = () => new Error('fetch failed');
+    const client = scriptedClient([offline(), offline(), { done: false }, offline(), { done: true, videoUri: 'files/clip' }]);
+    const jobs = manager(client, { maxBackoff: 3000 });
+    const finished = await jobs.run(await jobs.start(REQUEST, CONTEXT));
+
+    expect(finished.status).toBe('succeeded');
+    expect(finished.failures).toBe(0);
+    // 2s, then 4s capped at 3s, back to the interval after a good poll, then 2s again.
+    expect(sleeps).toEqual([INTERVAL, 2000, 3000, INTERVAL, 2000]);
+  });
+
+  it('fails after too many consecutive network errors', async () => {
+    const client = scriptedClient(Array.from({ length: 4 }, () => new Error('fetch failed')));
+    const jobs = manager(client, { maxFailures: 3 });
+    const finished = await jobs.run(await jobs.start(REQUEST, CONTEXT));
+
+    expect(finished.status).toBe('failed');
+    expect(finished.failures).toBe(4);
+    expect(client.poll).toHaveBeenCalledTimes(4);
+  });
+
+  it('fails straight away on errors that would not clear up', async () => {
+    const client = scriptedClient([new ProxyError(401, 'Key rejected.')]);
+    const jobs = manager(client);
+    const finished = await jobs.run(await jobs.start(REQUEST, CONTEXT));
+
+    expect(finished.status).toBe('failed');
+    expect(finished.error).toBe('Key rejected.');
+    expect(client.poll).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out once the job is older than the timeout', async () => {
+    const client = scriptedClient(Array.from({ length: 10 }, () => ({ done: false })));
+    const jobs = manager(client, { timeout: 3500 });
+    const finished = await jobs.run(await jobs.start(REQUEST, CONTEXT));
+
+    expect(finished.status).toBe('timed-out');
+    expect(client.poll).toHaveBeenCalledTimes(4);
+    expect(jobs.pending()).toEqual([]);
+  });
+
+  it('stops waiting when aborted and forgets the job as pending', async () => {
+    const controller = new AbortController();
+    const client = scriptedClient([{ done: false }, { done: false }]);
+    client.poll.mockImplementationOnce(async () => {
+      controller.abort();
+      return { done: false };
+    });
+    const jobs = manager(client);
+    const job = await jobs.start(REQUEST, CONTEXT);
+
+    await expect(jobs.run(job, { signal: controller.signal })).rejects.toBeInstanceOf(JobAbortedError);
+    expect(client.poll).toHaveBeenCalledTimes(1);
+    expect(jobs.pending()).toEqual([]);
+  });
+
+  it('resumes a job after a reload and counts the time before it against the timeout', async () => {
+    const storage = memoryStorage();
+    const before = manager(scriptedClient([]), { storage });
+    const started = await before.start(REQUEST, CONTEXT);
+
+    // The page reloads ten seconds later; a new manager finds the job in storage.
+    clock += 10_000;
+    const client = scriptedClient([{ done: false }, { done: true, videoUri: 'files/clip' }]);
+    const after = manager(client, { storage, timeout: 60_000 });
+    const [found] = after.pending();
+    expect(found).toMatchObject({ id: started.id, operationName: 'operations/op-1', entryId: 'entry-1', status: 'running' });
+
+    const finished = await after.run(found);
+    expect(finished.status).toBe('succeeded');
+    // Succeeded but not collected yet: still pending until removed.
+    expect(after.pending().map(job => job.id)).toEqual([started.id]);
+    after.remove(started.id);
+    expect(after.pending()).toEqual([]);
+
+    const late = manager(scriptedClient([]), { storage, timeout: 5000 });
+    const expired = await late.run({ ...found, createdAt: clock - 6000 });
+    expect(expired.status).toBe('timed-out');
+  });
+});
@@ -0,0 +1,227 @@
+import { generateId } from "./ids";
+import { isTransientError } from "./errors";
+import type { ProviderId, VideoRequest } from "./inpainting";
+import type { MediaType, PresetUse } from "../types";
+
+export type VideoJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed-out';
+
+/** What happened last, shown in the UI language next to the elapsed time. */
+export type VideoJobDetail =
+  | 'queued' | 'generating' | 'retrying' | 'done' | 'failed' | 'cancelled' | 'timed-out'
+  /** Set by the editor once a clip that finished in the background is in history, or could not be put there. */
+  | 'saved' | 'save-failed';
+
+/** The wait after a transient poll failure. */
+export interface VideoJobRetry {
+  /** Milliseconds until the next poll. */
+  delay: number;
+  attempt: number;
+  maxAttempts: number;
+}
+
+/** What the provider reports back for a long-running generation. */
+export interface OperationSnapshot {
+  done: boolean;
+  videoUri?: string | null;
+  error?: string | null;
+}
+
+/**
+ * The two calls a long-running video backend has to offer. The handle returned
+ * by `start` must be a plain string so it can be persisted and polled again
+ * after a reload.
+ */
+export interface VideoOperationsClient {
+  start(request: VideoRequest): Promise<string>;
+  poll(operationName: string): Promise<OperationSnapshot>;
+  /** Turns a finished operation's video URI into something an <a>/<video> can load. */
+  downloadUrl(videoUri: string): Promise<string>;
+}
+
+export interface VideoJob {
+  id: string;
+  operationName: string;
+  request: VideoRequest;
+  provider: ProviderId;
+  model: string;
+  status: VideoJobStatus;
+  detail: VideoJobDetail;
+  /** Set while `detail` is 'retrying'. */
+  retry?: VideoJobRetry | null;
+  createdAt: number;
+  updatedAt: number;
+  /** Consecutive transient failures; reset by the next successful poll. */
+  failures: number;
+  videoUri?: string;
+  error?: string;
+  /** Where the finished clip belongs: the history entry and the node it was started from. */
+  entryId: string;
+  parentNodeId: string;
+  type: MediaType;
+  mimeType: string;
+  attestedBy?: string | null;
+  preset?: PresetUse | null;
+}
+
+export type VideoJobContext = Pick<VideoJob, 'entryId' | 'parentNodeId' | 'type' | 'mimeType' | 'attestedBy' | 'preset' | 'provider' | 'model'>;
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onUpdate?: (job: VideoJob) => void;
+}
+
+export interface VideoJobManagerOptions {
+  client: VideoOperationsClient;
+  /** Defaults to localStorage; anything with the same two methods works (e.g. an in-memory map). */
+  storage?: Pick<Storage, 'getItem' | 'setItem'>;
+  pollInterval?: number;
+  /** Give up on a job this long after it was started, including time spent before a reload. */
+  timeout?: number;
+  maxBackoff?: number;
+  /** Consecutive transient poll errors tolerated before the job is failed. */
+  maxFailures?: number;
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export interface VideoJobManager {
+  start(request: VideoRequest, context: VideoJobContext): Promise<VideoJob>;
+  /** Polls until the job settles. Resolves with the final job; rejects only when aborted. */
+  run(job: VideoJob, options?: RunOptions): Promise<VideoJob>;
+  /**
+   * Jobs whose result has not been collected yet: still running, or finished
+   * while nobody was listening (e.g. interrupted by a reload).
+   */
+  pending(): VideoJob[];
+  /** Forgets a job once its result has been collected or it has failed. */
+  remove(id: string): void;
+}
+
+const STORAGE_KEY = 'clearcast.videoJobs';
+const DEFAULT_POLL_INTERVAL = 10_000;
+const DEFAULT_TIMEOUT = 20 * 60_000;
+const DEFAULT_MAX_BACKOFF = 2 * 60_000;
+const DEFAULT_MAX_FAILURES = 6;
+
+export class JobAbortedError extends Error {
+  constructor() {
+    super('Cancelled.');
+    this.name = 'JobAbortedError';
+  }
+}
+
+const abortableSleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new JobAbortedError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new JobAbortedError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export function createVideoJobManager(options: VideoJobManagerOptions): VideoJobManager {
+  const {
+    client,
+    storage = localStorage,
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    timeout = DEFAULT_TIMEOUT,
+    maxBackoff = DEFAULT_MAX_BACKOFF,
+    maxFailures = DEFAULT_MAX_FAILURES,
+    now = Date.now,
+    sleep = abortableSleep,
+  } = options;
+
+  const load = (): VideoJob[] => {
+    try {
+      return JSON.parse(storage.getItem(STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  const save = (job: VideoJob) => {
+    const jobs = load().filter(j => j.id !== job.id);
+    storage.setItem(STORAGE_KEY, JSON.stringify([...jobs, job]));
+  };
+
+  const remove = (id: string) => {
+    storage.setItem(STORAGE_KEY, JSON.stringify(load().filter(j => j.id !== id)));
+  };
+
+  const start = async (request: VideoRequest, context: VideoJobContext): Promise<VideoJob> => {
+    const operationName = await client.start(request);
+    const job: VideoJob = {
+      ...context,
+      id: generateId(),
+      operationName,
+      request,
+      status: 'running',
+      detail: 'queued',
+      createdAt: now(),
+      updatedAt: now(),
+      failures: 0,
+    };
+    // Persisted before the first poll so a reload right now still finds the job.
+    save(job);
+    return job;
+  };
+
+  const run = async (initial: VideoJob, { signal, onUpdate }: RunOptions = {}): Promise<VideoJob> => {
+    let job = initial;
+    const update = (patch: Partial<VideoJob>) => {
+      job = { ...job, ...patch, updatedAt: now() };
+      save(job);
+      onUpdate?.(job);
+      return job;
+    };
+
+    let delay = pollInterval;
+    while (job.status === 'running') {
+      if (signal?.aborted) {
+        // The operation itself keeps running server-side; we only stop waiting for it.
+        update({ status: 'cancelled', detail: 'cancelled', retry: null });
+        throw new JobAbortedError();
+      }
+      if (now() - job.createdAt > timeout) {
+        return update({ status: 'timed-out', detail: 'timed-out', retry: null, error: `No result after ${Math.round(timeout / 60_000)} minutes.` });
+      }
+
+      try {
+        await sleep(delay, signal);
+      } catch (err) {
+        if (err instanceof JobAbortedError) continue;
+        throw err;
+      }
+
+      try {
+        const snapshot = await client.poll(job.operationName);
+        delay = pollInterval;
+        if (!snapshot.done) {
+          update({ failures: 0, detail: 'generating', retry: null });
+        } else if (snapshot.videoUri) {
+          update({ status: 'succeeded', failures: 0, detail: 'done', retry: null, videoUri: snapshot.videoUri });
+        } else {
+          update({ status: 'failed', detail: 'failed', retry: null, error: snapshot.error || 'The operation finished without a video.' });
+        }
+      } catch (err: any) {
+        const failures = job.failures + 1;
+        if (!isTransientError(err) || failures > maxFailures) {
+          update({ status: 'failed', failures, detail: 'failed', retry: null, error: err?.message || 'Polling failed.' });
+        } else {
+          // Exponential backoff with jitter so many tabs do not retry in lockstep.
+          delay = Math.min(maxBackoff, pollInterval * 2 ** failures) * (0.8 + Math.random() * 0.4);
+          update({ failures, detail: 'retrying', retry: { delay, attempt: failures, maxAttempts: maxFailures } });
+        }
+      }
+    }
+    return job;
+  };
+
+  const pending = () => load().filter(job => job.status === 'running' || job.status === 'succeeded');
+
+  return { start, run, pending, remove };
+}
@@ -0,0 +1,148 @@
+import type { ProviderId } from './services/inpainting';
+import type { QualityScore } from './services/quality';
+
+export type MediaType = 'image' | 'video';
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One step of an edit session. The root node holds the uploaded asset and has no
+ * instruction; every other node is the result of running `instruction` on its parent.
+ * `M` is the media representation: data URLs while editing, Blobs once persisted.
+ */
+export interface EditNode<M = string> {
+  id: string;
+  parentId: string | null;
+  media: M;
+  instruction: string;
+  provider: ProviderId | null;
+  model: string | null;
+  timestamp: number;
+  /** Name of whoever confirmed they own or are licensed to edit the asset before this step ran. */
+  attestedBy?: string | null;
+  /** Set when `instruction` was filled from a preset rather than typed. */
+  preset?: PresetUse | null;
+  /** Set on results that were scored against other candidates of the same run. */
+  quality?: QualityScore | null;
+}
+
+/** A reusable instruction. `{name}` placeholders in the template are filled in per run. */
+export interface InstructionPreset {
+  id: string;
+  name: string;
+  template: string;
+  /** Tabs the preset is offered on. */
+  types: MediaType[];
+  builtIn?: boolean;
+}
+
+/** The preset an instruction came from and the values its variables were given. */
+export interface PresetUse {
+  id: string;
+  name: string;
+  values: Record<string, string>;
+}
+
+export interface EditGraph<M = string> {
+  rootId: string;
+  currentId: string;
+  nodes: Record<string, EditNode<M>>;
+}
+
+export interface EditHistory {
+  id: string;
+  projectId: string;
+  type: MediaType;
+  graph: EditGraph<Blob>;
+  thumbnail: Blob | null;
+  /** Instruction, provider and model of the most recent step, kept flat for listing and search. */
+  instruction: string;
+  /** Name of the preset the most recent step was filled from, if any. */
+  preset?: string | null;
+  mimeType: string;
+  provider: ProviderId;
+  model: string;
+  timestamp: number;
+}
+
+export interface HistoryQuery {
+  text?: string;
+  type?: MediaType | 'all';
+  /** Inclusive range in epoch milliseconds. */
+  from?: number;
+  to?: number;
+}
+
+/** One processing job, kept in a log that is never pruned with the history it belongs to. */
+export interface AuditRecord {
+  id: string;
+  timestamp: number;
+  operator: string;
+  ownershipAttested: boolean;
+  projectId: string | null;
+  entryId: string;
+  nodeId: string;
+  type: MediaType;
+  provider: ProviderId | null;
+  model: string;
+  instruction: string;
+  /** SHA-256 of the uploaded asset, of the input to this step and of its result. */
+  originalHash: string;
+  sourceHash: string;
+  resultHash: string;
+}
+
+export type QueuedCleanupStatus = 'queued' | 'running' | 'failed';
+
+/**
+ * An image cleanup requested while offline, run once the connection is back. Its
+ * result becomes a child of `parentNodeId` in the history entry it was queued from.
+ */
+export interface QueuedCleanup {
+  id: string;
+  entryId: string;
+  projectId: string;
+  parentNodeId: string;
+  /** The parent node's image and the painted mask, as the request will send them. */
+  image: Blob;
+  mask: Blob | null;
+  mimeType: string;
+  instruction: string;
+  provider: ProviderId;
+  model: string;
+  attestedBy: string;
+  preset: PresetUse | null;
+  status: QueuedCleanupStatus;
+  error?: string;
+  createdAt: number;
+}
+
+/** Overrides for the editor's look when it is embedded. Colours take any CSS colour value. */
+export interface EditorTheme {
+  /** Tabs, primary buttons and the logo. */
+  accent?: string;
+  /** Background of the panels. */
+  surface?: string;
+  /** Background behind the panels. */
+  background?: string;
+  text?: string;
+  fontFamily?: string;
+}
+
+/** The editor's current result, as handed to an embedding host. */
+export interface EditorResult {
+  /** With provenance embedded; images are in the chosen output format. */
+  blob: Blob;
+  mimeType: string;
+  type: MediaType;
+  instruction: string;
+  provider: ProviderId | null;
+  model: string | null;
+  /** Edit node the result came from. */
+  nodeId: string;
+}